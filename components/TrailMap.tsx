@@ -3,21 +3,79 @@
 import { useEffect, useRef } from 'react';
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
+import type { RouteLevel } from '@/lib/hike-schema';
+import { osmcSymbolSvg } from '@/lib/osmc-symbol';
+import { decodePolyline } from '@/lib/polyline';
 
 type TrailMapProps = {
   center: { lat: number; lon: number };
   gpxUrl?: string;          // if set → draw line
+  routeLevels?: RouteLevel[]; // simplified lines, preferred over the GPX
   height?: string;
   zoom?: number;
+  waymark?: string;         // osmc:symbol, repeated along the line
 };
 
 const MAP_STYLE = 'https://demotiles.maplibre.org/style.json';
 
+// Waymark icon size on the line, drawn at 2× for high-DPI screens.
+const WAYMARK_PX = 18;
+
+type Segments = [number, number][][];
+
+// The <trkpt> points of each <trkseg>; routes with unmapped gaps are split
+// across several segments.
+async function fetchGpxSegments(url: string): Promise<Segments> {
+  const res = await fetch(url);
+  const text = await res.text();
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+
+  const toCoords = (parent: Element | Document) =>
+    Array.from(parent.getElementsByTagName('trkpt'))
+      .map((pt) => {
+        const lat = parseFloat(pt.getAttribute('lat') || '0');
+        const lon = parseFloat(pt.getAttribute('lon') || '0');
+        if (Number.isNaN(lat) || Number.isNaN(lon)) return null;
+        return [lon, lat] as [number, number];
+      })
+      .filter((c): c is [number, number] => !!c);
+
+  const trksegs = Array.from(xml.getElementsByTagName('trkseg'));
+  return trksegs.length > 0 ? trksegs.map(toCoords) : [toCoords(xml)];
+}
+
+// A route level file holds one encoded polyline per segment.
+async function fetchLevelSegments(level: RouteLevel): Promise<Segments> {
+  const res = await fetch(level.file);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const text = await res.text();
+  return text.split('\n').filter(Boolean).map((line) => decodePolyline(line));
+}
+
+// The finest level meant for this zoom.
+function levelForZoom(levels: RouteLevel[], zoom: number): number {
+  let index = 0;
+  levels.forEach((level, i) => {
+    if (level.min_zoom <= zoom) index = i;
+  });
+  return index;
+}
+
+function lineFeature(segments: Segments): GeoJSON.Feature<GeoJSON.MultiLineString> {
+  return {
+    type: 'Feature',
+    properties: {},
+    geometry: { type: 'MultiLineString', coordinates: segments },
+  };
+}
+
 export function TrailMap({
   center,
   gpxUrl,
+  routeLevels,
   height = '260px',
   zoom = 12,
+  waymark,
 }: TrailMapProps) {
   const containerRef = useRef<HTMLDivElement | null>(null);
 
@@ -39,42 +97,24 @@ export function TrailMap({
         .setLngLat([center.lon, center.lat])
         .addTo(map);
 
-      // If no GPX, we stop here (mini-map mode on /find)
-      if (!gpxUrl) return;
+      // With no route, we stop here (mini-map mode on /find)
+      const levels = routeLevels ?? [];
+      if (levels.length === 0 && !gpxUrl) return;
 
       try {
-        const res = await fetch(gpxUrl);
-        const text = await res.text();
+        // Start with the coarsest level (or the full GPX when the route
+        // hasn't been simplified); finer levels load as the map zooms in.
+        const segments = (
+          levels.length > 0 ? await fetchLevelSegments(levels[0]) : await fetchGpxSegments(gpxUrl!)
+        ).filter((seg) => seg.length >= 2);
+        const coords = segments.flat();
 
-        const parser = new DOMParser();
-        const xml = parser.parseFromString(text, 'application/xml');
-
-        // Grab all <trkpt> points from the GPX file
-        const trkpts = Array.from(xml.getElementsByTagName('trkpt'));
-        const coords = trkpts
-          .map((pt) => {
-            const lat = parseFloat(pt.getAttribute('lat') || '0');
-            const lon = parseFloat(pt.getAttribute('lon') || '0');
-            if (Number.isNaN(lat) || Number.isNaN(lon)) return null;
-            return [lon, lat] as [number, number];
-          })
-          .filter((c): c is [number, number] => !!c);
-
-        if (coords.length < 2) return; // not enough points for a line
+        if (segments.length === 0) return; // not enough points for a line
 
         const sourceId = 'trail-' + Math.random().toString(36).slice(2);
 
-        // Add GPX line as GeoJSON source
-        map.addSource(sourceId, {
-          type: 'geojson',
-          data: {
-            type: 'Feature',
-            geometry: {
-              type: 'LineString',
-              coordinates: coords,
-            },
-          },
-        });
+        // Add the route line as a GeoJSON source
+        map.addSource(sourceId, { type: 'geojson', data: lineFeature(segments) });
 
         map.addLayer({
           id: sourceId + '-line',
@@ -86,21 +126,65 @@ export function TrailMap({
           },
         });
 
+        // Repeat the waymark along the line, as walkers see it on the ground
+        const waymarkSvg = osmcSymbolSvg(waymark, WAYMARK_PX * 2);
+        if (waymarkSvg) {
+          const image = new Image(WAYMARK_PX * 2, WAYMARK_PX * 2);
+          image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(waymarkSvg);
+          await image.decode();
+          map.addImage(sourceId + '-waymark', image, { pixelRatio: 2 });
+          map.addLayer({
+            id: sourceId + '-waymark',
+            type: 'symbol',
+            source: sourceId,
+            layout: {
+              'symbol-placement': 'line',
+              'symbol-spacing': 250,
+              'icon-image': sourceId + '-waymark',
+              'icon-rotation-alignment': 'viewport',
+            },
+          });
+        }
+
         // Fit map to the full route
         const bounds = coords.reduce(
           (b, coord) => b.extend(coord),
           new maplibregl.LngLatBounds(coords[0], coords[0]),
         );
         map.fitBounds(bounds, { padding: 40, duration: 800 });
+
+        // Swap in finer levels as the map is zoomed in. A finer level is
+        // kept when zooming back out; it only costs what's already loaded.
+        let loaded = 0;
+        let loading: number | null = null;
+        const refine = async () => {
+          const wanted = levelForZoom(levels, map.getZoom());
+          if (wanted <= loaded || loading !== null) return;
+          loading = wanted;
+          try {
+            const finer = (await fetchLevelSegments(levels[wanted])).filter((seg) => seg.length >= 2);
+            const source = map.getSource(sourceId) as maplibregl.GeoJSONSource | undefined;
+            if (finer.length > 0 && source) {
+              source.setData(lineFeature(finer));
+              loaded = wanted;
+            }
+          } catch (err) {
+            console.error('Failed to load route detail:', levels[wanted].file, err);
+          } finally {
+            loading = null;
+          }
+          if (loaded === wanted) void refine(); // the zoom may have moved on
+        };
+        if (levels.length > 1) map.on('zoomend', () => void refine());
       } catch (err) {
-        console.error('Failed to load GPX for map:', gpxUrl, err);
+        console.error('Failed to load route for map:', levels[0]?.file ?? gpxUrl, err);
       }
     });
 
     return () => {
       map.remove();
     };
-  }, [center.lat, center.lon, gpxUrl, zoom]);
+  }, [center.lat, center.lon, gpxUrl, routeLevels, zoom, waymark]);
 
   return <div ref={containerRef} style={{ width: '100%', height }} />;
 }
@@ -0,0 +1,23 @@
+// lib/geo.ts
+//
+// Great-circle distance, shared by the app and the pipeline stages (which
+// re-export it from scripts/geo.ts). Coordinates are [lon, lat] pairs,
+// matching GeoJSON.
+
+export type LonLat = [number, number];
+
+export const EARTH_RADIUS_KM = 6371;
+
+export function haversineKm(a: LonLat, b: LonLat): number {
+  const [lon1, lat1] = a;
+  const [lon2, lat2] = b;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const la1 = (lat1 * Math.PI) / 180;
+  const la2 = (lat2 * Math.PI) / 180;
+
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(la1) * Math.cos(la2) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,463 @@
+// lib/hike-schema.ts
+//
+// The one Hike schema. Every reader and writer of data/hikes/*.json – the
+// pipeline scripts, lib/hikes.ts, API routes and components – imports its
+// types from here, and files are checked against it at runtime.
+//
+// Bump HIKE_SCHEMA_VERSION when the shape changes and teach
+// scripts/migrate-hikes.ts to upgrade older files.
+
+import { z } from 'zod';
+
+// 1 = the unversioned files written before this schema (camelCase
+// distanceKm / ascentM, hand-written files with ascent_meters, gpx_path…).
+export const HIKE_SCHEMA_VERSION = 2;
+
+export const DIFFICULTIES = ['easy', 'moderate', 'hard'] as const;
+export const THEME_TAGS = ['coastal', 'waterfalls', 'lakes', 'ridges'] as const;
+export const TRANSPORT_TAGS = ['train-accessible', 'bus-accessible', 'car-free-possible'] as const;
+export const ROUTE_SHAPES = ['circular', 'linear', 'out-and-back'] as const;
+export const COUNTRIES = ['England', 'Wales', 'Scotland', 'Northern Ireland', 'UK'] as const;
+// How a variant relates to the route it belongs to; each is also the field
+// naming the parent on the variant.
+export const VARIANT_RELATIONS = ['variant_of', 'shortcut_for', 'extension_of', 'link_between'] as const;
+// Who set a field: a pipeline stage (scripts/), AI enrichment, or a person.
+export const FIELD_SOURCES = ['pipeline', 'ai', 'manual'] as const;
+// Where a day of a long route can end, best first.
+export const STAGE_STOP_TYPES = ['town', 'village', 'station', 'accommodation', 'hamlet'] as const;
+
+const difficultySchema = z.enum(DIFFICULTIES);
+const themeTagSchema = z.enum(THEME_TAGS);
+const transportTagSchema = z.enum(TRANSPORT_TAGS);
+const routeShapeSchema = z.enum(ROUTE_SHAPES);
+const routeRelationTypeSchema = z.enum(['route', 'superroute', 'route_master']);
+
+const latSchema = z.number().min(-90).max(90);
+const lonSchema = z.number().min(-180).max(180);
+const shareSchema = z.number().min(0).max(1);
+
+// A station or bus stop near the start or finish. Stops found by
+// assign-transport.ts (from NaPTAN) have every field; hand-written ones
+// usually just a name, distance and station code.
+const transportStopSchema = z.object({
+  name: z.string(),
+  atco_code: z.string().optional(), // NaPTAN stop id
+  naptan_code: z.string().optional(), // bus stops: the SMS code shown on the flag
+  station_code: z.string().optional(), // stations: CRS code, e.g. "HSG"
+  near: z.enum(['start', 'end']).optional(),
+  distance_km: z.number().min(0), // straight line
+  walk_minutes: z.number().min(0).optional(), // allowing for the path not being straight
+});
+
+// A parent or child route; `slug` is set when the related relation is
+// itself a hike in the directory.
+const relatedRouteSchema = z.object({
+  osm_id: z.number().int(),
+  name: z.string().optional(),
+  slug: z.string().optional(),
+  type: routeRelationTypeSchema,
+  role: z.string().optional(),
+});
+
+const variantRelationSchema = z.enum(VARIANT_RELATIONS);
+
+// A variant listed on its parent's page.
+const variantLinkSchema = z.object({
+  slug: z.string(),
+  name: z.string(),
+  relation: variantRelationSchema,
+  distance_km: z.number().min(0),
+});
+
+// Where a day ends: a stop near the route (from data/raw/stage-stops.json).
+const dayStageStopSchema = z.object({
+  name: z.string(),
+  type: z.enum(STAGE_STOP_TYPES),
+  osm_id: z.string(), // e.g. "node/123"
+  distance_km: z.number().min(0), // from the route
+});
+
+// One day of a long route, planned by plan-stages.ts. Distances are walked
+// km from the start of the route.
+const dayStageSchema = z.object({
+  day: z.number().int().min(1),
+  start_km: z.number().min(0),
+  end_km: z.number().min(0),
+  distance_km: z.number().min(0),
+  ascent_m: z.number().min(0).optional(), // from the elevation profile
+  descent_m: z.number().min(0).optional(),
+  stop: dayStageStopSchema.optional(), // unset on the last day, or with no stop nearby
+  gpx_file: z.string().optional(), // public URL, e.g. "/gpx/<slug>/day-1.gpx"
+});
+
+const routePointSchema = z.object({
+  lat: latSchema,
+  lon: lonSchema,
+  nearest_postcode: z.string().optional(), // nearest in-use postcode centroid
+  nearest_postcode_km: z.number().min(0).optional(),
+  car_park_name: z.string().optional(),
+  station_name: z.string().optional(),
+});
+
+// A simplified copy of the route for the map, written by simplify-routes.ts.
+// The map uses the last level whose min_zoom it has reached.
+const routeLevelSchema = z.object({
+  min_zoom: z.number().int().min(0),
+  tolerance_m: z.number().min(0), // Douglas–Peucker tolerance
+  points: z.number().int().min(0),
+  file: z.string(), // public URL: one encoded polyline per line (segment)
+});
+
+// Filled in by compute-elevation.ts from local DEM tiles.
+const elevationSchema = z.object({
+  min_m: z.number(),
+  max_m: z.number(),
+  coverage: shareSchema, // share of samples that fell on a DEM tile
+  profile: z.array(z.tuple([z.number(), z.number()])), // [distance_km, elevation_m]
+});
+
+const gradeFactorSchema = z.object({
+  factor: z.enum([
+    'distance',
+    'ascent',
+    'altitude',
+    'terrain',
+    'visibility',
+    'surface',
+    'remoteness',
+  ]),
+  points: z.number(), // contribution to the score (negative makes it easier)
+  reason: z.string(), // short human-readable "why"
+});
+
+// Set by grading.ts; `difficulty` is the banded score.
+const gradeSchema = z.object({
+  score: z.number(),
+  factors: z.array(gradeFactorSchema),
+});
+
+// Why a hike has a theme: a feature the route passes, and how close.
+const themeEvidenceSchema = z.object({
+  theme: themeTagSchema,
+  feature: z.enum(['coastline', 'water', 'waterfall', 'ridge', 'arete', 'peak']),
+  osm_id: z.string(), // e.g. "way/123"
+  name: z.string().optional(),
+  distance_km: z.number().min(0), // closest approach
+  share: shareSchema.optional(), // share of route within range, line features only
+});
+
+const areaShareSchema = z.object({
+  name: z.string(),
+  share: shareSchema, // share of route length
+});
+
+const protectedAreaSchema = areaShareSchema.extend({
+  type: z.enum(['national_park', 'national_landscape']), // National Landscape = AONB
+  contains_start: z.boolean(),
+});
+
+const seoSchema = z.object({
+  title: z.string(),
+  meta_description: z.string(),
+  h1: z.string(),
+});
+
+const aiSchema = z.strictObject({
+  summary: z.string(),
+  terrain_summary: z.string(),
+  safety_notes: z.string(),
+  recommended_gear: z.array(z.string()),
+  best_seasons: z.string(),
+  seo: seoSchema.optional(),
+  generated_at: z.string().optional(), // ISO timestamp, compared against the OSM changelog
+});
+
+// Descriptive tags carried over from the OSM relation.
+const osmMetadataSchema = z.strictObject({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  via: z.array(z.string()).optional(), // places passed through, in order
+  website: z.string().optional(), // official page (website=, or the older url=)
+  wikidata: z.string().regex(/^Q\d+$/).optional(),
+  wikipedia: z.string().optional(), // "<lang>:<title>", e.g. "en:Downs Link"
+  operator: z.string().optional(),
+  osmc_symbol: z.string().optional(), // the waymark, e.g. "red:red:round:1066:white"
+});
+
+const sourceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('osm'), osm_id: z.number().int() }),
+  z.object({ type: z.literal('manual') }), // hand-written file
+]);
+
+export const hikeSchema = z.strictObject({
+  schema_version: z.literal(HIKE_SCHEMA_VERSION),
+
+  id: z.string().min(1), // e.g. "osm-123456"
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/),
+  name: z.string().min(1),
+  region: z.string(),
+  country: z.enum(COUNTRIES),
+  county: z.string().optional(), // county / unitary authority at the start
+  protected_areas: z.array(protectedAreaSchema).optional(),
+  // Filled by assign-areas.ts: how the route splits across areas.
+  area_shares: z
+    .object({
+      country: z.array(areaShareSchema),
+      county: z.array(areaShareSchema),
+    })
+    .optional(),
+
+  distance_km: z.number().min(0),
+  ascent_m: z.number().min(0).optional(),
+  descent_m: z.number().min(0).optional(),
+  time_hours: z.number().min(0).optional(), // hand-written estimate
+  elevation: elevationSchema.optional(),
+
+  difficulty: difficultySchema,
+  grade: gradeSchema.optional(),
+
+  // Hand-written descriptions; AI-generated ones live under `ai`.
+  summary: z.string().optional(),
+  terrain: z.array(z.string()).optional(), // e.g. ["moorland", "ridge"]
+  terrain_summary: z.string().optional(),
+  features: z.array(z.string()).optional(), // e.g. ["views", "summit"]
+
+  themes: z.array(themeTagSchema),
+  theme_evidence: z.array(themeEvidenceSchema).optional(), // filled by assign-themes.ts
+  transport: z.object({
+    access_tags: z.array(transportTagSchema),
+    // Filled by assign-transport.ts.
+    nearest_train_stations: z.array(transportStopSchema).optional(),
+    nearest_bus_stops: z.array(transportStopSchema).optional(),
+    access_summary: z.string().optional(),
+  }),
+
+  route_shape: routeShapeSchema.optional(),
+  start: routePointSchema,
+  end: routePointSchema.optional(), // linear routes only
+  remote: z.boolean().optional(), // no in-use postcode within reach of the start
+
+  part_of: z.array(relatedRouteSchema).optional(), // "Part of X"
+  stages: z.array(relatedRouteSchema).optional(), // "Stages of Y", in route order
+  day_stages: z.array(dayStageSchema).optional(), // long routes split into days
+
+  gpx_file: z.string().optional(), // public URL, e.g. "/gpx/<slug>.gpx"
+  geojson_file: z.string().optional(), // public URL, e.g. "/geojson/<slug>.geojson"
+  route_levels: z.array(routeLevelSchema).optional(), // coarse to fine
+
+  source: sourceSchema,
+  osm: osmMetadataSchema.optional(),
+
+  // Set by normalise when the OSM relation disappears; retired hikes stay on
+  // disk (and keep their URLs resolvable) but are left out of listings.
+  retired: z
+    .object({
+      at: z.string(), // ISO timestamp
+      reason: z.enum(['deleted-from-osm', 'renamed']),
+      replaced_by: z.string().optional(), // slug of the hike that replaced this one
+    })
+    .optional(),
+
+  // Set by dedupe-hikes.ts on every copy but the canonical one (its slug).
+  // Duplicates keep their pages but are left out of listings.
+  duplicate_of: z.string().optional(),
+
+  // Set by assign-variants.ts on a route that belongs to another one (slugs
+  // of the parent). Variants are shown on their parent's page, not in
+  // listings. At most one relation is set; a link path records the one or
+  // two routes it joins.
+  variant_of: z.string().optional(), // an alternative line for part of it
+  shortcut_for: z.string().optional(),
+  extension_of: z.string().optional(), // an extra loop or spur off it
+  link_between: z.array(z.string()).min(1).max(2).optional(),
+  variant_source: z.enum(['osm', 'name', 'geometry']).optional(), // what the relation was inferred from
+  variants: z.array(variantLinkSchema).optional(), // on the parent
+
+  ai: aiSchema.optional(),
+
+  // Who set each top-level field, stamped by scripts/hike-store.ts on every
+  // write. Set a field to "manual" to keep a hand edit: hikes:normalise then
+  // leaves it alone.
+  provenance: z.record(z.string(), z.enum(FIELD_SOURCES)).optional(),
+});
+
+export type Hike = z.infer<typeof hikeSchema>;
+export type Difficulty = z.infer<typeof difficultySchema>;
+export type ThemeTag = z.infer<typeof themeTagSchema>;
+export type TransportTag = z.infer<typeof transportTagSchema>;
+export type TransportStop = z.infer<typeof transportStopSchema>;
+export type RouteShape = z.infer<typeof routeShapeSchema>;
+export type RouteRelationType = z.infer<typeof routeRelationTypeSchema>;
+export type RelatedRoute = z.infer<typeof relatedRouteSchema>;
+export type OsmMetadata = z.infer<typeof osmMetadataSchema>;
+export type VariantRelation = z.infer<typeof variantRelationSchema>;
+export type VariantLink = z.infer<typeof variantLinkSchema>;
+export type RoutePoint = z.infer<typeof routePointSchema>;
+export type FieldSource = (typeof FIELD_SOURCES)[number];
+export type DayStage = z.infer<typeof dayStageSchema>;
+export type DayStageStop = z.infer<typeof dayStageStopSchema>;
+export type StageStopType = DayStageStop['type'];
+export type HikeElevation = z.infer<typeof elevationSchema>;
+export type RouteLevel = z.infer<typeof routeLevelSchema>;
+export type GradeFactor = z.infer<typeof gradeFactorSchema>;
+export type GradeFactorName = GradeFactor['factor'];
+export type HikeGrade = z.infer<typeof gradeSchema>;
+export type ThemeEvidence = z.infer<typeof themeEvidenceSchema>;
+export type ThemeFeatureKind = ThemeEvidence['feature'];
+export type AreaShare = z.infer<typeof areaShareSchema>;
+export type ProtectedArea = z.infer<typeof protectedAreaSchema>;
+export type AreaKind = 'country' | 'county' | ProtectedArea['type'];
+
+// The fields list views and maps need, so they don't ship whole hikes to
+// the browser.
+export type HikeSummary = Pick<
+  Hike,
+  'id' | 'slug' | 'name' | 'region' | 'distance_km' | 'ascent_m' | 'difficulty' | 'themes'
+> & {
+  summary?: string;
+  osmc_symbol?: string;
+  start: Pick<RoutePoint, 'lat' | 'lon' | 'nearest_postcode'>;
+  transport: Pick<Hike['transport'], 'access_tags'>;
+};
+
+export class HikeValidationError extends Error {
+  constructor(
+    readonly file: string,
+    readonly issues: string[]
+  ) {
+    super(`Invalid hike ${file}: ${issues.join('; ')}`);
+    this.name = 'HikeValidationError';
+  }
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const at = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${at}: ${issue.message}`;
+  });
+}
+
+/**
+ * Check parsed JSON against the schema without throwing.
+ */
+export function validateHike(
+  data: unknown
+): { ok: true; hike: Hike } | { ok: false; issues: string[] } {
+  const result = hikeSchema.safeParse(data);
+  return result.success
+    ? { ok: true, hike: result.data }
+    : { ok: false, issues: formatIssues(result.error) };
+}
+
+/**
+ * Parse a hike, throwing HikeValidationError (naming `file`) if it doesn't
+ * match the schema.
+ */
+export function parseHike(data: unknown, file = 'hike'): Hike {
+  const result = validateHike(data);
+  if (!result.ok) throw new HikeValidationError(file, result.issues);
+  return result.hike;
+}
+
+/** The parent slugs of a variant, or [] for a route in its own right. */
+export function variantParents(hike: Hike): string[] {
+  if (hike.link_between) return hike.link_between;
+  const parent = hike.variant_of ?? hike.shortcut_for ?? hike.extension_of;
+  return parent ? [parent] : [];
+}
+
+/**
+ * Whether a hike appears in listings, search and the indexes: retired hikes,
+ * duplicates and variants keep their pages but are left out.
+ */
+export function isListed(hike: Hike): boolean {
+  return !hike.retired && !hike.duplicate_of && variantParents(hike).length === 0;
+}
+
+// What hikes:normalise derives from the OSM relation on every run. On a
+// hand-written hike (source "manual") these are hand-written too.
+export const NORMALISED_FIELDS = [
+  'id',
+  'slug',
+  'name',
+  'distance_km',
+  'route_shape',
+  'start',
+  'end',
+  'remote',
+  'part_of',
+  'stages',
+  'source',
+  'osm',
+  'retired',
+] as const satisfies readonly (keyof Hike)[];
+
+// Fields the later pipeline stages fill in. Whatever isn't listed here,
+// in NORMALISED_FIELDS or under `ai` was written by hand (summary, terrain,
+// time_hours…).
+const STAGE_FIELDS = new Set<keyof Hike>([
+  'region',
+  'country',
+  'county',
+  'protected_areas',
+  'area_shares',
+  'ascent_m',
+  'descent_m',
+  'elevation',
+  'difficulty',
+  'grade',
+  'themes',
+  'theme_evidence',
+  'transport',
+  'day_stages',
+  'gpx_file',
+  'geojson_file',
+  'route_levels',
+  'duplicate_of',
+  'variant_of',
+  'shortcut_for',
+  'extension_of',
+  'link_between',
+  'variant_source',
+  'variants',
+]);
+
+/**
+ * Who set each field of the hike. Fields already marked "manual" stay
+ * manual; the rest follow from the field and the hike's source.
+ */
+export function hikeProvenance(hike: Hike): Record<string, FieldSource> {
+  const normalised = new Set<string>(NORMALISED_FIELDS);
+  const provenance: Record<string, FieldSource> = {};
+  // In schema order, like the rest of the file.
+  for (const field of Object.keys(hikeSchema.shape)) {
+    const value = (hike as Record<string, unknown>)[field];
+    if (value === undefined || field === 'schema_version' || field === 'provenance') continue;
+    if (hike.provenance?.[field] === 'manual') provenance[field] = 'manual';
+    else if (field === 'ai') provenance[field] = 'ai';
+    else if (normalised.has(field)) provenance[field] = hike.source.type === 'osm' ? 'pipeline' : 'manual';
+    else provenance[field] = STAGE_FIELDS.has(field as keyof Hike) ? 'pipeline' : 'manual';
+  }
+  return provenance;
+}
+
+export function toHikeSummary(hike: Hike): HikeSummary {
+  return {
+    id: hike.id,
+    slug: hike.slug,
+    name: hike.name,
+    region: hike.region,
+    distance_km: hike.distance_km,
+    ascent_m: hike.ascent_m,
+    difficulty: hike.difficulty,
+    themes: hike.themes,
+    summary: hike.summary ?? hike.ai?.summary,
+    osmc_symbol: hike.osm?.osmc_symbol,
+    start: {
+      lat: hike.start.lat,
+      lon: hike.start.lon,
+      nearest_postcode: hike.start.nearest_postcode,
+    },
+    transport: { access_tags: hike.transport.access_tags },
+  };
+}
@@ -1,40 +1,31 @@
 import path from 'path';
 import { promises as fs } from 'fs';
+import { haversineKm } from './geo';
+import { Hike, isListed, validateHike } from './hike-schema';
 
-export type Hike = {
-  slug: string;
-  name: string;
-  region?: string;
-  county?: string;
-  difficulty?: string; // e.g. "easy" | "moderate" | "hard"
-  distance_km?: number;
-  ascent_m?: number;
-  time_hours?: number;
-  terrain?: string;
-  terrain_summary?: string;
-  safety_notes?: string[];
-  summary?: string;
-  start: {
-    lat: number;
-    lon: number;
-    nearest_postcode?: string;
-    car_park_name?: string;
-  };
-  gpx_file?: string;
-};
+export type { Hike, HikeSummary, RelatedRoute, TransportStop } from './hike-schema';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'hikes');
 
 export async function getHikeBySlug(slug: string): Promise<Hike | null> {
   const filePath = path.join(DATA_DIR, `${slug}.json`);
 
+  let data: unknown;
   try {
-    const file = await fs.readFile(filePath, 'utf8');
-    return JSON.parse(file) as Hike;
+    data = JSON.parse(await fs.readFile(filePath, 'utf8'));
   } catch (err) {
     console.error(`Hike not found for slug "${slug}"`, err);
     return null;
   }
+
+  // A file that doesn't match the schema is treated as missing rather than
+  // rendered half-empty.
+  const result = validateHike(data);
+  if (!result.ok) {
+    console.error(`Invalid hike "${slug}": ${result.issues.join('; ')}`);
+    return null;
+  }
+  return result.hike;
 }
 
 export async function getAllHikes(): Promise<Hike[]> {
@@ -46,7 +37,8 @@ export async function getAllHikes(): Promise<Hike[]> {
       if (!file.endsWith('.json')) continue;
       const slug = file.replace(/\.json$/, '');
       const hike = await getHikeBySlug(slug);
-      if (hike) hikes.push(hike);
+      // Retired hikes, duplicates and variants keep their pages but aren't listed.
+      if (hike && isListed(hike)) hikes.push(hike);
     }
 
     return hikes;
@@ -58,29 +50,6 @@ export async function getAllHikes(): Promise<Hike[]> {
 
 // --- Nearby hikes helper ----------------------------------------------
 
-function toRad(deg: number) {
-  return (deg * Math.PI) / 180;
-}
-
-function haversineKm(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // km
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) *
-      Math.cos(toRad(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
 /**
  * Find hikes near a given hike, based on start coordinates.
  */
@@ -102,10 +71,8 @@ export async function getNearbyHikes(
     )
     .map((h) => {
       const d = haversineKm(
-        center.start.lat,
-        center.start.lon,
-        h.start.lat,
-        h.start.lon
+        [center.start.lon, center.start.lat],
+        [h.start.lon, h.start.lat]
       );
       return { ...h, distance_from_start_km: d };
     })
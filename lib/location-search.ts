@@ -0,0 +1,174 @@
+// lib/location-search.ts
+//
+// Works out where a "hikes near…" search starts from. People type full
+// postcodes, but also outward codes ("LA22"), sectors ("LA22 9"), old
+// postcodes that have since been terminated, and town or village names;
+// each is turned into a point, and the result says how the input was read
+// and what else it might have meant.
+
+import { findPlaces, Place, placeLabel } from './places';
+import {
+  isOutwardCode,
+  lookupPostcode,
+  nearestPostcodes,
+  parsePostcode,
+  PostcodeRecord,
+  readPostcodeShard,
+} from './postcodes';
+
+// Alternatives listed with an ambiguous or unknown input.
+const MAX_SUGGESTIONS = 5;
+
+const SECTOR_PATTERN = /^([A-Z]{1,2}[0-9][A-Z0-9]?) ?([0-9])$/;
+
+export type LocationKind = 'postcode' | 'terminated-postcode' | 'sector' | 'outcode' | 'place';
+
+export type SearchLocation = {
+  kind: LocationKind;
+  label: string; // what the search starts from: "LA22 9", "Ambleside, Cumbria"
+  latitude: number;
+  longitude: number;
+  postcode?: string; // the in-use postcode searched from, if it is one
+  note?: string; // how the input was read, when that isn't obvious
+};
+
+export type LocationSuggestion = {
+  kind: LocationKind;
+  label: string;
+  query: string; // to search for it instead
+};
+
+export type LocationResult = {
+  location: SearchLocation | null;
+  suggestions: LocationSuggestion[];
+};
+
+const km = (d: number) => `${d.toFixed(1)} km`;
+
+// The middle of the in-use postcodes in a shard, or of one sector of it.
+function centroid(records: PostcodeRecord[]): { latitude: number; longitude: number } | null {
+  const live = records.filter((r) => r.in_use);
+  if (live.length === 0) return null;
+  return {
+    latitude: live.reduce((sum, r) => sum + r.latitude, 0) / live.length,
+    longitude: live.reduce((sum, r) => sum + r.longitude, 0) / live.length,
+  };
+}
+
+async function outcodeLocation(outward: string): Promise<SearchLocation | null> {
+  const centre = centroid((await readPostcodeShard(outward)) ?? []);
+  return centre && { kind: 'outcode', label: outward, ...centre };
+}
+
+async function sectorLocation(outward: string, digit: string): Promise<SearchLocation | null> {
+  const sector = `${outward} ${digit}`;
+  const records = (await readPostcodeShard(outward)) ?? [];
+  const centre = centroid(records.filter((r) => r.sector === sector));
+  return centre && { kind: 'sector', label: sector, ...centre };
+}
+
+async function postcodeLocation(postcode: string, outward: string, inward: string): Promise<SearchLocation | null> {
+  const record = await lookupPostcode(postcode);
+  if (record?.in_use) {
+    return {
+      kind: 'postcode',
+      label: record.postcode,
+      postcode: record.postcode,
+      latitude: record.latitude,
+      longitude: record.longitude,
+    };
+  }
+
+  if (record) {
+    const [neighbour] = await nearestPostcodes(record.latitude, record.longitude);
+    if (!neighbour) {
+      return {
+        kind: 'terminated-postcode',
+        label: record.postcode,
+        latitude: record.latitude,
+        longitude: record.longitude,
+        note: `${record.postcode} is no longer in use; searching from where it was.`,
+      };
+    }
+    return {
+      kind: 'terminated-postcode',
+      label: record.postcode,
+      postcode: neighbour.postcode,
+      latitude: neighbour.latitude,
+      longitude: neighbour.longitude,
+      note: `${record.postcode} is no longer in use; searching from ${neighbour.postcode}, ${km(neighbour.distanceKm)} away.`,
+    };
+  }
+
+  // A mistyped or brand-new postcode: the rest of it still says roughly
+  // where it is.
+  const fallback = (await sectorLocation(outward, inward[0])) ?? (await outcodeLocation(outward));
+  return fallback && { ...fallback, note: `${postcode} wasn't found; searching from ${fallback.label} instead.` };
+}
+
+function placeLocation(place: Place): SearchLocation {
+  return { kind: 'place', label: placeLabel(place), latitude: place.latitude, longitude: place.longitude };
+}
+
+function placeSuggestion(place: Place): LocationSuggestion {
+  return { kind: 'place', label: placeLabel(place), query: placeLabel(place) };
+}
+
+// Suggestions without repeats (two hamlets of the same name in one county).
+function uniqueSuggestions(suggestions: LocationSuggestion[], except?: SearchLocation | null): LocationSuggestion[] {
+  const seen = new Set(except ? [except.label] : []);
+  return suggestions
+    .filter((s) => {
+      if (seen.has(s.label)) return false;
+      seen.add(s.label);
+      return true;
+    })
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Where a search for `raw` starts from, or null with suggestions when it
+ * can't be placed.
+ */
+export async function resolveSearchLocation(raw: string): Promise<LocationResult> {
+  const text = raw.trim().replace(/\s+/g, ' ');
+  const upper = text.toUpperCase();
+  const compact = upper.replace(/ /g, '');
+
+  const full = parsePostcode(text);
+  if (full) {
+    const location = await postcodeLocation(full.postcode, full.outward, full.inward);
+    if (location) return { location, suggestions: [] };
+  }
+
+  // "E1 7" typed with a space is a sector, even though "E17" is also an
+  // outward code.
+  const sector = upper.includes(' ') ? upper.match(SECTOR_PATTERN) : null;
+  if (sector) {
+    const location = await sectorLocation(sector[1], sector[2]);
+    if (location) return { location, suggestions: [] };
+  }
+
+  if (!sector && isOutwardCode(compact)) {
+    // "E17" is an outward code, but could be the E1 7 sector.
+    const suggestions: LocationSuggestion[] = [];
+    const asSector = compact.match(SECTOR_PATTERN);
+    if (asSector && isOutwardCode(asSector[1]) && (await sectorLocation(asSector[1], asSector[2]))) {
+      const label = `${asSector[1]} ${asSector[2]}`;
+      suggestions.push({ kind: 'sector', label, query: label });
+    }
+    const location = await outcodeLocation(compact);
+    if (location) return { location, suggestions };
+  }
+
+  const { matches, similar } = await findPlaces(text);
+  if (matches.length > 0) {
+    const location = placeLocation(matches[0]);
+    if (matches.length > 1) {
+      location.note = `There's more than one ${matches[0].name}; searching from ${location.label} (${matches[0].type}).`;
+    }
+    return { location, suggestions: uniqueSuggestions(matches.map(placeSuggestion), location) };
+  }
+
+  return { location: null, suggestions: uniqueSuggestions(similar.map(placeSuggestion)) };
+}
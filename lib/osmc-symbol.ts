@@ -0,0 +1,224 @@
+// lib/osmc-symbol.ts
+//
+// Draws the waymark described by an OSM `osmc:symbol` tag as SVG. The tag
+// grammar (see the OSM wiki, Key:osmc:symbol) is
+//
+//   waycolor:background[:foreground][[:foreground2]:text:textcolor]
+//
+// e.g. "red:white:red_bar" is a red bar on a white square and
+// "blue:white::C2C:red" is red "C2C" lettering on white. Backgrounds are a
+// colour, optionally with _circle, _frame or _round; foregrounds are a
+// colour and a shape ("red_bar").
+//
+// Tags in the wild are often loosely written ("red:red:round:1066:white",
+// trailing colons, missing parts), so parsing is forgiving: anything it
+// doesn't recognise is left out, and only a tag with nothing drawable at all
+// gives null.
+
+const COLOURS: Record<string, string> = {
+  black: '#1e1e1e',
+  blue: '#2563eb',
+  brown: '#8b4513',
+  cyan: '#06b6d4',
+  gray: '#808080',
+  grey: '#808080',
+  green: '#16a34a',
+  maroon: '#800000',
+  orange: '#f97316',
+  pink: '#ec4899',
+  purple: '#9333ea',
+  red: '#dc2626',
+  white: '#ffffff',
+  yellow: '#facc15',
+};
+
+// Longer text (whole route names) can't be read at badge size, so is left
+// off the drawing.
+const MAX_TEXT_LENGTH = 5;
+
+const BACKGROUND_SHAPES = ['square', 'circle', 'frame', 'round'] as const;
+
+// Foreground shapes on a 20×20 grid, drawn in the given colour.
+const FOREGROUND_SHAPES: Record<string, (fill: string) => string> = {
+  bar: (c) => `<rect x="0" y="7" width="20" height="6" fill="${c}"/>`,
+  stripe: (c) => `<rect x="7" y="0" width="6" height="20" fill="${c}"/>`,
+  cross: (c) => `<path d="M8 2h4v6h6v4h-6v6h-4v-6h-6v-4h6z" fill="${c}"/>`,
+  x: (c) => `<path d="M3 3L17 17M17 3L3 17" stroke="${c}" stroke-width="3.5"/>`,
+  slash: (c) => `<path d="M0 20L20 0" stroke="${c}" stroke-width="5"/>`,
+  backslash: (c) => `<path d="M0 0L20 20" stroke="${c}" stroke-width="5"/>`,
+  dot: (c) => `<circle cx="10" cy="10" r="5" fill="${c}"/>`,
+  circle: (c) => `<circle cx="10" cy="10" r="6" fill="none" stroke="${c}" stroke-width="2.5"/>`,
+  triangle: (c) => `<path d="M10 3L17 16H3z" fill="${c}"/>`,
+  triangle_turned: (c) => `<path d="M3 4H17L10 17z" fill="${c}"/>`,
+  triangle_line: (c) => `<path d="M10 4L16.5 15.5H3.5z" fill="none" stroke="${c}" stroke-width="2"/>`,
+  diamond: (c) => `<path d="M10 2L18 10L10 18L2 10z" fill="${c}"/>`,
+  diamond_line: (c) => `<path d="M10 3L17 10L10 17L3 10z" fill="none" stroke="${c}" stroke-width="2"/>`,
+  diamond_left: (c) => `<path d="M10 2V18L2 10z" fill="${c}"/>`,
+  diamond_right: (c) => `<path d="M10 2L18 10L10 18z" fill="${c}"/>`,
+  rectangle: (c) => `<rect x="4" y="4" width="12" height="12" fill="${c}"/>`,
+  rectangle_line: (c) => `<rect x="5" y="5" width="10" height="10" fill="none" stroke="${c}" stroke-width="2"/>`,
+  upper: (c) => `<rect x="0" y="0" width="20" height="10" fill="${c}"/>`,
+  lower: (c) => `<rect x="0" y="10" width="20" height="10" fill="${c}"/>`,
+  left: (c) => `<rect x="0" y="0" width="10" height="20" fill="${c}"/>`,
+  right: (c) => `<rect x="10" y="0" width="10" height="20" fill="${c}"/>`,
+  corner: (c) => `<path d="M0 0H20L0 20z" fill="${c}"/>`,
+  pointer: (c) => `<path d="M4 3L17 10L4 17z" fill="${c}"/>`,
+  arrow: (c) => `<path d="M2 8H11V4L18 10L11 16V12H2z" fill="${c}"/>`,
+  turned_T: (c) => `<path d="M8 3h4v10h5v4H3v-4h5z" fill="${c}"/>`,
+  L: (c) => `<path d="M4 3h4v10h8v4H4z" fill="${c}"/>`,
+  fork: (c) => `<path d="M10 18V10L4 3M10 10L16 3" fill="none" stroke="${c}" stroke-width="3"/>`,
+  wheel: (c) =>
+    `<g fill="none" stroke="${c}" stroke-width="1.8"><circle cx="10" cy="10" r="7"/>` +
+    `<path d="M10 3V17M3 10H17M5 5L15 15M15 5L5 15"/></g>`,
+  shell: (c) =>
+    `<g fill="none" stroke="${c}" stroke-width="1.6"><path d="M3 8A7 7 0 0 1 17 8L10 17z"/>` +
+    `<path d="M10 17L6 3.5M10 17L10 2.5M10 17L14 3.5"/></g>`,
+  shell_modern: (c) =>
+    `<path d="M10 17L2 7M10 17L5 4M10 17L10 3M10 17L15 4M10 17L18 7" stroke="${c}" stroke-width="1.8"/>`,
+};
+
+type BackgroundShape = (typeof BACKGROUND_SHAPES)[number];
+
+export type OsmcSymbol = {
+  wayColour: string | null;
+  background: { colour: string; shape: BackgroundShape } | null;
+  foregrounds: { colour: string; shape: string }[];
+  text: { value: string; colour: string } | null;
+};
+
+// Named colours, and the hex codes some mappers use instead.
+function colour(name: string | undefined): string | null {
+  if (!name) return null;
+  const lower = name.trim().toLowerCase();
+  if (COLOURS[lower]) return COLOURS[lower];
+  return /^#?[0-9a-f]{6}$/.test(lower) ? `#${lower.replace('#', '')}` : null;
+}
+
+function splitShape(part: string): { colour: string | null; shape: string } {
+  const clean = part.trim().replace(/\s+/g, '_');
+  const at = clean.indexOf('_');
+  if (at < 0) return { colour: colour(clean), shape: '' };
+  return { colour: colour(clean.slice(0, at)), shape: clean.slice(at + 1) };
+}
+
+function isForeground(part: string): boolean {
+  const { colour: c, shape } = splitShape(part);
+  return c !== null && shape in FOREGROUND_SHAPES;
+}
+
+export function parseOsmcSymbol(tag: string | undefined): OsmcSymbol | null {
+  if (!tag) return null;
+  const parts = tag.replace(/^osmc:symbol=/, '').split(':');
+  if (parts.length < 2) return null;
+
+  const symbol: OsmcSymbol = {
+    wayColour: colour(parts[0]),
+    background: null,
+    foregrounds: [],
+    text: null,
+  };
+
+  const bg = splitShape(parts[1]);
+  if (bg.colour) {
+    const shape = (BACKGROUND_SHAPES as readonly string[]).includes(bg.shape)
+      ? (bg.shape as BackgroundShape)
+      : 'square';
+    symbol.background = { colour: bg.colour, shape };
+  }
+
+  // Text comes last, as text:textcolor.
+  let rest = parts.slice(2);
+  const last = rest[rest.length - 1];
+  if (rest.length >= 2 && colour(last) && !isForeground(rest[rest.length - 2])) {
+    const value = rest[rest.length - 2].trim();
+    if (value) symbol.text = { value, colour: colour(last)! };
+    rest = rest.slice(0, -2);
+  }
+
+  for (const part of rest) {
+    const fg = splitShape(part);
+    // "red:red:round:…" means a red_round background.
+    if (!fg.colour && symbol.background?.shape === 'square') {
+      const shape = part.trim() as BackgroundShape;
+      if (shape !== 'square' && BACKGROUND_SHAPES.includes(shape)) symbol.background.shape = shape;
+    }
+    if (fg.colour && fg.shape in FOREGROUND_SHAPES) {
+      symbol.foregrounds.push({ colour: fg.colour, shape: fg.shape });
+    }
+  }
+
+  if (!symbol.background && symbol.foregrounds.length === 0 && !symbol.text) return null;
+  return symbol;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function backgroundSvg(background: OsmcSymbol['background']): string {
+  const edge = '#94a3b8';
+  if (!background) return `<rect x="0.5" y="0.5" width="19" height="19" fill="#ffffff" stroke="${edge}"/>`;
+  const c = background.colour;
+  switch (background.shape) {
+    case 'round':
+      return `<circle cx="10" cy="10" r="9.5" fill="${c}" stroke="${edge}" stroke-width="0.5"/>`;
+    case 'circle':
+      return `<circle cx="10" cy="10" r="8.5" fill="#ffffff" stroke="${c}" stroke-width="2"/>`;
+    case 'frame':
+      return `<rect x="1.5" y="1.5" width="17" height="17" fill="#ffffff" stroke="${c}" stroke-width="3"/>`;
+    default:
+      return `<rect x="0.5" y="0.5" width="19" height="19" fill="${c}" stroke="${edge}"/>`;
+  }
+}
+
+/**
+ * The waymark as an SVG document `size` px square, or null if the tag
+ * describes nothing drawable.
+ */
+export function osmcSymbolSvg(tag: string | undefined, size = 20): string | null {
+  const symbol = parseOsmcSymbol(tag);
+  if (!symbol) return null;
+
+  // Shrink the foreground to fit inside round and framed backgrounds.
+  const inset = symbol.background && symbol.background.shape !== 'square';
+  const foreground = symbol.foregrounds
+    .map(({ colour: c, shape }) => FOREGROUND_SHAPES[shape](c))
+    .join('');
+
+  let text = '';
+  const length = symbol.text ? [...symbol.text.value].length : 0;
+  if (symbol.text && length <= MAX_TEXT_LENGTH) {
+    // Bold sans characters are about 0.6em wide; keep within ~17 units.
+    const fontSize = Math.round(Math.min(12, 28 / length) * 10) / 10;
+    text =
+      `<text x="10" y="10.5" text-anchor="middle" dominant-baseline="middle" ` +
+      `font-family="Arial, Helvetica, sans-serif" font-weight="bold" font-size="${fontSize}" ` +
+      `fill="${symbol.text.colour}">${escapeXml(symbol.text.value)}</text>`;
+  }
+
+  const inner = foreground + text;
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" width="${size}" height="${size}">` +
+    backgroundSvg(symbol.background) +
+    (inset ? `<g transform="translate(3 3) scale(0.7)">${inner}</g>` : inner) +
+    `</svg>`
+  );
+}
+
+/** A short description for screen readers, e.g. "red bar on white". */
+export function describeOsmcSymbol(tag: string | undefined): string | null {
+  const symbol = parseOsmcSymbol(tag);
+  if (!symbol) return null;
+  const name = (hex: string) =>
+    Object.keys(COLOURS).find((key) => COLOURS[key] === hex) ?? 'coloured';
+
+  const shapes = symbol.foregrounds.map((fg) => `${name(fg.colour)} ${fg.shape.replace(/_/g, ' ')}`);
+  if (symbol.text) shapes.push(`"${symbol.text.value}"`);
+  const on = symbol.background ? `${name(symbol.background.colour)}` : '';
+  if (shapes.length === 0) return `${on} waymark`.trim();
+  return on ? `${shapes.join(' and ')} on ${on}` : shapes.join(' and ');
+}
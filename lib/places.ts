@@ -0,0 +1,99 @@
+// lib/places.ts
+//
+// Cities, towns, villages and hamlets from OS Open Names, written to
+// data/postcodes/places.json by scripts/preprocess-places.ts, so searches
+// can start from "Ambleside" as well as from a postcode.
+
+import path from 'path';
+import { promises as fs } from 'fs';
+
+export const PLACES_FILE = path.join(process.cwd(), 'data', 'postcodes', 'places.json');
+
+// Biggest first: when several places share a name, the biggest is the
+// likeliest meaning.
+export const PLACE_TYPES = ['city', 'town', 'village', 'suburb', 'hamlet', 'other'] as const;
+export type PlaceType = (typeof PLACE_TYPES)[number];
+
+// Suggestions offered when a name isn't found.
+const MAX_SIMILAR = 5;
+
+// [name, latitude, longitude, type, area (county or unitary authority)]
+export type PlaceRow = [string, number, number, PlaceType, string];
+
+export type PlacesFile = {
+  count: number;
+  places: PlaceRow[];
+};
+
+export type Place = {
+  name: string;
+  latitude: number;
+  longitude: number;
+  type: PlaceType;
+  area: string;
+};
+
+/** A name reduced for matching: "St. Mary's-on-Sea" → "st marys on sea". */
+export function placeKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// "Ambleside, Cumbria"; just "Newport" for the city that is its own area.
+export function placeLabel(place: Place): string {
+  return place.area && place.area !== place.name ? `${place.name}, ${place.area}` : place.name;
+}
+
+const byTypeThenName = (a: Place, b: Place) =>
+  PLACE_TYPES.indexOf(a.type) - PLACE_TYPES.indexOf(b.type) || a.name.localeCompare(b.name);
+
+let placesByKey: Promise<Map<string, Place[]> | null> | null = null;
+
+function loadPlaces(): Promise<Map<string, Place[]> | null> {
+  placesByKey ??= fs
+    .readFile(PLACES_FILE, 'utf8')
+    .then((text) => {
+      const index = new Map<string, Place[]>();
+      for (const [name, latitude, longitude, type, area] of (JSON.parse(text) as PlacesFile).places) {
+        const key = placeKey(name);
+        const places = index.get(key) ?? [];
+        places.push({ name, latitude, longitude, type, area });
+        index.set(key, places);
+      }
+      for (const places of index.values()) places.sort(byTypeThenName);
+      return index;
+    })
+    // No gazetteer (or an LFS pointer): place names just aren't searched.
+    .catch(() => null);
+  return placesByKey;
+}
+
+/**
+ * Places called `query`, biggest first, optionally narrowed by an area
+ * after a comma ("Newport, Isle of Wight"). When there are none, `similar`
+ * has places whose names start with it instead.
+ */
+export async function findPlaces(query: string): Promise<{ matches: Place[]; similar: Place[] }> {
+  const index = await loadPlaces();
+  const [name, ...qualifier] = query.split(',');
+  const key = placeKey(name);
+  if (!index || !key) return { matches: [], similar: [] };
+
+  const areaKey = placeKey(qualifier.join(' '));
+  const inArea = (place: Place) => !areaKey || placeKey(place.area).includes(areaKey);
+
+  const matches = (index.get(key) ?? []).filter(inArea);
+  if (matches.length > 0) return { matches, similar: [] };
+
+  const similar: Place[] = [];
+  for (const [candidate, places] of index) {
+    if (candidate.startsWith(key)) similar.push(...places.filter(inArea));
+  }
+  return { matches: [], similar: similar.sort(byTypeThenName).slice(0, MAX_SIMILAR) };
+}
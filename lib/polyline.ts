@@ -0,0 +1,64 @@
+// lib/polyline.ts
+//
+// Encoded polylines (the Google Maps format): each coordinate is stored as
+// the difference from the previous one, scaled to an integer and written as
+// base-64-ish ASCII, so a route costs 2–6 bytes a point instead of ~40 in
+// GPX. scripts/simplify-routes.ts writes them; TrailMap reads them.
+//
+// Coordinates are [lon, lat] like everywhere else in the project, though
+// the format itself stores latitude first.
+
+// Five decimal places is ~1 m, finer than any simplified level needs.
+export const POLYLINE_PRECISION = 5;
+
+function encodeValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let out = '';
+  while (v >= 0x20) {
+    out += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  return out + String.fromCharCode(v + 63);
+}
+
+export function encodePolyline(coords: [number, number][], precision = POLYLINE_PRECISION): string {
+  const factor = 10 ** precision;
+  let prevLat = 0;
+  let prevLon = 0;
+  let out = '';
+  for (const [lon, lat] of coords) {
+    const ilat = Math.round(lat * factor);
+    const ilon = Math.round(lon * factor);
+    out += encodeValue(ilat - prevLat) + encodeValue(ilon - prevLon);
+    prevLat = ilat;
+    prevLon = ilon;
+  }
+  return out;
+}
+
+export function decodePolyline(text: string, precision = POLYLINE_PRECISION): [number, number][] {
+  const factor = 10 ** precision;
+  const coords: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const next = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = text.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < text.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < text.length) {
+    lat += next();
+    lon += next();
+    coords.push([lon / factor, lat / factor]);
+  }
+  return coords;
+}
@@ -0,0 +1,218 @@
+// lib/postcodes.ts
+//
+// UK postcode centroids, written by scripts/preprocess-postcodes.ts in two
+// indexes:
+//
+//   data/postcodes/by-district/<outcode>.json – every postcode in an
+//     outward code ("S66"), for postcode → location
+//   data/postcodes/by-cell/<row>_<col>.json – in-use postcodes in a
+//     0.1° × 0.1° grid cell, for location → nearest postcodes
+//
+// Lookups read only the few small files they need, so this is cheap even
+// without the cache.
+
+import path from 'path';
+import { promises as fs } from 'fs';
+import { EARTH_RADIUS_KM, haversineKm } from './geo';
+
+export const POSTCODE_SHARD_DIR = path.join(process.cwd(), 'data', 'postcodes', 'by-district');
+export const POSTCODE_CELL_DIR = path.join(process.cwd(), 'data', 'postcodes', 'by-cell');
+
+// Grid cells per degree: a cell is ~11 km tall and ~6.5 km wide in the UK.
+export const CELLS_PER_DEGREE = 10;
+
+// Index files kept in memory (a few MB at most).
+const CACHE_SIZE = 200;
+
+// How far nearestPostcodes looks by default; the most remote spots in the
+// Highlands are ~15 km from a postcode.
+export const REVERSE_MAX_KM = 20;
+
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+const POSTCODE_PATTERN = /^([A-Z]{1,2}[0-9][A-Z0-9]?)([0-9][A-Z]{2})$/;
+const OUTWARD_PATTERN = /^[A-Z]{1,2}[0-9][A-Z0-9]?$/;
+
+// [inward code, latitude, longitude], with a trailing 0 for a postcode
+// that is no longer in use.
+export type PostcodeRow = [string, number, number] | [string, number, number, 0];
+
+export type PostcodeShard = {
+  district: string; // the outward code
+  count: number;
+  postcodes: PostcodeRow[];
+};
+
+// [postcode, latitude, longitude]
+export type PostcodeCellRow = [string, number, number];
+
+export type PostcodeCell = {
+  cell: string;
+  count: number;
+  postcodes: PostcodeCellRow[];
+};
+
+export type NearbyPostcode = {
+  postcode: string;
+  latitude: number;
+  longitude: number;
+  distanceKm: number;
+};
+
+export type PostcodeRecord = {
+  postcode: string; // "S66 7RR"
+  district: string; // "S66"
+  sector: string; // "S66 7"
+  latitude: number;
+  longitude: number;
+  in_use: boolean;
+};
+
+// Shards written before the compact format listed a record per postcode.
+type LegacyShardItem = { postcode: string; latitude: number; longitude: number; in_use?: boolean };
+
+/**
+ * The postcode in standard form ("s667rr" → "S66 7RR"), split into its
+ * outward and inward codes, or null when it isn't a full UK postcode.
+ */
+export function parsePostcode(raw: string): { postcode: string; outward: string; inward: string } | null {
+  const match = raw.toUpperCase().replace(/\s+/g, '').match(POSTCODE_PATTERN);
+  if (!match) return null;
+  const [, outward, inward] = match;
+  return { postcode: `${outward} ${inward}`, outward, inward };
+}
+
+export function isOutwardCode(value: string): boolean {
+  return OUTWARD_PATTERN.test(value);
+}
+
+/** The records in a parsed shard file, in either shard format. */
+export function shardRecords(shard: { district: string; postcodes?: unknown[] }): PostcodeRecord[] {
+  const district = shard.district;
+  return (shard.postcodes ?? []).map((item) => {
+    if (Array.isArray(item)) {
+      const [inward, latitude, longitude, inUse] = item as PostcodeRow;
+      return {
+        postcode: `${district} ${inward}`,
+        district,
+        sector: `${district} ${inward[0]}`,
+        latitude,
+        longitude,
+        in_use: inUse !== 0,
+      };
+    }
+    const legacy = item as LegacyShardItem;
+    const inward = legacy.postcode.split(' ')[1] ?? '';
+    return {
+      postcode: legacy.postcode,
+      district,
+      sector: inward ? `${district} ${inward[0]}` : district,
+      latitude: legacy.latitude,
+      longitude: legacy.longitude,
+      in_use: legacy.in_use !== false,
+    };
+  });
+}
+
+/** The grid cell a point is in, e.g. "534_-13". */
+export function postcodeCellKey(lat: number, lon: number): string {
+  return `${Math.floor(lat * CELLS_PER_DEGREE)}_${Math.floor(lon * CELLS_PER_DEGREE)}`;
+}
+
+const fileCache = new Map<string, Promise<unknown>>();
+
+/**
+ * A parsed index file, or null when it's missing (no postcodes there) or
+ * unreadable (an LFS pointer that hasn't been pulled).
+ */
+function readIndexFile(file: string): Promise<unknown> {
+  let entry = fileCache.get(file);
+  if (entry) {
+    // Move to the back, so the least recently used file goes first.
+    fileCache.delete(file);
+  } else {
+    entry = fs
+      .readFile(file, 'utf8')
+      .then((text) => JSON.parse(text))
+      .catch(() => null);
+    if (fileCache.size >= CACHE_SIZE) fileCache.delete(fileCache.keys().next().value!);
+  }
+  fileCache.set(file, entry);
+  return entry;
+}
+
+/**
+ * Every postcode, in use or not, in an outward code, or null when there's
+ * no shard for it.
+ */
+export async function readPostcodeShard(outward: string): Promise<PostcodeRecord[] | null> {
+  const code = outward.trim().toUpperCase();
+  if (!isOutwardCode(code)) return null;
+  const shard = await readIndexFile(path.join(POSTCODE_SHARD_DIR, `${code}.json`));
+  return shard ? shardRecords(shard as PostcodeShard) : null;
+}
+
+/**
+ * The record for a postcode in any common spelling ("s66 7rr", "S667RR"),
+ * including terminated ones (`in_use: false`), or null when it's unknown.
+ */
+export async function lookupPostcode(raw: string): Promise<PostcodeRecord | null> {
+  const parsed = parsePostcode(raw);
+  if (!parsed) return null;
+  const records = await readPostcodeShard(parsed.outward);
+  return records?.find((r) => r.postcode === parsed.postcode) ?? null;
+}
+
+/**
+ * Whether the grid cell index is present and pulled (not LFS pointers), so
+ * that no postcodes near a point means it's remote rather than no data.
+ */
+export async function hasPostcodeCells(): Promise<boolean> {
+  const files = await fs.readdir(POSTCODE_CELL_DIR).catch(() => [] as string[]);
+  const first = files.find((file) => file.endsWith('.json'));
+  return first ? (await readIndexFile(path.join(POSTCODE_CELL_DIR, first))) !== null : false;
+}
+
+/**
+ * The `k` in-use postcodes nearest a point, closest first, looking no
+ * further than `maxKm`. Searches outwards ring by ring through the grid
+ * cells, stopping once nothing in a further ring could be closer.
+ */
+export async function nearestPostcodes(
+  lat: number,
+  lon: number,
+  k = 1,
+  maxKm = REVERSE_MAX_KM
+): Promise<NearbyPostcode[]> {
+  const row = Math.floor(lat * CELLS_PER_DEGREE);
+  const col = Math.floor(lon * CELLS_PER_DEGREE);
+  // Every point in ring r + 1 is at least r cells away. Cells are narrower
+  // than they are tall, and narrowest at the poleward edge of the search.
+  const edgeLat = Math.min(89, Math.abs(lat) + maxKm / KM_PER_DEGREE);
+  const cellKm = (KM_PER_DEGREE / CELLS_PER_DEGREE) * Math.cos((edgeLat * Math.PI) / 180);
+  const maxRing = Math.ceil(maxKm / cellKm);
+
+  const found: NearbyPostcode[] = [];
+  for (let ring = 0; ring <= maxRing; ring++) {
+    const cells: string[] = [];
+    for (let dr = -ring; dr <= ring; dr++) {
+      for (let dc = -ring; dc <= ring; dc++) {
+        if (Math.max(Math.abs(dr), Math.abs(dc)) === ring) cells.push(`${row + dr}_${col + dc}`);
+      }
+    }
+
+    const contents = await Promise.all(
+      cells.map((cell) => readIndexFile(path.join(POSTCODE_CELL_DIR, `${cell}.json`)))
+    );
+    for (const content of contents) {
+      for (const [postcode, latitude, longitude] of (content as PostcodeCell | null)?.postcodes ?? []) {
+        const d = haversineKm([lon, lat], [longitude, latitude]);
+        if (d <= maxKm) found.push({ postcode, latitude, longitude, distanceKm: d });
+      }
+    }
+
+    found.sort((a, b) => a.distanceKm - b.distanceKm);
+    if (found.length >= k && found[k - 1].distanceKm <= ring * cellKm) break;
+  }
+  return found.slice(0, k);
+}
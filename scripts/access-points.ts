@@ -0,0 +1,40 @@
+// scripts/access-points.ts
+//
+// Car parks and railway stations, written by scrape-access-points.ts to
+// data/raw/access-points.json. Used to pick a sensible start for circular
+// routes.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LonLat } from './geo';
+import { buildPointGrid, PointGrid } from './point-grid';
+
+export const ACCESS_POINTS_FILE = path.join(process.cwd(), 'data', 'raw', 'access-points.json');
+
+export type AccessPointType = 'car_park' | 'station';
+
+export type AccessPoint = {
+  type: AccessPointType;
+  osm_id: string; // e.g. "way/123"
+  name?: string;
+  lat: number;
+  lon: number;
+};
+
+export function accessPointType(tags: Record<string, string>): AccessPointType | null {
+  if (tags.amenity === 'parking') {
+    const access = tags.access ?? 'yes';
+    return access === 'private' || access === 'no' || access === 'customers' ? null : 'car_park';
+  }
+  if (tags.railway === 'station' || tags.railway === 'halt') return 'station';
+  return null;
+}
+
+/**
+ * Grid over the saved access points, or null when none have been scraped.
+ */
+export function loadAccessPointGrid(): PointGrid<AccessPoint> | null {
+  if (!fs.existsSync(ACCESS_POINTS_FILE)) return null;
+  const points = JSON.parse(fs.readFileSync(ACCESS_POINTS_FILE, 'utf8')) as AccessPoint[];
+  return points.length > 0 ? buildPointGrid(points, (p): LonLat => [p.lon, p.lat]) : null;
+}
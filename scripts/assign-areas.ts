@@ -0,0 +1,197 @@
+// scripts/assign-areas.ts
+//
+// Assigns country, county, region and protected areas (National Parks,
+// National Landscapes / AONBs) to every hike using local boundary GeoJSON
+// (see boundaries.ts). The start point decides `country` and `county`; the
+// route line is sampled to record how its length splits across areas.
+//
+// `region` becomes the National Park or National Landscape the route starts
+// in, falling back to the county – matching how walkers name areas ("Peak
+// District", "Cotswolds").
+//
+// Run after hikes:normalise (normalise rewrites the hike files). Set
+// HIKES_AREAS_ALL=true to redo hikes that already have areas.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { Area, areasAt, BOUNDARIES_DIR, loadBoundaries } from './boundaries';
+import { haversineKm, LonLat } from './geo';
+import { readHike, writeHike } from './hike-store';
+import { AreaKind, AreaShare, Hike, ProtectedArea, RawOsmHike } from './hike-types';
+import { rawHikeSegments } from './osm-geometry';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+
+const AREAS_ALL = process.env.HIKES_AREAS_ALL === 'true';
+
+// Route pieces are tested at their midpoint, at most this long.
+const SAMPLE_SPACING_KM = 0.25;
+
+// Shares below this are dropped (a route clipping a boundary).
+const MIN_SHARE = 0.005;
+
+const COUNTRIES: Hike['country'][] = ['England', 'Wales', 'Scotland', 'Northern Ireland'];
+
+type Layers = Partial<Record<AreaKind, Area[]>>;
+
+/**
+ * Length of route (km) inside each area of every layer, plus total length.
+ */
+function routeLengths(segments: LonLat[][], layers: Layers) {
+  const lengths = new Map<Area, number>();
+  let total = 0;
+  // Areas within a layer don't overlap, and consecutive pieces are nearly
+  // always in the same one, so check the last hit first.
+  const lastHit = new Map<AreaKind, Area>();
+
+  const addPiece = (mid: LonLat, len: number) => {
+    total += len;
+    for (const [kind, areas] of Object.entries(layers) as [AreaKind, Area[]][]) {
+      const last = lastHit.get(kind);
+      const hit = last && areasAt([last], mid).length > 0 ? last : areasAt(areas, mid)[0];
+      if (!hit) continue;
+      lastHit.set(kind, hit);
+      lengths.set(hit, (lengths.get(hit) ?? 0) + len);
+    }
+  };
+
+  for (const coords of segments) {
+    for (let i = 1; i < coords.length; i++) {
+      const [ax, ay] = coords[i - 1];
+      const [bx, by] = coords[i];
+      const len = haversineKm(coords[i - 1], coords[i]);
+      const pieces = Math.max(1, Math.ceil(len / SAMPLE_SPACING_KM));
+      for (let p = 0; p < pieces; p++) {
+        const t = (p + 0.5) / pieces;
+        addPiece([ax + (bx - ax) * t, ay + (by - ay) * t], len / pieces);
+      }
+    }
+  }
+
+  return { lengths, total };
+}
+
+function sharesFor(kind: AreaKind, lengths: Map<Area, number>, total: number): AreaShare[] {
+  if (total === 0) return [];
+  return [...lengths]
+    .filter(([area]) => area.kind === kind)
+    .map(([area, len]) => ({ name: area.name, share: Math.round((len / total) * 1000) / 1000 }))
+    .filter((s) => s.share >= MIN_SHARE)
+    .sort((a, b) => b.share - a.share);
+}
+
+// The area containing the start, or failing that (starts on a beach or
+// just offshore) the one covering most of the route.
+function startArea(kind: AreaKind, layers: Layers, start: LonLat, shares: AreaShare[]) {
+  const atStart = areasAt(layers[kind] ?? [], start)[0];
+  return atStart?.name ?? shares[0]?.name;
+}
+
+function toCountry(name: string | undefined): Hike['country'] | null {
+  if (!name) return null;
+  return COUNTRIES.find((c) => c.toLowerCase() === name.trim().toLowerCase()) ?? null;
+}
+
+function protectedAreas(
+  layers: Layers,
+  start: LonLat,
+  lengths: Map<Area, number>,
+  total: number
+): ProtectedArea[] {
+  const result: ProtectedArea[] = [];
+  for (const type of ['national_park', 'national_landscape'] as const) {
+    const shares = sharesFor(type, lengths, total);
+    const atStart = areasAt(layers[type] ?? [], start).map((a) => a.name);
+
+    for (const name of new Set([...atStart, ...shares.map((s) => s.name)])) {
+      result.push({
+        name,
+        type,
+        share: shares.find((s) => s.name === name)?.share ?? 0,
+        contains_start: atStart.includes(name),
+      });
+    }
+  }
+  return result.sort((a, b) => b.share - a.share);
+}
+
+function main() {
+  if (!fs.existsSync(RAW_DIR)) {
+    console.error(`Raw OSM dir missing: ${RAW_DIR}`);
+    process.exit(1);
+  }
+
+  const layers = loadBoundaries();
+  const loaded = Object.entries(layers).map(([kind, areas]) => `${kind} (${areas!.length})`);
+  if (loaded.length === 0) {
+    console.warn(`No boundary GeoJSON found in ${BOUNDARIES_DIR} – skipping areas.`);
+    return;
+  }
+  console.log(`Loaded boundary layers: ${loaded.join(', ')}`);
+
+  const files = fs.readdirSync(RAW_DIR).filter((f) => f.endsWith('.json'));
+
+  let updated = 0;
+  let withCountry = 0;
+  let withCounty = 0;
+  let inProtected = 0;
+  let skippedExisting = 0;
+  let skippedNoHike = 0;
+
+  for (const file of files) {
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const hike = readHike(raw.slug);
+    if (!hike || hike.retired) {
+      skippedNoHike++;
+      continue;
+    }
+    if (hike.area_shares && !AREAS_ALL) {
+      skippedExisting++;
+      continue;
+    }
+
+    const start: LonLat = [hike.start.lon, hike.start.lat];
+    const { lengths, total } = routeLengths(rawHikeSegments(raw), layers);
+
+    const countryShares = sharesFor('country', lengths, total);
+    const countyShares = sharesFor('county', lengths, total);
+    const country = toCountry(startArea('country', layers, start, countryShares));
+    const county = startArea('county', layers, start, countyShares);
+    const protectedList = protectedAreas(layers, start, lengths, total);
+    const startProtected =
+      protectedList.find((a) => a.type === 'national_park' && a.contains_start) ??
+      protectedList.find((a) => a.contains_start);
+
+    const next: Hike = {
+      ...hike,
+      region: startProtected?.name ?? county ?? hike.region,
+      country: country ?? hike.country,
+      county: county ?? hike.county,
+      protected_areas: protectedList,
+      area_shares: { country: countryShares, county: countyShares },
+    };
+
+    writeHike(next);
+    updated++;
+    if (country) withCountry++;
+    if (county) withCounty++;
+    if (protectedList.length > 0) inProtected++;
+
+    if (updated % 500 === 0) {
+      console.log(`Assigned areas for ${updated} hikes...`);
+    }
+  }
+
+  console.log('--------------------------------------------');
+  console.log(`Hikes updated        : ${updated}`);
+  console.log(`  with country       : ${withCountry}`);
+  console.log(`  with county        : ${withCounty}`);
+  console.log(`  in protected areas : ${inProtected}`);
+  console.log(`Skipped (done)       : ${skippedExisting}`);
+  console.log(`Skipped (no hike)    : ${skippedNoHike}`);
+  console.log(`Boundaries directory : ${BOUNDARIES_DIR}`);
+  console.log('--------------------------------------------');
+}
+
+main();
@@ -0,0 +1,231 @@
+// scripts/assign-themes.ts
+//
+// Gives every hike its themes from what the route actually passes, using the
+// OSM features saved by scrape-theme-features.ts:
+//
+//   coastal     ≥ COAST_SHARE of the route within COAST_KM of the coastline
+//   lakes       passes within LAKE_KM of a lake or reservoir
+//   waterfalls  passes within WATERFALL_KM of a waterfall
+//   ridges      ≥ RIDGE_SHARE of the route on a ridge or arête, or over at
+//               least MIN_PEAKS summits
+//
+// Each theme is recorded with its evidence (feature, name, distance) in
+// `theme_evidence`, so a theme can always be traced back to the map.
+//
+// Run after hikes:normalise (normalise rewrites the hike files with its
+// name-based guess). Set HIKES_THEMES_ALL=true to redo hikes that already
+// have evidence.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { densify, LonLat } from './geo';
+import { readHike, writeHike } from './hike-store';
+import { Hike, RawOsmHike, ThemeEvidence, ThemeFeatureKind, ThemeTag } from './hike-types';
+import { rawHikeSegments } from './osm-geometry';
+import { buildPointGrid, PointGrid } from './point-grid';
+import { loadThemeFeatures, THEME_FEATURES_FILE, ThemeFeature } from './theme-features';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+
+const THEMES_ALL = process.env.HIKES_THEMES_ALL === 'true';
+
+// Line features are indexed as points this far apart, and routes checked
+// at this spacing.
+const FEATURE_SPACING_KM = 0.05;
+const ROUTE_SPACING_KM = 0.1;
+
+const COAST_KM = 0.5;
+const COAST_SHARE = 0.25;
+const LAKE_KM = 0.2;
+const WATERFALL_KM = 0.2;
+const RIDGE_KM = 0.1;
+const RIDGE_SHARE = 0.1;
+const PEAK_KM = 0.1;
+const MIN_PEAKS = 2;
+
+// Keep the closest few features per theme as evidence.
+const MAX_EVIDENCE = 3;
+
+const THEME_ORDER: ThemeTag[] = ['coastal', 'waterfalls', 'lakes', 'ridges'];
+
+type Layer = 'coastline' | 'water' | 'waterfall' | 'ridge' | 'peak';
+
+const LAYER_OF: Record<ThemeFeatureKind, Layer> = {
+  coastline: 'coastline',
+  water: 'water',
+  waterfall: 'waterfall',
+  ridge: 'ridge',
+  arete: 'ridge',
+  peak: 'peak',
+};
+
+const LAYER_RADIUS_KM: Record<Layer, number> = {
+  coastline: COAST_KM,
+  water: LAKE_KM,
+  waterfall: WATERFALL_KM,
+  ridge: RIDGE_KM,
+  peak: PEAK_KM,
+};
+
+type FeaturePoint = { feature: ThemeFeature; pos: LonLat };
+
+type Layers = Partial<Record<Layer, PointGrid<FeaturePoint>>>;
+
+// Closest approach to one feature, and how many route samples were in range.
+type Hit = { feature: ThemeFeature; distanceKm: number; samples: number };
+
+function buildLayers(features: ThemeFeature[]): Layers {
+  const points: Partial<Record<Layer, FeaturePoint[]>> = {};
+  for (const feature of features) {
+    const list = (points[LAYER_OF[feature.kind]] ??= []);
+    for (const line of feature.lines) {
+      for (const pos of densify(line, FEATURE_SPACING_KM)) list.push({ feature, pos });
+    }
+  }
+
+  const layers: Layers = {};
+  for (const [layer, list] of Object.entries(points) as [Layer, FeaturePoint[]][]) {
+    layers[layer] = buildPointGrid(list, (p) => p.pos);
+  }
+  return layers;
+}
+
+/**
+ * Features of each layer within range of the route, closest first, plus the
+ * share of route samples in range of any feature in the layer.
+ */
+function routeHits(segments: LonLat[][], layers: Layers) {
+  const samples = segments.flatMap((coords) => densify(coords, ROUTE_SPACING_KM));
+  const hits = new Map<Layer, Map<ThemeFeature, Hit>>();
+  const inRange = new Map<Layer, number>();
+
+  for (const point of samples) {
+    for (const [layer, grid] of Object.entries(layers) as [Layer, PointGrid<FeaturePoint>][]) {
+      const near = grid.nearest(point, LAYER_RADIUS_KM[layer]);
+      if (!near) continue;
+      const { feature } = near.item;
+
+      inRange.set(layer, (inRange.get(layer) ?? 0) + 1);
+      const byFeature = hits.get(layer) ?? new Map<ThemeFeature, Hit>();
+      hits.set(layer, byFeature);
+      const hit = byFeature.get(feature);
+      if (hit) {
+        hit.distanceKm = Math.min(hit.distanceKm, near.distanceKm);
+        hit.samples++;
+      } else {
+        byFeature.set(feature, { feature, distanceKm: near.distanceKm, samples: 1 });
+      }
+    }
+  }
+
+  const total = Math.max(1, samples.length);
+  const layerHits = (layer: Layer) =>
+    [...(hits.get(layer)?.values() ?? [])].sort((a, b) => a.distanceKm - b.distanceKm);
+  const layerShare = (layer: Layer) => (inRange.get(layer) ?? 0) / total;
+
+  return { layerHits, layerShare, total };
+}
+
+function evidence(
+  theme: ThemeTag,
+  hits: Hit[],
+  total: number,
+  withShare: boolean
+): ThemeEvidence[] {
+  return hits.slice(0, MAX_EVIDENCE).map((h) => ({
+    theme,
+    feature: h.feature.kind,
+    osm_id: h.feature.osm_id,
+    ...(h.feature.name ? { name: h.feature.name } : {}),
+    distance_km: Math.round(h.distanceKm * 1000) / 1000,
+    ...(withShare ? { share: Math.round((h.samples / total) * 1000) / 1000 } : {}),
+  }));
+}
+
+function detectThemes(segments: LonLat[][], layers: Layers): ThemeEvidence[] {
+  const { layerHits, layerShare, total } = routeHits(segments, layers);
+  const found: ThemeEvidence[] = [];
+
+  // The coastline is mapped as many short ways, so report it as one feature
+  // (the closest way) with the share of the whole route along it.
+  const coast = layerHits('coastline');
+  if (coast.length > 0 && layerShare('coastline') >= COAST_SHARE) {
+    const [closest] = evidence('coastal', coast, total, false);
+    found.push({ ...closest, share: Math.round(layerShare('coastline') * 1000) / 1000 });
+  }
+
+  found.push(...evidence('waterfalls', layerHits('waterfall'), total, false));
+  found.push(...evidence('lakes', layerHits('water'), total, true));
+
+  const peaks = layerHits('peak');
+  if (layerShare('ridge') >= RIDGE_SHARE) {
+    found.push(...evidence('ridges', layerHits('ridge'), total, true));
+  } else if (peaks.length >= MIN_PEAKS) {
+    found.push(...evidence('ridges', peaks, total, false));
+  }
+
+  return found;
+}
+
+function main() {
+  if (!fs.existsSync(RAW_DIR)) {
+    console.error(`Raw OSM dir missing: ${RAW_DIR}`);
+    process.exit(1);
+  }
+
+  const features = loadThemeFeatures();
+  if (features.length === 0) {
+    console.warn(`No theme features found in ${THEME_FEATURES_FILE} – skipping themes.`);
+    return;
+  }
+  const layers = buildLayers(features);
+  console.log(`Loaded ${features.length} theme features`);
+
+  const files = fs.readdirSync(RAW_DIR).filter((f) => f.endsWith('.json'));
+  const byTheme: Record<ThemeTag, number> = { coastal: 0, waterfalls: 0, lakes: 0, ridges: 0 };
+
+  let updated = 0;
+  let changed = 0;
+  let skippedExisting = 0;
+  let skippedNoHike = 0;
+
+  for (const file of files) {
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const hike = readHike(raw.slug);
+    if (!hike || hike.retired) {
+      skippedNoHike++;
+      continue;
+    }
+    if (hike.theme_evidence && !THEMES_ALL) {
+      skippedExisting++;
+      continue;
+    }
+
+    const found = detectThemes(rawHikeSegments(raw), layers);
+    const themes = THEME_ORDER.filter((t) => found.some((e) => e.theme === t));
+
+    const next: Hike = { ...hike, themes, theme_evidence: found };
+    writeHike(next);
+    updated++;
+    for (const theme of themes) byTheme[theme]++;
+    if ([...themes].sort().join() !== [...hike.themes].sort().join()) changed++;
+
+    if (updated % 500 === 0) {
+      console.log(`Assigned themes for ${updated} hikes...`);
+    }
+  }
+
+  console.log('--------------------------------------------');
+  console.log(`Hikes updated        : ${updated}`);
+  console.log(`  coastal            : ${byTheme.coastal}`);
+  console.log(`  waterfalls         : ${byTheme.waterfalls}`);
+  console.log(`  lakes              : ${byTheme.lakes}`);
+  console.log(`  ridges             : ${byTheme.ridges}`);
+  console.log(`Themes changed       : ${changed}`);
+  console.log(`Skipped (done)       : ${skippedExisting}`);
+  console.log(`Skipped (no hike)    : ${skippedNoHike}`);
+  console.log('--------------------------------------------');
+}
+
+main();
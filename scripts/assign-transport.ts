@@ -0,0 +1,178 @@
+// scripts/assign-transport.ts
+//
+// Fills in each hike's public transport from the local NaPTAN stops (see
+// naptan.ts): the nearest rail stations and bus stops within walking
+// distance of the start – and of the finish for linear routes – with a
+// short access summary and the filter tags:
+//
+//   train-accessible   a station within STATION_KM of the start
+//   bus-accessible     a bus stop within BUS_STOP_KM of the start
+//   car-free-possible  you can get to the start, and home from the finish,
+//                      by train or bus
+//
+// Distances are straight lines; walking times allow for paths not being
+// straight. Every hike is redone on each run.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LonLat } from './geo';
+import { readHike, writeHike } from './hike-store';
+import { Hike, RawOsmHike, RoutePoint, TransportStop, TransportTag } from './hike-types';
+import { loadNaptanStops, NAPTAN_DIR, NaptanStop } from './naptan';
+import type { PointGrid } from './point-grid';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+
+const STATION_KM = 2.5;
+const BUS_STOP_KM = 1;
+
+// How many of each to list per end.
+const MAX_STATIONS = 3;
+const MAX_BUS_STOPS = 3;
+
+// Walking route vs straight line, and walking pace.
+const DETOUR_FACTOR = 1.3;
+const WALK_KMH = 4.5;
+
+function stopsNear(
+  grid: PointGrid<NaptanStop>,
+  point: RoutePoint,
+  near: TransportStop['near'],
+  maxKm: number,
+  limit: number
+): TransportStop[] {
+  const pos: LonLat = [point.lon, point.lat];
+  const seen = new Set<string>();
+  const stops: TransportStop[] = [];
+
+  for (const { item, distanceKm } of grid.within(pos, maxKm)) {
+    // Stops either side of a road share a place; the nearer one will do.
+    if (seen.has(item.place)) continue;
+    seen.add(item.place);
+
+    stops.push({
+      name: item.name,
+      atco_code: item.atco_code,
+      ...(item.naptan_code ? { naptan_code: item.naptan_code } : {}),
+      ...(item.station_code ? { station_code: item.station_code } : {}),
+      near,
+      distance_km: Math.round(distanceKm * 10) / 10,
+      walk_minutes: Math.max(1, Math.round(((distanceKm * DETOUR_FACTOR) / WALK_KMH) * 60)),
+    });
+    if (stops.length >= limit) break;
+  }
+  return stops;
+}
+
+function describe(stop: TransportStop, kind: 'station' | 'bus stop'): string {
+  const what = kind === 'station' ? `${stop.name} station` : `The ${stop.name} bus stop`;
+  const where = stop.near === 'start' ? 'the start' : 'the finish';
+  return `${what} is about ${stop.walk_minutes} min walk from ${where}.`;
+}
+
+function accessSummary(stations: TransportStop[], busStops: TransportStop[], linear: boolean) {
+  const parts: string[] = [];
+  for (const near of linear ? (['start', 'end'] as const) : (['start'] as const)) {
+    const station = stations.find((s) => s.near === near);
+    const bus = busStops.find((s) => s.near === near);
+    if (station) parts.push(describe(station, 'station'));
+    if (bus && (!station || bus.distance_km < station.distance_km)) {
+      parts.push(describe(bus, 'bus stop'));
+    }
+  }
+  if (parts.length === 0) {
+    return 'No station or bus stop within easy walking distance – plan to drive or get a lift.';
+  }
+  return parts.join(' ');
+}
+
+function accessTags(stations: TransportStop[], busStops: TransportStop[], linear: boolean) {
+  const tags: TransportTag[] = [];
+  const reachable = (near: TransportStop['near']) =>
+    stations.some((s) => s.near === near) || busStops.some((s) => s.near === near);
+
+  if (stations.some((s) => s.near === 'start')) tags.push('train-accessible');
+  if (busStops.some((s) => s.near === 'start')) tags.push('bus-accessible');
+  if (reachable('start') && (!linear || reachable('end'))) tags.push('car-free-possible');
+  return tags;
+}
+
+async function main() {
+  if (!fs.existsSync(RAW_DIR)) {
+    console.error(`Raw OSM dir missing: ${RAW_DIR}`);
+    process.exit(1);
+  }
+
+  const naptan = await loadNaptanStops();
+  if (!naptan) {
+    console.warn(`No NaPTAN Stops.csv found in ${NAPTAN_DIR} – skipping transport.`);
+    return;
+  }
+  console.log(
+    `Loaded ${naptan.stations.size} stations and ${naptan.busStops.size} bus stops from NaPTAN`
+  );
+
+  const files = fs.readdirSync(RAW_DIR).filter((f) => f.endsWith('.json'));
+  const byTag: Record<TransportTag, number> = {
+    'train-accessible': 0,
+    'bus-accessible': 0,
+    'car-free-possible': 0,
+  };
+
+  let updated = 0;
+  let skippedNoHike = 0;
+
+  for (const file of files) {
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const hike = readHike(raw.slug);
+    if (!hike || hike.retired) {
+      skippedNoHike++;
+      continue;
+    }
+
+    const ends: [TransportStop['near'], RoutePoint][] = [['start', hike.start]];
+    if (hike.end) ends.push(['end', hike.end]);
+
+    const stations = ends.flatMap(([near, point]) =>
+      stopsNear(naptan.stations, point, near, STATION_KM, MAX_STATIONS)
+    );
+    const busStops = ends.flatMap(([near, point]) =>
+      stopsNear(naptan.busStops, point, near, BUS_STOP_KM, MAX_BUS_STOPS)
+    );
+    const linear = !!hike.end;
+    const tags = accessTags(stations, busStops, linear);
+
+    const next: Hike = {
+      ...hike,
+      transport: {
+        ...hike.transport,
+        access_tags: tags,
+        nearest_train_stations: stations,
+        nearest_bus_stops: busStops,
+        access_summary: accessSummary(stations, busStops, linear),
+      },
+    };
+    writeHike(next);
+    updated++;
+    for (const tag of tags) byTag[tag]++;
+
+    if (updated % 500 === 0) {
+      console.log(`Assigned transport for ${updated} hikes...`);
+    }
+  }
+
+  console.log('--------------------------------------------');
+  console.log(`Hikes updated        : ${updated}`);
+  console.log(`  train-accessible   : ${byTag['train-accessible']}`);
+  console.log(`  bus-accessible     : ${byTag['bus-accessible']}`);
+  console.log(`  car-free-possible  : ${byTag['car-free-possible']}`);
+  console.log(`Skipped (no hike)    : ${skippedNoHike}`);
+  console.log(`NaPTAN directory     : ${NAPTAN_DIR}`);
+  console.log('--------------------------------------------');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,534 @@
+// scripts/assign-variants.ts
+//
+// Finds routes that belong to another route rather than standing on their
+// own: alternatives, short cuts, extensions and link paths. The parent is
+// found from, in order:
+//
+//   osm       the route's role in a parent relation ("alternative",
+//             "excursion", "connection"…), a ref with a letter suffix (C12B
+//             of C12), a ref named in the name ("short-cut for C02"), or
+//             (for routes named as variants) from/to tags naming the parent
+//   name      the name before the variant word ("Capital Ring link to Balham
+//             station", "Capital Ring (section 03) - alternative …") or
+//             without a letter suffix ("ACW Circular Walk 12B")
+//   geometry  a linear route named after a longer one ("South Downs Way
+//             inland route") that leaves and rejoins it; or, for "link to X station" with no route in its
+//             name, the route it starts or ends on
+//
+// A parent found by ref or name must also touch the variant (one of its ends
+// within TOUCH_KM of the parent's line). Routes that are merely called a
+// link – Downs Link, Limestone Link – have no parent and stay listed.
+//
+// Variants get variant_of / shortcut_for / extension_of / link_between and
+// are shown in the parent's `variants` instead of in listings. A variant of
+// a variant is hung on the root route.
+//
+// Run after hikes:dedupe. Each run recomputes every relation, and lists them
+// in HIKES_REPORT_DIR/variants.json.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { VARIANT_RELATIONS } from '../lib/hike-schema';
+import { haversineKm } from './geo';
+import { readAllHikes, writeHike } from './hike-store';
+import { Hike, RawOsmHike, RouteRelationLink, VariantLink, VariantRelation } from './hike-types';
+import { rawHikeSegments } from './osm-geometry';
+import {
+  endDistancesKm,
+  nameTokens,
+  routeTrace,
+  RouteTrace,
+  sharedFraction,
+} from './route-similarity';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+const REPORT_DIR = path.resolve(
+  process.env.HIKES_REPORT_DIR ?? path.join(ROOT, 'data', 'reports')
+);
+
+// A variant must start or end this close to its parent's line.
+const TOUCH_KM = 0.5;
+
+// Without geometry (hand-written hikes), the starts must be this close.
+const NEAR_START_KM = 5;
+
+// Geometry-only variants: both ends on the parent's line and at least
+// MIN_SPAN_KM apart (circular walks sharing a car park with a longer one are
+// walks of their own), and no more than MAX_SHARED of the route along it (a
+// route that's all along it is a stage or a duplicate, not an alternative).
+const GEOMETRY_END_KM = 0.1;
+const MIN_SPAN_KM = 1;
+const SHARED_KM = 0.1;
+const MAX_SHARED = 0.8;
+const MIN_LENGTH_RATIO = 1.2; // the parent must be this much longer
+
+// Words in a name that make the route a variant, and which relation. When a
+// name has several, the last wins ("… spur - alternative route" is an
+// alternative of the spur).
+const RELATION_WORDS: [RegExp, VariantRelation][] = [
+  [/short[\s-]?cuts?/g, 'shortcut_for'],
+  [/\b(extra|extensions?|excursions?|detour|spur)\b/g, 'extension_of'],
+  [/\b(links?|connectors?|connections?|access|approach)\b/g, 'link_between'],
+  [/\b(alternatives?|alternate|alt|variant|diversion|by-?pass)\b/g, 'variant_of'],
+];
+
+// Member roles in a parent relation.
+const ROLE_RELATIONS: Record<string, VariantRelation> = {
+  alternative: 'variant_of',
+  alternate: 'variant_of',
+  shortcut: 'shortcut_for',
+  excursion: 'extension_of',
+  approach: 'link_between',
+  connection: 'link_between',
+  link: 'link_between',
+};
+
+// "Capital Ring link to …" is a link of any "Capital Ring section NN".
+const SECTION_WORDS = new Set(['section', 'stage', 'part', 'leg', 'day']);
+
+// How deep variant-of-variant chains are followed to the root route.
+const MAX_DEPTH = 5;
+
+// Every field this script sets.
+const FIELDS = [...VARIANT_RELATIONS, 'variant_source', 'variants'] as const;
+
+type Source = NonNullable<Hike['variant_source']>;
+
+type Route = {
+  hike: Hike;
+  key: string; // name tokens, see nameKey()
+  tags: Record<string, string>;
+  parents?: RouteRelationLink[];
+  trace?: RouteTrace;
+  bbox?: [number, number, number, number]; // km, [minX, minY, maxX, maxY]
+};
+
+type Found = {
+  relation: VariantRelation;
+  parents: string[];
+  source: Source;
+};
+
+// Name tokens with leading zeros dropped, so "Section 01" matches "Section 1".
+function tokens(name: string): string[] {
+  return nameTokens(name).map((t) => (/^\d+$/.test(t) ? String(Number(t)) : t));
+}
+
+function nameKey(name: string): string {
+  return tokens(name).join(' ');
+}
+
+// "walk 12b" → "walk 12", or null without a letter suffix.
+function withoutSuffix(parts: string[]): string[] | null {
+  const last = parts[parts.length - 1];
+  const match = last?.match(/^(\d+)[a-z]$/);
+  return match ? [...parts.slice(0, -1), String(Number(match[1]))] : null;
+}
+
+/**
+ * The relation the name's variant words imply (the last one wins), and where
+ * the first of them starts.
+ */
+function nameRelation(name: string): { relation: VariantRelation; index: number } | null {
+  const lower = name.toLowerCase();
+  let first = Infinity;
+  let last = -1;
+  let relation: VariantRelation | null = null;
+  for (const [pattern, rel] of RELATION_WORDS) {
+    for (const match of lower.matchAll(pattern)) {
+      first = Math.min(first, match.index);
+      if (match.index > last) {
+        last = match.index;
+        relation = rel;
+      }
+    }
+  }
+  return relation ? { relation, index: first } : null;
+}
+
+function readRoutes(hikes: Hike[]): Map<string, Route> {
+  const routes = new Map<string, Route>(
+    hikes.map((hike) => [hike.slug, { hike, key: nameKey(hike.name), tags: {} }])
+  );
+  if (!fs.existsSync(RAW_DIR)) return routes;
+
+  for (const file of fs.readdirSync(RAW_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const route = routes.get(raw.slug);
+    if (!route) continue;
+
+    route.tags = raw.tags ?? {};
+    route.parents = raw.parents;
+    const segments = rawHikeSegments(raw).filter((s) => s.length >= 2);
+    if (segments.length === 0) continue;
+    const trace = routeTrace(segments);
+    const xs = trace.points.map((p) => p[0]);
+    const ys = trace.points.map((p) => p[1]);
+    route.trace = trace;
+    route.bbox = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+  }
+  return routes;
+}
+
+/**
+ * How far the route's nearer end is from the parent's line (or, without
+ * geometry, how far apart the starts are). Infinity if they don't touch.
+ */
+function touchKm(route: Route, parent: Route): number {
+  if (route.trace && parent.trace) {
+    const { start, end } = endDistancesKm(route.trace, parent.trace);
+    const d = Math.min(start, end);
+    return d <= TOUCH_KM ? d : Infinity;
+  }
+  const d = haversineKm(
+    [route.hike.start.lon, route.hike.start.lat],
+    [parent.hike.start.lon, parent.hike.start.lat]
+  );
+  return d <= NEAR_START_KM ? d : Infinity;
+}
+
+// Of the candidates, the one touching the route most closely.
+function closest(route: Route, candidates: Route[]): Route | null {
+  let best: Route | null = null;
+  let bestKm = Infinity;
+  for (const candidate of candidates) {
+    if (candidate === route) continue;
+    const d = touchKm(route, candidate);
+    if (d < bestKm) {
+      best = candidate;
+      bestKm = d;
+    }
+  }
+  return best;
+}
+
+class RouteIndex {
+  private byKey = new Map<string, Route[]>();
+  private byRef = new Map<string, Route[]>();
+  private byOsmId = new Map<number, Route>();
+
+  constructor(readonly routes: Route[]) {
+    for (const route of routes) {
+      this.byKey.set(route.key, [...(this.byKey.get(route.key) ?? []), route]);
+      const ref = route.tags.ref?.toLowerCase();
+      if (ref) this.byRef.set(ref, [...(this.byRef.get(ref) ?? []), route]);
+      if (route.hike.source.type === 'osm') this.byOsmId.set(route.hike.source.osm_id, route);
+    }
+  }
+
+  osmId(id: number): Route | undefined {
+    return this.byOsmId.get(id);
+  }
+
+  ref(ref: string): Route[] {
+    return this.byRef.get(ref.toLowerCase()) ?? [];
+  }
+
+  // Routes named `parts`, or failing that its sections ("… section 5").
+  named(parts: string[]): Route[] {
+    const exact = this.byKey.get(parts.join(' '));
+    if (exact) return exact;
+    return this.routes.filter((route) => {
+      const own = route.key.split(' ');
+      return (
+        own.length > parts.length &&
+        SECTION_WORDS.has(own[parts.length]) &&
+        parts.every((p, i) => own[i] === p)
+      );
+    });
+  }
+}
+
+/**
+ * The parent from the OSM relation: its role, its ref, or (for routes named
+ * as variants) from/to tags naming another route.
+ */
+function osmParent(
+  route: Route,
+  index: RouteIndex,
+  named: boolean
+): { parent: Route; relation?: VariantRelation } | null {
+  for (const link of route.parents ?? []) {
+    const relation = link.role ? ROLE_RELATIONS[link.role.toLowerCase()] : undefined;
+    const parent = relation ? index.osmId(link.id) : undefined;
+    if (parent) return { parent, relation };
+  }
+
+  // C12B is a variant of C12; "short-cut for C02" names the parent's ref.
+  const ownRef = route.tags.ref?.match(/^(.*\d)[a-z]+$/i)?.[1];
+  const namedRef = route.hike.name.match(/\b(?:for|to|on|of)\s+([a-z]{1,3}\d+[a-z]?)\b/i)?.[1];
+  for (const ref of [ownRef, namedRef]) {
+    const parent = ref ? closest(route, index.ref(ref)) : null;
+    if (parent) return { parent };
+  }
+
+  // Named links (Calder Aire Link) may well run from one route to another
+  // and still be routes in their own right.
+  if (!named) return null;
+  for (const end of [route.tags.from, route.tags.to]) {
+    const parent = end ? closest(route, index.named(tokens(end))) : null;
+    if (parent) return { parent };
+  }
+  return null;
+}
+
+/**
+ * The parent from the name: the words before the variant word, or the
+ * route's name (without brackets) less a letter suffix.
+ */
+function nameParent(route: Route, index: RouteIndex, wordAt: number | null): Route | null {
+  const name = route.hike.name;
+  const bases: string[][] = [];
+  if (wordAt !== null) {
+    bases.push(tokens(name.slice(0, wordAt)));
+    bases.push(tokens(name.split(/\(| - |:|,/)[0]));
+  } else {
+    bases.push(tokens(name.replace(/\(.*?\)/g, ' ')));
+  }
+
+  for (const base of bases) {
+    // "Green Link Walk (Section 2)" is a section of the Green Link Walk.
+    if (nameRelation(base.join(' '))) continue;
+    const stripped = withoutSuffix(base);
+    const tries = wordAt !== null ? [base, stripped] : [stripped];
+    for (const parts of tries) {
+      if (!parts || parts.length === 0 || parts.join(' ') === route.key) continue;
+      const parent = closest(route, index.named(parts));
+      if (parent) return parent;
+    }
+  }
+  return null;
+}
+
+function contains(bbox: Route['bbox'], [x, y]: [number, number], marginKm: number): boolean {
+  if (!bbox) return false;
+  return (
+    x >= bbox[0] - marginKm && x <= bbox[2] + marginKm && y >= bbox[1] - marginKm && y <= bbox[3] + marginKm
+  );
+}
+
+// Routes with a line passing within TOUCH_KM of the point.
+function routesNear(point: [number, number], index: RouteIndex, except: Route): Route[] {
+  const at: RouteTrace = { points: [point], lengthKm: 0 };
+  return index.routes.filter(
+    (route) =>
+      route !== except &&
+      route.trace &&
+      contains(route.bbox, point, TOUCH_KM) &&
+      endDistancesKm(at, route.trace).start <= TOUCH_KM
+  );
+}
+
+/**
+ * A longer route whose name this one's starts with, and that it leaves and
+ * rejoins without running along it all the way.
+ */
+function geometryParent(route: Route, index: RouteIndex): Route | null {
+  const trace = route.trace;
+  if (!trace || trace.points.length < 2) return null;
+  // Stages lie along the whole route; they're part_of, not variants.
+  if (tokens(route.hike.name).some((t) => SECTION_WORDS.has(t))) return null;
+
+  const first = trace.points[0];
+  const last = trace.points[trace.points.length - 1];
+  if (Math.hypot(first[0] - last[0], first[1] - last[1]) < MIN_SPAN_KM) return null;
+  const own = route.key.split(' ');
+  const related = new Set(
+    [...(route.hike.part_of ?? []), ...(route.hike.stages ?? [])].map((r) => r.slug)
+  );
+
+  let best: Route | null = null;
+  let bestShared = Infinity;
+  for (const parent of index.routes) {
+    if (parent === route || !parent.trace || related.has(parent.hike.slug)) continue;
+    if (parent.trace.lengthKm < trace.lengthKm * MIN_LENGTH_RATIO) continue;
+    if (!contains(parent.bbox, first, GEOMETRY_END_KM) || !contains(parent.bbox, last, GEOMETRY_END_KM)) {
+      continue;
+    }
+    const named = parent.key.split(' ');
+    if (named.length >= own.length || !named.every((t, i) => own[i] === t)) continue;
+
+    const { start, end } = endDistancesKm(trace, parent.trace);
+    if (start > GEOMETRY_END_KM || end > GEOMETRY_END_KM) continue;
+    const shared = sharedFraction(trace, parent.trace, SHARED_KM);
+    if (shared <= MAX_SHARED && shared < bestShared) {
+      best = parent;
+      bestShared = shared;
+    }
+  }
+  return best;
+}
+
+function findVariant(route: Route, index: RouteIndex): Found | null {
+  const named = nameRelation(route.hike.name);
+
+  const osm = osmParent(route, index, named !== null);
+  if (osm) {
+    const relation = osm.relation ?? named?.relation ?? 'variant_of';
+    return { relation, parents: [osm.parent.hike.slug], source: 'osm' };
+  }
+
+  const byName = nameParent(route, index, named?.index ?? null);
+  if (byName) {
+    const relation = named?.relation ?? 'variant_of';
+    return { relation, parents: [byName.hike.slug], source: 'name' };
+  }
+
+  if (named) {
+    // "link to Brockley station": a link path off whichever route it meets.
+    if (named.relation === 'link_between' && named.index === 0 && route.trace) {
+      const { points } = route.trace;
+      const near = [
+        ...routesNear(points[0], index, route),
+        ...routesNear(points[points.length - 1], index, route),
+      ];
+      const parent = closest(route, near);
+      if (parent) return { relation: 'link_between', parents: [parent.hike.slug], source: 'geometry' };
+    }
+    return null;
+  }
+
+  const byGeometry = geometryParent(route, index);
+  return byGeometry ? { relation: 'variant_of', parents: [byGeometry.hike.slug], source: 'geometry' } : null;
+}
+
+/**
+ * The second route a link path joins: named in its from/to tags or after
+ * the link word ("… Link to Severn Way"), and touching it.
+ */
+function otherLinkEnd(route: Route, found: Found, index: RouteIndex): string | null {
+  const named = nameRelation(route.hike.name);
+  const after = named ? route.hike.name.slice(named.index).replace(/^\S+\s*(to\s+)?/i, '') : '';
+  for (const end of [route.tags.from, route.tags.to, after.replace(/\)$/, '')]) {
+    if (!end) continue;
+    const other = closest(route, index.named(tokens(end)));
+    if (other && !found.parents.includes(other.hike.slug)) return other.hike.slug;
+  }
+  return null;
+}
+
+/**
+ * Hang variants of variants on the root route, dropping any that loop back
+ * on themselves.
+ */
+function resolveRoots(found: Map<string, Found>) {
+  const root = (slug: string): string | null => {
+    let current = slug;
+    for (let depth = 0; depth < MAX_DEPTH; depth++) {
+      const parent = found.get(current)?.parents[0];
+      if (!parent) return current;
+      current = parent;
+    }
+    return null;
+  };
+
+  for (const [slug, entry] of [...found]) {
+    const parents = [...new Set(entry.parents.map(root))].filter((p) => p !== null && p !== slug);
+    if (parents.length === 0) found.delete(slug);
+    else found.set(slug, { ...entry, parents: parents as string[] });
+  }
+}
+
+function relationFields(entry: Found | undefined): Partial<Hike> {
+  if (!entry) return {};
+  const fields: Partial<Hike> = { variant_source: entry.source };
+  if (entry.relation === 'link_between') fields.link_between = entry.parents;
+  else fields[entry.relation] = entry.parents[0];
+  return fields;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function main() {
+  const all = readAllHikes();
+  const candidates = all.filter((hike) => !hike.retired && !hike.duplicate_of);
+  const routes = readRoutes(candidates);
+  const index = new RouteIndex([...routes.values()]);
+  console.log(`Loaded geometry for ${index.routes.filter((r) => r.trace).length} of ${routes.size} hikes`);
+
+  const found = new Map<string, Found>();
+  for (const route of index.routes) {
+    const entry = findVariant(route, index);
+    if (entry) found.set(route.hike.slug, entry);
+  }
+  for (const [slug, entry] of found) {
+    if (entry.relation !== 'link_between') continue;
+    const other = otherLinkEnd(routes.get(slug)!, entry, index);
+    if (other) entry.parents.push(other);
+  }
+  resolveRoots(found);
+
+  const bySlug = new Map(all.map((hike) => [hike.slug, hike]));
+  const variantsOf = new Map<string, VariantLink[]>();
+  for (const [slug, entry] of found) {
+    const hike = bySlug.get(slug)!;
+    for (const parent of entry.parents) {
+      const list = variantsOf.get(parent) ?? [];
+      list.push({ slug, name: hike.name, relation: entry.relation, distance_km: hike.distance_km });
+      variantsOf.set(parent, list);
+    }
+  }
+  for (const list of variantsOf.values()) {
+    list.sort(
+      (a, b) =>
+        VARIANT_RELATIONS.indexOf(a.relation) - VARIANT_RELATIONS.indexOf(b.relation) ||
+        a.name.localeCompare(b.name)
+    );
+  }
+
+  let updated = 0;
+  for (const hike of all) {
+    const next: Hike = { ...hike };
+    for (const field of FIELDS) delete next[field];
+    Object.assign(next, relationFields(found.get(hike.slug)));
+    const variants = variantsOf.get(hike.slug);
+    if (variants) next.variants = variants;
+
+    if (FIELDS.every((field) => sameJson(hike[field], next[field]))) continue;
+    writeHike(next);
+    updated++;
+  }
+
+  const byRelation = Object.fromEntries(VARIANT_RELATIONS.map((r) => [r, 0]));
+  const bySource: Record<Source, number> = { osm: 0, name: 0, geometry: 0 };
+  for (const entry of found.values()) {
+    byRelation[entry.relation]++;
+    bySource[entry.source]++;
+  }
+
+  fs.mkdirSync(REPORT_DIR, { recursive: true });
+  const reportFile = path.join(REPORT_DIR, 'variants.json');
+  fs.writeFileSync(
+    reportFile,
+    JSON.stringify(
+      {
+        generated_at: new Date().toISOString(),
+        variants: [...found]
+          .map(([slug, entry]) => ({ slug, ...entry }))
+          .sort((a, b) => a.parents[0].localeCompare(b.parents[0]) || a.slug.localeCompare(b.slug)),
+      },
+      null,
+      2
+    ),
+    'utf8'
+  );
+
+  console.log('--------------------------------------------');
+  console.log(`Variants found       : ${found.size}`);
+  for (const relation of VARIANT_RELATIONS) {
+    console.log(`  ${relation.padEnd(19)}: ${byRelation[relation]}`);
+  }
+  console.log(`From OSM tags        : ${bySource.osm}`);
+  console.log(`From names           : ${bySource.name}`);
+  console.log(`From geometry        : ${bySource.geometry}`);
+  console.log(`Routes with variants : ${variantsOf.size}`);
+  console.log(`Hikes updated        : ${updated}`);
+  console.log(`Report               : ${reportFile}`);
+  console.log('--------------------------------------------');
+}
+
+main();
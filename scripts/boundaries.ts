@@ -0,0 +1,150 @@
+// scripts/boundaries.ts
+//
+// Point-in-polygon lookups against local boundary GeoJSON (countries,
+// counties / unitary authorities, National Parks, National Landscapes).
+// Files are read from BOUNDARIES_DIR (default data/boundaries) and must be
+// WGS84 lon/lat, as GeoJSON requires; any layer that is missing is skipped.
+//
+// Boundary polygons are large (tens of thousands of vertices), so each
+// polygon's edges are bucketed into horizontal strips and a ray-casting test
+// only looks at the edges in the point's strip.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { AreaKind } from './hike-types';
+import type { LonLat } from './geo';
+
+export const BOUNDARIES_DIR = path.resolve(
+  process.env.BOUNDARIES_DIR ?? path.join(process.cwd(), 'data', 'boundaries')
+);
+
+// Layer files, tried in order; the first one present is used.
+const LAYER_FILES: Record<AreaKind, string[]> = {
+  country: ['countries.geojson'],
+  county: ['counties.geojson', 'local-authorities.geojson'],
+  national_park: ['national-parks.geojson'],
+  national_landscape: ['national-landscapes.geojson', 'aonb.geojson'],
+};
+
+// Property names holding the area name. ONS / Natural England downloads use
+// codes like CTRY23NM or CTYUA23NM, so anything ending in "NM" also counts.
+const NAME_PROPERTIES = ['name', 'NAME', 'Name', 'name_en'];
+
+const STRIP_DEG = 0.01;
+
+type Ring = LonLat[];
+
+type Edge = [number, number, number, number]; // x1, y1, x2, y2
+
+export type Area = {
+  kind: AreaKind;
+  name: string;
+  bbox: [number, number, number, number];
+  strips: Map<number, Edge[]>;
+};
+
+type GeoJsonGeometry =
+  | { type: 'Polygon'; coordinates: Ring[] }
+  | { type: 'MultiPolygon'; coordinates: Ring[][] };
+
+type GeoJsonFeature = {
+  properties?: Record<string, unknown> | null;
+  geometry?: GeoJsonGeometry | { type: string } | null;
+};
+
+function featureName(props: Record<string, unknown> | null | undefined): string | null {
+  if (!props) return null;
+  for (const key of NAME_PROPERTIES) {
+    if (typeof props[key] === 'string' && props[key]) return props[key] as string;
+  }
+  for (const [key, value] of Object.entries(props)) {
+    if (/NM$/.test(key) && typeof value === 'string' && value) return value;
+  }
+  return null;
+}
+
+function polygonRings(geometry: GeoJsonFeature['geometry']): Ring[] {
+  if (!geometry) return [];
+  if (geometry.type === 'Polygon') return (geometry as { coordinates: Ring[] }).coordinates;
+  if (geometry.type === 'MultiPolygon') {
+    return (geometry as { coordinates: Ring[][] }).coordinates.flat();
+  }
+  return [];
+}
+
+function buildArea(kind: AreaKind, name: string, rings: Ring[]): Area {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const strips = new Map<number, Edge[]>();
+
+  // Holes and separate polygons are just more edges: the even-odd rule
+  // handles both.
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length; i++) {
+      const [x1, y1] = ring[i];
+      const [x2, y2] = ring[(i + 1) % ring.length];
+      minX = Math.min(minX, x1);
+      maxX = Math.max(maxX, x1);
+      minY = Math.min(minY, y1);
+      maxY = Math.max(maxY, y1);
+      if (y1 === y2) continue;
+
+      const from = Math.floor(Math.min(y1, y2) / STRIP_DEG);
+      const to = Math.floor(Math.max(y1, y2) / STRIP_DEG);
+      for (let s = from; s <= to; s++) {
+        const list = strips.get(s);
+        if (list) list.push([x1, y1, x2, y2]);
+        else strips.set(s, [[x1, y1, x2, y2]]);
+      }
+    }
+  }
+
+  return { kind, name, bbox: [minX, minY, maxX, maxY], strips };
+}
+
+export function areaContains(area: Area, [x, y]: LonLat): boolean {
+  const [minX, minY, maxX, maxY] = area.bbox;
+  if (x < minX || x > maxX || y < minY || y > maxY) return false;
+
+  let inside = false;
+  for (const [x1, y1, x2, y2] of area.strips.get(Math.floor(y / STRIP_DEG)) ?? []) {
+    if (y1 > y === y2 > y) continue;
+    const xCross = x1 + ((y - y1) / (y2 - y1)) * (x2 - x1);
+    if (x < xCross) inside = !inside;
+  }
+  return inside;
+}
+
+function readLayer(kind: AreaKind, dir: string): Area[] | null {
+  const file = LAYER_FILES[kind].map((f) => path.join(dir, f)).find((f) => fs.existsSync(f));
+  if (!file) return null;
+
+  const json = JSON.parse(fs.readFileSync(file, 'utf8')) as { features?: GeoJsonFeature[] };
+  const areas: Area[] = [];
+  for (const feature of json.features ?? []) {
+    const name = featureName(feature.properties);
+    const rings = polygonRings(feature.geometry);
+    if (!name || rings.length === 0) continue;
+    areas.push(buildArea(kind, name, rings));
+  }
+  return areas;
+}
+
+/**
+ * Load every available boundary layer. Layers without a file are absent
+ * from the result.
+ */
+export function loadBoundaries(dir = BOUNDARIES_DIR): Partial<Record<AreaKind, Area[]>> {
+  const layers: Partial<Record<AreaKind, Area[]>> = {};
+  for (const kind of Object.keys(LAYER_FILES) as AreaKind[]) {
+    const areas = readLayer(kind, dir);
+    if (areas) layers[kind] = areas;
+  }
+  return layers;
+}
+
+export function areasAt(areas: Area[], point: LonLat): Area[] {
+  return areas.filter((area) => areaContains(area, point));
+}
@@ -0,0 +1,258 @@
+// scripts/compute-elevation.ts
+//
+// Samples every route against local DEM tiles (SRTM or OS Terrain 50
+// GeoTIFFs in DEM_DIR, default data/dem) and writes ascent_m, descent_m and an
+// `elevation` block (min/max altitude + downsampled profile) into
+// data/hikes/<slug>.json.
+//
+// Runs fully offline. Hikes outside the available tiles are left alone, and
+// partly covered hikes record their `coverage` so they can be recomputed
+// once more tiles are added (HIKES_ELEVATION_ALL=true).
+//
+// Run after hikes:normalise (normalise rewrites the hike files).
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { haversineKm, LonLat } from './geo';
+import { readHike, writeHike } from './hike-store';
+import { Hike, HikeElevation, RawOsmHike } from './hike-types';
+import { openDemSampler, DemSampler } from './dem';
+import { rawHikeSegments } from './osm-geometry';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+const DEM_DIR = path.resolve(process.env.DEM_DIR ?? path.join(ROOT, 'data', 'dem'));
+
+// By default hikes that already have an `elevation` block are skipped.
+const ELEVATION_ALL = process.env.HIKES_ELEVATION_ALL === 'true';
+
+// Distance between elevation samples along the route. Finer than this adds
+// nothing on a 30–50 m DEM.
+const SAMPLE_SPACING_KM = 0.025;
+
+// Moving-average window (in samples) applied before summing climbs, to stop
+// DEM noise inflating ascent on flat ground.
+const SMOOTHING_WINDOW = 5;
+
+// Height change needed before a climb or drop is counted.
+const CLIMB_THRESHOLD_M = 3;
+
+// Maximum number of points stored in the profile.
+const PROFILE_POINTS = 200;
+
+type Sample = {
+  distanceKm: number; // walked distance from the start, gaps excluded
+  elevation: number | null;
+};
+
+/**
+ * Points every SAMPLE_SPACING_KM along each segment (plus each segment's
+ * end), tagged with walked distance from the start and segment index.
+ */
+function resample(segments: LonLat[][]): { point: LonLat; distanceKm: number; run: number }[] {
+  const out: { point: LonLat; distanceKm: number; run: number }[] = [];
+  let walked = 0;
+
+  segments.forEach((coords, run) => {
+    if (coords.length === 0) return;
+    out.push({ point: coords[0], distanceKm: walked, run });
+    let nextAt = walked + SAMPLE_SPACING_KM;
+
+    for (let i = 1; i < coords.length; i++) {
+      const a = coords[i - 1];
+      const b = coords[i];
+      const len = haversineKm(a, b);
+      if (len === 0) continue;
+
+      while (nextAt <= walked + len) {
+        const t = (nextAt - walked) / len;
+        out.push({
+          point: [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t],
+          distanceKm: nextAt,
+          run,
+        });
+        nextAt += SAMPLE_SPACING_KM;
+      }
+      walked += len;
+    }
+
+    const end = coords[coords.length - 1];
+    if (out[out.length - 1].distanceKm < walked) out.push({ point: end, distanceKm: walked, run });
+  });
+
+  return out;
+}
+
+/**
+ * Split samples into runs of consecutive known elevations. A run also ends
+ * at a gap in the route geometry, so climbs are never measured across one.
+ */
+function splitRuns(samples: (Sample & { run: number })[]): Sample[][] {
+  const runs: Sample[][] = [];
+  let current: Sample[] = [];
+  let currentRun = -1;
+
+  for (const s of samples) {
+    if (s.elevation === null || s.run !== currentRun) {
+      if (current.length > 0) runs.push(current);
+      current = [];
+      currentRun = s.run;
+    }
+    if (s.elevation !== null) current.push(s);
+  }
+  if (current.length > 0) runs.push(current);
+  return runs;
+}
+
+// Centred moving average; the window narrows towards the ends so the first
+// and last heights are kept as measured.
+function smooth(values: number[]): number[] {
+  return values.map((_, i) => {
+    const half = Math.min(Math.floor(SMOOTHING_WINDOW / 2), i, values.length - 1 - i);
+    const from = i - half;
+    const to = i + half + 1;
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += values[j];
+    return sum / (to - from);
+  });
+}
+
+function climbTotals(values: number[]): { ascent: number; descent: number } {
+  let ascent = 0;
+  let descent = 0;
+  let ref = values[0];
+
+  for (const v of values) {
+    if (v - ref >= CLIMB_THRESHOLD_M) {
+      ascent += v - ref;
+      ref = v;
+    } else if (ref - v >= CLIMB_THRESHOLD_M) {
+      descent += ref - v;
+      ref = v;
+    }
+  }
+  return { ascent, descent };
+}
+
+function downsampleProfile(samples: Sample[]): [number, number][] {
+  const known = samples.filter((s) => s.elevation !== null);
+  const step = Math.max(1, (known.length - 1) / (PROFILE_POINTS - 1));
+  const profile: [number, number][] = [];
+
+  for (let i = 0; i < known.length; i += step) {
+    const s = known[Math.round(i)];
+    profile.push([Math.round(s.distanceKm * 100) / 100, Math.round(s.elevation!)]);
+  }
+  const last = known[known.length - 1];
+  if (profile[profile.length - 1][0] !== Math.round(last.distanceKm * 100) / 100) {
+    profile.push([Math.round(last.distanceKm * 100) / 100, Math.round(last.elevation!)]);
+  }
+  return profile;
+}
+
+async function computeElevation(
+  segments: LonLat[][],
+  dem: DemSampler
+): Promise<{ ascent_m: number; descent_m: number; elevation: HikeElevation } | null> {
+  const points = resample(segments);
+  const samples: (Sample & { run: number })[] = [];
+  for (const p of points) {
+    samples.push({ distanceKm: p.distanceKm, elevation: await dem.elevationAt(p.point), run: p.run });
+  }
+
+  const known = samples.filter((s) => s.elevation !== null).length;
+  if (known === 0) return null;
+
+  let ascent = 0;
+  let descent = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const run of splitRuns(samples)) {
+    const values = run.map((s) => s.elevation!);
+    const totals = climbTotals(smooth(values));
+    ascent += totals.ascent;
+    descent += totals.descent;
+    for (const v of values) {
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+  }
+
+  return {
+    ascent_m: Math.round(ascent),
+    descent_m: Math.round(descent),
+    elevation: {
+      min_m: Math.round(min),
+      max_m: Math.round(max),
+      coverage: Math.round((known / samples.length) * 1000) / 1000,
+      profile: downsampleProfile(samples),
+    },
+  };
+}
+
+async function main() {
+  if (!fs.existsSync(RAW_DIR)) {
+    console.error(`Raw OSM dir missing: ${RAW_DIR}`);
+    process.exit(1);
+  }
+
+  const dem = await openDemSampler(DEM_DIR);
+  if (dem.tileCount === 0) {
+    console.warn(`No DEM tiles found in ${DEM_DIR} – skipping elevation.`);
+    return;
+  }
+  console.log(`Loaded ${dem.tileCount} DEM tiles from ${DEM_DIR}`);
+
+  const files = fs.readdirSync(RAW_DIR).filter((f) => f.endsWith('.json'));
+
+  let updated = 0;
+  let partial = 0;
+  let skippedExisting = 0;
+  let skippedNoHike = 0;
+  let noCoverage = 0;
+
+  for (const file of files) {
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const hike = readHike(raw.slug);
+    if (!hike || hike.retired) {
+      skippedNoHike++;
+      continue;
+    }
+    if (hike.elevation && !ELEVATION_ALL) {
+      skippedExisting++;
+      continue;
+    }
+
+    const segments = rawHikeSegments(raw).filter((s) => s.length >= 2);
+    const result = segments.length > 0 ? await computeElevation(segments, dem) : null;
+    if (!result) {
+      noCoverage++;
+      continue;
+    }
+
+    const next: Hike = { ...hike, ...result };
+    writeHike(next);
+    updated++;
+    if (result.elevation.coverage < 1) partial++;
+
+    if (updated % 200 === 0) {
+      console.log(`Computed elevation for ${updated} hikes...`);
+    }
+  }
+
+  dem.close();
+
+  console.log('--------------------------------------------');
+  console.log(`Hikes updated        : ${updated}`);
+  console.log(`  with partial DEM   : ${partial}`);
+  console.log(`Skipped (done)       : ${skippedExisting}`);
+  console.log(`Skipped (no hike)    : ${skippedNoHike}`);
+  console.log(`No DEM coverage      : ${noCoverage}`);
+  console.log(`DEM directory        : ${DEM_DIR}`);
+  console.log('--------------------------------------------');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
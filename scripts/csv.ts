@@ -0,0 +1,74 @@
+// scripts/csv.ts
+//
+// Streaming CSV reader for the large open-data downloads (NaPTAN, postcode
+// directories). Handles quoted fields, doubled quotes and line breaks inside
+// quotes; rows come back keyed by header name.
+
+import fs from 'node:fs';
+import readline from 'node:readline';
+
+/**
+ * Split one CSV record into fields. Returns null when the record is
+ * unfinished (a quoted field runs on to the next line).
+ */
+export function parseCsvRecord(text: string): string[] | null {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else field += ch;
+  }
+
+  if (quoted) return null;
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Stream the rows of a CSV file with a header row, as objects keyed by the
+ * (trimmed) header names. Files without a header row (OS Open Names) take
+ * the names as `columns` instead.
+ */
+export async function* readCsv(file: string, columns?: string[]): AsyncGenerator<Record<string, string>> {
+  const rl = readline.createInterface({
+    input: fs.createReadStream(file, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  let headers: string[] | null = columns ?? null;
+  let pending = '';
+
+  for await (const line of rl) {
+    const text = pending ? `${pending}\n${line}` : line.replace(/^\uFEFF/, '');
+    const fields = parseCsvRecord(text);
+    if (!fields) {
+      pending = text;
+      continue;
+    }
+    pending = '';
+    if (!text.trim()) continue;
+
+    if (!headers) {
+      headers = fields.map((h) => h.trim());
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((h, i) => {
+      row[h] = (fields[i] ?? '').trim();
+    });
+    yield row;
+  }
+}
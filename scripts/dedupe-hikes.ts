@@ -0,0 +1,301 @@
+// scripts/dedupe-hikes.ts
+//
+// Finds hikes that are the same route mapped more than once (OSM often has
+// a relation per direction, or a copy made by a different mapper). Hikes
+// starting within CANDIDATE_KM of each other's start or end are compared
+// by name and geometry (see route-similarity.ts):
+//
+//   duplicate       a similar name with the same variant words, a similar
+//                   length and Hausdorff ≤ SAME_ROUTE_KM (every point of each
+//                   route is on the other), or a near-identical name and
+//                   either Fréchet ≤ SAME_NAME_FRECHET_KM or the same start
+//                   with the shorter route lying along the longer (an
+//                   incomplete copy)
+//   near-duplicate  Hausdorff ≤ NEAR_KM, or (for hand-written hikes with no
+//                   geometry) a near-identical name, start and length
+//
+// Lengths are compared both as mapped and, where both relations have one,
+// by their `distance` tags: two routes mapped only as far as a shared stub
+// look the same length but say otherwise.
+//
+// Duplicates are grouped into clusters; every hike but the cluster's
+// canonical one gets `duplicate_of`, which hides it from listings.
+// Near-duplicates are only suggested, in HIKES_REPORT_DIR/duplicates.json.
+//
+// Run after hikes:normalise. Each run recomputes every cluster, so a
+// `duplicate_of` that no longer applies is removed.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { haversineKm, LonLat } from './geo';
+import { readAllHikes, writeHike } from './hike-store';
+import { Hike, RawOsmHike } from './hike-types';
+import { parseDistanceTag, rawHikeSegments } from './osm-geometry';
+import { buildPointGrid } from './point-grid';
+import {
+  directedHausdorffKm,
+  frechetKm,
+  hausdorffKm,
+  nameSimilarity,
+  routeTrace,
+  RouteTrace,
+  variantWords,
+} from './route-similarity';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+const REPORT_DIR = path.resolve(
+  process.env.HIKES_REPORT_DIR ?? path.join(ROOT, 'data', 'reports')
+);
+
+// Only hikes whose starts or ends are this close are compared.
+const CANDIDATE_KM = 1;
+
+// Name similarity (0–1) thresholds.
+const SIMILAR_NAME = 0.5;
+const SAME_NAME = 0.8;
+
+const SAME_ROUTE_KM = 0.1;
+const SAME_NAME_FRECHET_KM = 0.25;
+const SAME_NAME_PART_KM = 0.1;
+const SAME_START_KM = 0.5;
+const NEAR_KM = 0.5;
+
+// Longest to shortest length for routes to count as the same length.
+const SAME_LENGTH_RATIO = 1.2;
+
+// A route trace with the km from its relation's `distance` tag, if any.
+type HikeTrace = RouteTrace & { taggedKm: number | null };
+
+type Pair = {
+  a: string;
+  b: string;
+  start_km: number;
+  name_similarity: number;
+  hausdorff_km?: number;
+  frechet_km?: number;
+  part_km?: number; // how far the shorter route strays from the longer
+};
+
+type Cluster = {
+  canonical: string;
+  duplicates: string[];
+  pairs: Pair[];
+};
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+function readTraces(slugs: Set<string>): Map<string, HikeTrace> {
+  const traces = new Map<string, HikeTrace>();
+  if (!fs.existsSync(RAW_DIR)) return traces;
+
+  for (const file of fs.readdirSync(RAW_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    if (!slugs.has(raw.slug)) continue;
+    const segments = rawHikeSegments(raw).filter((s) => s.length >= 2);
+    if (segments.length > 0) {
+      traces.set(raw.slug, { ...routeTrace(segments), taggedKm: parseDistanceTag(raw.tags?.distance) });
+    }
+  }
+  return traces;
+}
+
+function sameLength(a: number, b: number): boolean {
+  return Math.max(a, b) / Math.max(0.1, Math.min(a, b)) <= SAME_LENGTH_RATIO;
+}
+
+function lonLat(point: { lat: number; lon: number }): LonLat {
+  return [point.lon, point.lat];
+}
+
+/**
+ * Pairs of hikes that start within CANDIDATE_KM of each other's start or
+ * end, each pair once.
+ */
+function candidatePairs(hikes: Hike[]): [Hike, Hike][] {
+  const ends = hikes.flatMap((hike) => [
+    { hike, pos: lonLat(hike.start) },
+    ...(hike.end ? [{ hike, pos: lonLat(hike.end) }] : []),
+  ]);
+  const grid = buildPointGrid(ends, (e) => e.pos);
+
+  const seen = new Set<string>();
+  const pairs: [Hike, Hike][] = [];
+  for (const hike of hikes) {
+    for (const { item } of grid.within(lonLat(hike.start), CANDIDATE_KM)) {
+      const other = item.hike;
+      if (other.slug === hike.slug) continue;
+      const [a, b] = hike.slug < other.slug ? [hike, other] : [other, hike];
+      const key = `${a.slug}|${b.slug}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      pairs.push([a, b]);
+    }
+  }
+  return pairs;
+}
+
+function compare(
+  a: Hike,
+  b: Hike,
+  traces: Map<string, HikeTrace>
+): { pair: Pair; kind: 'duplicate' | 'near' } | null {
+  const pair: Pair = {
+    a: a.slug,
+    b: b.slug,
+    start_km: round(haversineKm(lonLat(a.start), lonLat(b.start))),
+    name_similarity: round(nameSimilarity(a.name, b.name)),
+  };
+
+  const ta = traces.get(a.slug);
+  const tb = traces.get(b.slug);
+  if (!ta || !tb) {
+    const near =
+      pair.name_similarity >= SAME_NAME &&
+      pair.start_km <= SAME_START_KM &&
+      sameLength(a.distance_km, b.distance_km);
+    return near ? { pair, kind: 'near' } : null;
+  }
+
+  // "X" and "X Link", or "Section 6" and "Section 7", share most words but
+  // aren't the same route.
+  const sameVariant = variantWords(a.name).join() === variantWords(b.name).join();
+  const sameName = pair.name_similarity >= SAME_NAME && sameVariant;
+  const similarLength =
+    sameLength(ta.lengthKm, tb.lengthKm) &&
+    (ta.taggedKm === null || tb.taggedKm === null || sameLength(ta.taggedKm, tb.taggedKm));
+  const hausdorff = hausdorffKm(ta, tb, NEAR_KM);
+  const [shorter, longer] = ta.lengthKm <= tb.lengthKm ? [ta, tb] : [tb, ta];
+  const part = sameName ? directedHausdorffKm(shorter, longer, NEAR_KM) : Infinity;
+  if (hausdorff === Infinity && part === Infinity) return null;
+
+  const frechet = hausdorff === Infinity ? Infinity : frechetKm(ta, tb);
+  if (hausdorff !== Infinity) {
+    pair.hausdorff_km = round(hausdorff);
+    pair.frechet_km = round(frechet);
+  }
+  if (part !== Infinity) pair.part_km = round(part);
+
+  const sameRoute =
+    pair.name_similarity >= SIMILAR_NAME && sameVariant && similarLength && hausdorff <= SAME_ROUTE_KM;
+  const duplicate =
+    sameRoute ||
+    (sameName && frechet <= SAME_NAME_FRECHET_KM) ||
+    (sameName && pair.start_km <= SAME_START_KM && part <= SAME_NAME_PART_KM);
+  return { pair, kind: duplicate ? 'duplicate' : 'near' };
+}
+
+/**
+ * Which copy to keep: hand-written over OSM, then enriched over not, then
+ * the longer (an incomplete copy is shorter), then the oldest relation
+ * (lowest id), which is usually the original.
+ */
+function canonicalOrder(a: Hike, b: Hike): number {
+  const manual = (h: Hike) => (h.source.type === 'manual' ? 0 : 1);
+  const enriched = (h: Hike) => (h.ai ? 0 : 1);
+  const osmId = (h: Hike) => (h.source.type === 'osm' ? h.source.osm_id : 0);
+  return (
+    manual(a) - manual(b) ||
+    enriched(a) - enriched(b) ||
+    Math.round(b.distance_km) - Math.round(a.distance_km) ||
+    osmId(a) - osmId(b) ||
+    a.slug.localeCompare(b.slug)
+  );
+}
+
+function buildClusters(hikes: Map<string, Hike>, pairs: Pair[]): Cluster[] {
+  // Union–find over slugs.
+  const parent = new Map<string, string>();
+  const find = (s: string): string => {
+    const p = parent.get(s) ?? s;
+    if (p === s) return s;
+    const root = find(p);
+    parent.set(s, root);
+    return root;
+  };
+  for (const { a, b } of pairs) parent.set(find(a), find(b));
+
+  const members = new Map<string, string[]>();
+  for (const slug of new Set(pairs.flatMap((p) => [p.a, p.b]))) {
+    const root = find(slug);
+    members.set(root, [...(members.get(root) ?? []), slug]);
+  }
+
+  return [...members.values()].map((slugs) => {
+    const [canonical, ...duplicates] = slugs
+      .map((s) => hikes.get(s)!)
+      .sort(canonicalOrder)
+      .map((h) => h.slug);
+    const inCluster = new Set(slugs);
+    return {
+      canonical,
+      duplicates,
+      pairs: pairs.filter((p) => inCluster.has(p.a)),
+    };
+  });
+}
+
+function main() {
+  const all = readAllHikes();
+  const hikes = all.filter((hike) => !hike.retired);
+  const bySlug = new Map(hikes.map((hike) => [hike.slug, hike]));
+
+  const traces = readTraces(new Set(bySlug.keys()));
+  console.log(`Loaded geometry for ${traces.size} of ${hikes.length} hikes`);
+
+  const duplicatePairs: Pair[] = [];
+  const nearPairs: Pair[] = [];
+  const candidates = candidatePairs(hikes);
+  for (const [a, b] of candidates) {
+    const result = compare(a, b, traces);
+    if (result?.kind === 'duplicate') duplicatePairs.push(result.pair);
+    else if (result) nearPairs.push(result.pair);
+  }
+
+  const clusters = buildClusters(bySlug, duplicatePairs);
+  const duplicateOf = new Map<string, string>();
+  for (const cluster of clusters) {
+    for (const slug of cluster.duplicates) duplicateOf.set(slug, cluster.canonical);
+  }
+
+  let marked = 0;
+  let cleared = 0;
+  for (const hike of all) {
+    const want = duplicateOf.get(hike.slug);
+    if (hike.duplicate_of === want) continue;
+    if (want) marked++;
+    else cleared++;
+    const next: Hike = { ...hike, duplicate_of: want };
+    if (!want) delete next.duplicate_of;
+    writeHike(next);
+  }
+
+  fs.mkdirSync(REPORT_DIR, { recursive: true });
+  const reportFile = path.join(REPORT_DIR, 'duplicates.json');
+  fs.writeFileSync(
+    reportFile,
+    JSON.stringify(
+      {
+        generated_at: new Date().toISOString(),
+        clusters: clusters.sort((a, b) => a.canonical.localeCompare(b.canonical)),
+        near_duplicates: nearPairs.sort((a, b) => a.a.localeCompare(b.a)),
+      },
+      null,
+      2
+    ),
+    'utf8'
+  );
+
+  console.log('--------------------------------------------');
+  console.log(`Pairs compared       : ${candidates.length}`);
+  console.log(`Duplicate clusters   : ${clusters.length}`);
+  console.log(`Hikes hidden         : ${duplicateOf.size}`);
+  console.log(`  newly marked       : ${marked}`);
+  console.log(`  no longer dupes    : ${cleared}`);
+  console.log(`Near-duplicates      : ${nearPairs.length} (suggestions only)`);
+  console.log(`Report               : ${reportFile}`);
+  console.log('--------------------------------------------');
+}
+
+main();
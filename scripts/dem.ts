@@ -0,0 +1,223 @@
+// scripts/dem.ts
+//
+// Elevation lookups against a local directory of DEM GeoTIFF tiles. Both
+// SRTM-style tiles (EPSG:4326, degrees) and OS Terrain 50 (EPSG:27700,
+// metres) are understood; tiles in any other CRS are skipped with a warning.
+//
+// Only tile headers are read up front. Rasters are loaded on first use and
+// kept in a small cache, so a full-UK tile set doesn't have to fit in
+// memory. Points outside every tile (or on no-data cells) simply return
+// null – the elevation stage must work with partial or no coverage.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fromFile } from 'geotiff';
+import { LonLat, toBritishNationalGrid } from './geo';
+
+type DemCrs = 'wgs84' | 'osgb';
+
+type Raster = ArrayLike<number>;
+
+type DemTile = {
+  file: string;
+  crs: DemCrs;
+  // Grid position of pixel (0,0)'s centre, and the step per pixel.
+  originX: number;
+  originY: number;
+  resX: number;
+  resY: number; // negative for north-up rasters
+  width: number;
+  height: number;
+  bbox: [number, number, number, number]; // minX, minY, maxX, maxY in tile CRS
+  noData: number | null;
+};
+
+export interface DemSampler {
+  tileCount: number;
+  elevationAt(point: LonLat): Promise<number | null>;
+  close(): void;
+}
+
+// GeoKey values we recognise.
+const EPSG_WGS84 = 4326;
+const EPSG_BNG = 27700;
+const RASTER_PIXEL_IS_POINT = 2;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+
+// SRTM void value, used when a tile has no GDAL_NODATA tag.
+const SRTM_VOID = -32768;
+
+function tileCrs(geoKeys: Record<string, unknown> | null): DemCrs | null {
+  if (!geoKeys) return null;
+  if (geoKeys.ProjectedCSTypeGeoKey === EPSG_BNG) return 'osgb';
+  if (geoKeys.ProjectedCSTypeGeoKey) return null;
+  if (
+    geoKeys.GeographicTypeGeoKey === EPSG_WGS84 ||
+    geoKeys.GTModelTypeGeoKey === MODEL_TYPE_GEOGRAPHIC
+  ) {
+    return 'wgs84';
+  }
+  return null;
+}
+
+async function readTileHeader(file: string): Promise<DemTile | null> {
+  const tiff = await fromFile(file);
+  try {
+    const image = await tiff.getImage();
+    const geoKeys = image.getGeoKeys() as Record<string, unknown> | null;
+    const crs = tileCrs(geoKeys);
+    if (!crs) {
+      console.warn(`Skipping DEM tile with unsupported CRS: ${file}`);
+      return null;
+    }
+
+    const [originX, originY] = image.getOrigin();
+    const [resX, resY] = image.getResolution();
+    // getOrigin() is the outer corner of pixel (0,0); shift to its centre
+    // unless the tile declares point-registered pixels (common for SRTM).
+    const half = geoKeys?.GTRasterTypeGeoKey === RASTER_PIXEL_IS_POINT ? 0 : 0.5;
+    const [minX, minY, maxX, maxY] = image.getBoundingBox();
+
+    return {
+      file,
+      crs,
+      originX: originX + resX * half,
+      originY: originY + resY * half,
+      resX,
+      resY,
+      width: image.getWidth(),
+      height: image.getHeight(),
+      bbox: [minX, minY, maxX, maxY],
+      noData: image.getGDALNoData(),
+    };
+  } finally {
+    tiff.close();
+  }
+}
+
+async function readTileRaster(tile: DemTile): Promise<Raster> {
+  const tiff = await fromFile(tile.file);
+  try {
+    const image = await tiff.getImage();
+    const rasters = await image.readRasters({ samples: [0] });
+    return rasters[0] as Raster;
+  } finally {
+    tiff.close();
+  }
+}
+
+function contains(tile: DemTile, x: number, y: number): boolean {
+  const [minX, minY, maxX, maxY] = tile.bbox;
+  return x >= minX && x <= maxX && y >= minY && y <= maxY;
+}
+
+/**
+ * Bilinear interpolation between the four surrounding cells. No-data cells
+ * are left out and the remaining weights renormalised.
+ */
+function interpolate(tile: DemTile, raster: Raster, x: number, y: number): number | null {
+  const fx = Math.min(Math.max((x - tile.originX) / tile.resX, 0), tile.width - 1);
+  const fy = Math.min(Math.max((y - tile.originY) / tile.resY, 0), tile.height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, tile.width - 1);
+  const y1 = Math.min(y0 + 1, tile.height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const cells: [number, number, number][] = [
+    [x0, y0, (1 - tx) * (1 - ty)],
+    [x1, y0, tx * (1 - ty)],
+    [x0, y1, (1 - tx) * ty],
+    [x1, y1, tx * ty],
+  ];
+
+  let sum = 0;
+  let weight = 0;
+  for (const [cx, cy, w] of cells) {
+    const value = raster[cy * tile.width + cx];
+    if (!Number.isFinite(value) || value === tile.noData || value === SRTM_VOID) continue;
+    sum += value * w;
+    weight += w;
+  }
+  return weight > 0 ? sum / weight : null;
+}
+
+/**
+ * Open every .tif/.tiff under `dir` (recursively). A missing directory gives
+ * a sampler with no tiles rather than an error.
+ */
+export async function openDemSampler(dir: string, cacheSize = 16): Promise<DemSampler> {
+  const files: string[] = [];
+  const walk = (d: string) => {
+    for (const entry of fs.readdirSync(d, { withFileTypes: true })) {
+      const full = path.join(d, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (/\.tiff?$/i.test(entry.name)) files.push(full);
+    }
+  };
+  if (fs.existsSync(dir)) walk(dir);
+
+  const tiles: DemTile[] = [];
+  for (const file of files.sort()) {
+    try {
+      const tile = await readTileHeader(file);
+      if (tile) tiles.push(tile);
+    } catch (err) {
+      console.warn(`Skipping unreadable DEM tile ${file}:`, (err as Error).message);
+    }
+  }
+
+  // Insertion-ordered Map doubles as an LRU cache.
+  const rasters = new Map<DemTile, Raster | null>();
+  let lastTile: DemTile | null = null;
+
+  const rasterFor = async (tile: DemTile): Promise<Raster | null> => {
+    if (rasters.has(tile)) {
+      const cached = rasters.get(tile)!;
+      rasters.delete(tile);
+      rasters.set(tile, cached);
+      return cached;
+    }
+
+    let raster: Raster | null = null;
+    try {
+      raster = await readTileRaster(tile);
+    } catch (err) {
+      console.warn(`Failed to read DEM tile ${tile.file}:`, (err as Error).message);
+    }
+    rasters.set(tile, raster);
+    if (rasters.size > cacheSize) rasters.delete(rasters.keys().next().value!);
+    return raster;
+  };
+
+  const elevationAt = async (point: LonLat): Promise<number | null> => {
+    let bng: [number, number] | null = null;
+    const coordsFor = (tile: DemTile): [number, number] => {
+      if (tile.crs === 'wgs84') return point;
+      bng ??= toBritishNationalGrid(point);
+      return bng;
+    };
+
+    // Consecutive samples almost always fall in the same tile.
+    const candidates = lastTile ? [lastTile, ...tiles] : tiles;
+    for (const tile of candidates) {
+      const [x, y] = coordsFor(tile);
+      if (!contains(tile, x, y)) continue;
+
+      const raster = await rasterFor(tile);
+      if (!raster) continue;
+      const value = interpolate(tile, raster, x, y);
+      if (value === null) continue; // try an overlapping tile
+      lastTile = tile;
+      return value;
+    }
+    return null;
+  };
+
+  return {
+    tileCount: tiles.length,
+    elevationAt,
+    close: () => rasters.clear(),
+  };
+}
@@ -17,7 +17,10 @@ import fs from 'node:fs';
 import path from 'node:path';
 import OpenAI from 'openai';
 import { execSync } from 'node:child_process';
+import { isListed } from '../lib/hike-schema';
+import { HIKES_DIR, readAllHikes, writeHike } from './hike-store';
 import { Hike } from './hike-types';
+import { lastChangedAt, readArchivedChangelogs } from './osm-changelog';
 
 // ---------- API Key Check ----------
 if (!process.env.OPENAI_API_KEY) {
@@ -84,32 +87,35 @@ const DELAY_MS = getDelayMs();
 const CHECKPOINT_EVERY = getCheckpointEvery();
 const IS_CI = process.env.GITHUB_ACTIONS === 'true' || process.env.CI === 'true';
 
+// Hikes whose OSM relation changed after they were enriched (in any archived
+// scrape changelog) are re-enriched once, even if they already have an `ai`
+// block.
+const CHANGED_AT = lastChangedAt(readArchivedChangelogs());
+
 // ---------- Helpers ----------
-function readHikes() {
-  const dir = path.join(process.cwd(), 'data', 'hikes');
-  if (!fs.existsSync(dir)) {
-    console.error(`Hikes dir missing: ${dir}`);
+function readHikes(): Hike[] {
+  if (!fs.existsSync(HIKES_DIR)) {
+    console.error(`Hikes dir missing: ${HIKES_DIR}`);
     process.exit(1);
   }
-
-  const files = fs.readdirSync(dir).filter((f) => f.endsWith('.json'));
-  const hikes = files.map((file) => {
-    return JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as Hike;
-  });
-
-  return { hikes, dir };
-}
-
-function saveHike(dir: string, hike: Hike) {
-  fs.writeFileSync(path.join(dir, `${hike.slug}.json`), JSON.stringify(hike, null, 2), 'utf8');
+  return readAllHikes();
 }
 
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+function isStale(hike: Hike) {
+  if (!hike.ai || hike.source.type !== 'osm') return false;
+  const changedAt = CHANGED_AT.get(hike.source.osm_id);
+  if (!changedAt) return false;
+  return !hike.ai.generated_at || hike.ai.generated_at < changedAt;
+}
+
 function shouldSkip(hike: Hike) {
-  return !!(hike as any).ai;
+  // Duplicates and variants aren't listed, so aren't worth the tokens.
+  if (!isListed(hike)) return true;
+  return !!hike.ai && !isStale(hike);
 }
 
 function runGit(cmd: string) {
@@ -194,7 +200,7 @@ function tryCheckpointCommit(successCount: number) {
 
 // ---------- GPT-5 Nano Request ----------
 async function callOpenAIForHike(hike: Hike) {
-  const themes = (hike as any).themes ?? [];
+  const themes = hike.themes;
 
   const userPrompt = `
 Return ONLY valid JSON:
@@ -214,10 +220,10 @@ Return ONLY valid JSON:
 
 Hike details:
 Name: ${hike.name}
-Region: ${(hike as any).region ?? 'Unknown'}
-Country: ${(hike as any).country ?? 'Unknown'}
-Distance (km): ${(hike as any).distanceKm ?? 'Unknown'}
-Difficulty: ${(hike as any).difficulty ?? 'Unknown'}
+Region: ${hike.region}
+Country: ${hike.country}
+Distance (km): ${hike.distance_km}
+Difficulty: ${hike.difficulty}
 Themes: ${themes.length ? themes.join(', ') : 'none'}
   `.trim();
 
@@ -283,7 +289,7 @@ async function main() {
   ensureCsvHeader();
   configureGitIdentityIfNeeded();
 
-  const { hikes, dir } = readHikes();
+  const hikes = readHikes();
 
   const pending = hikes.filter((h) => !shouldSkip(h));
   const remaining = pending.length;
@@ -295,6 +301,7 @@ async function main() {
 
   console.log(`Total hikes: ${hikes.length}`);
   console.log(`Already enriched: ${hikes.length - remaining}`);
+  console.log(`Stale after OSM changes: ${hikes.filter(isStale).length}`);
   console.log(`Remaining: ${remaining}`);
   console.log(`This run will process up to: ${MAX_PER_RUN}\n`);
 
@@ -315,7 +322,8 @@ async function main() {
       const cost = estimateCost(inputTokens, outputTokens);
 
       // Save updated hike
-      saveHike(dir, { ...(hike as any), ai });
+      // Throws (and counts as a failure) if the model's JSON doesn't fit the schema.
+      writeHike({ ...hike, ai: { ...ai, generated_at: new Date().toISOString() } });
 
       // Update counters
       processed++;
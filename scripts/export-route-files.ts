@@ -0,0 +1,107 @@
+// scripts/export-route-files.ts
+//
+// Writes a GPX track and a GeoJSON feature for every scraped route into
+// public/, and points the matching data/hikes/<slug>.json at them via
+// `gpx_file` / `geojson_file` so the hike page can draw and offer the route.
+//
+// Run after hikes:normalise (normalise rewrites the hike files).
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { buildGpx, OSM_ATTRIBUTION, OSM_LICENSE, osmRelationUrl } from './gpx';
+import { readHike, writeHike } from './hike-store';
+import { Hike, RawOsmHike } from './hike-types';
+import { rawHikeSegments } from './osm-geometry';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+const GPX_DIR = path.join(ROOT, 'public', 'gpx');
+const GEOJSON_DIR = path.join(ROOT, 'public', 'geojson');
+
+function ensureDir(dir: string) {
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+}
+
+function describe(raw: RawOsmHike, hike: Hike | null): string {
+  return raw.tags.description || hike?.ai?.summary || '';
+}
+
+function buildGeoJson(raw: RawOsmHike, description: string) {
+  return {
+    type: 'Feature',
+    properties: {
+      name: raw.name,
+      description: description || undefined,
+      slug: raw.slug,
+      osm_id: raw.id,
+      source: osmRelationUrl(raw.id),
+      attribution: OSM_ATTRIBUTION,
+      license: OSM_LICENSE,
+    },
+    geometry: raw.geometry ?? { type: 'LineString', coordinates: raw.coordinates ?? [] },
+  };
+}
+
+function main() {
+  if (!fs.existsSync(RAW_DIR)) {
+    console.error(`Raw OSM dir missing: ${RAW_DIR}`);
+    process.exit(1);
+  }
+
+  ensureDir(GPX_DIR);
+  ensureDir(GEOJSON_DIR);
+
+  const files = fs.readdirSync(RAW_DIR).filter((f) => f.endsWith('.json'));
+
+  let written = 0;
+  let updatedHikes = 0;
+  let skippedNoCoords = 0;
+
+  for (const file of files) {
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const segments = rawHikeSegments(raw).filter((s) => s.length >= 2);
+    if (segments.length === 0) {
+      skippedNoCoords++;
+      continue;
+    }
+
+    const hike = readHike(raw.slug);
+    const description = describe(raw, hike);
+
+    fs.writeFileSync(
+      path.join(GPX_DIR, `${raw.slug}.gpx`),
+      buildGpx({ name: raw.name, description, osmId: raw.id }, segments),
+      'utf8'
+    );
+    fs.writeFileSync(
+      path.join(GEOJSON_DIR, `${raw.slug}.geojson`),
+      JSON.stringify(buildGeoJson(raw, description)),
+      'utf8'
+    );
+    written++;
+
+    if (hike) {
+      const updated: Hike = {
+        ...hike,
+        gpx_file: `/gpx/${raw.slug}.gpx`,
+        geojson_file: `/geojson/${raw.slug}.geojson`,
+      };
+      writeHike(updated);
+      updatedHikes++;
+    }
+
+    if (written % 500 === 0) {
+      console.log(`Wrote route files for ${written} hikes...`);
+    }
+  }
+
+  console.log('--------------------------------------------');
+  console.log(`Route files written  : ${written}`);
+  console.log(`Hike files updated   : ${updatedHikes}`);
+  console.log(`Skipped (no coords)  : ${skippedNoCoords}`);
+  console.log(`GPX directory        : ${GPX_DIR}`);
+  console.log(`GeoJSON directory    : ${GEOJSON_DIR}`);
+  console.log('--------------------------------------------');
+}
+
+main();
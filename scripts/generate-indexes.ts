@@ -1,23 +1,15 @@
 // scripts/generate-indexes.ts
 import fs from 'node:fs';
 import path from 'node:path';
-import { Hike } from './hike-types';
-
-function readHikes(): Hike[] {
-  const dir = path.join(process.cwd(), 'data', 'hikes');
-  const files = fs.readdirSync(dir).filter((f) => f.endsWith('.json'));
-  return files.map((file) => {
-    const full = path.join(dir, file);
-    return JSON.parse(fs.readFileSync(full, 'utf8')) as Hike;
-  });
-}
+import { isListed } from '../lib/hike-schema';
+import { readAllHikes } from './hike-store';
 
 function ensureDir(dir: string) {
   if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
 }
 
 function main() {
-  const hikes = readHikes();
+  const hikes = readAllHikes().filter(isListed);
   const base = path.join(process.cwd(), 'data', 'indexes');
   ensureDir(base);
 
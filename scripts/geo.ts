@@ -0,0 +1,187 @@
+// scripts/geo.ts
+//
+// Small geodesy helpers shared by the pipeline stages. Coordinates are
+// always [lon, lat] pairs, matching GeoJSON and RawOsmHike. The distance
+// itself lives in lib/geo.ts, as the app needs it too.
+
+import { haversineKm, LonLat } from '../lib/geo';
+
+export { haversineKm };
+export type { LonLat };
+
+export function lineLengthKm(coords: LonLat[]): number {
+  let dist = 0;
+  for (let i = 1; i < coords.length; i++) {
+    dist += haversineKm(coords[i - 1], coords[i]);
+  }
+  return dist;
+}
+
+/**
+ * The line's vertices plus points interpolated so that consecutive points
+ * are at most `spacingKm` apart.
+ */
+export function densify(coords: LonLat[], spacingKm: number): LonLat[] {
+  const out: LonLat[] = coords.length > 0 ? [coords[0]] : [];
+  for (let i = 1; i < coords.length; i++) {
+    const [ax, ay] = coords[i - 1];
+    const [bx, by] = coords[i];
+    const pieces = Math.ceil(haversineKm(coords[i - 1], coords[i]) / spacingKm);
+    for (let p = 1; p < pieces; p++) {
+      const t = p / pieces;
+      out.push([ax + (bx - ax) * t, ay + (by - ay) * t]);
+    }
+    out.push(coords[i]);
+  }
+  return out;
+}
+
+// ---- WGS84 <-> British National Grid ---------------------------------
+//
+// OS Terrain 50 and other OS products are gridded in EPSG:27700. This is the
+// standard Helmert + Transverse Mercator conversion from the OS guide "A
+// guide to coordinate systems in Great Britain"; it is accurate to a few
+// metres, which is plenty for sampling a 50 m DEM or placing a village.
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+const WGS84 = { a: 6378137, b: 6356752.3142 };
+const AIRY_1830 = { a: 6377563.396, b: 6356256.909 };
+
+// WGS84 -> OSGB36 Helmert parameters (metres, ppm, arc-seconds).
+const HELMERT = { tx: -446.448, ty: 125.157, tz: -542.06, s: 20.4894, rx: -0.1502, ry: -0.247, rz: -0.8421 };
+
+// National Grid projection constants.
+const NG = { f0: 0.9996012717, lat0: toRad(49), lon0: toRad(-2), e0: 400000, n0: -100000 };
+
+type Ellipsoid = { a: number; b: number };
+
+/**
+ * Move a position (radians) from one datum to the other: WGS84 -> OSGB36
+ * with `sign` 1, and back with -1.
+ */
+function helmert(lambda: number, phi: number, from: Ellipsoid, to: Ellipsoid, sign: 1 | -1): [number, number] {
+  const e2From = 1 - from.b ** 2 / from.a ** 2;
+  const nuFrom = from.a / Math.sqrt(1 - e2From * Math.sin(phi) ** 2);
+  const x1 = nuFrom * Math.cos(phi) * Math.cos(lambda);
+  const y1 = nuFrom * Math.cos(phi) * Math.sin(lambda);
+  const z1 = (1 - e2From) * nuFrom * Math.sin(phi);
+
+  const s = sign * HELMERT.s * 1e-6;
+  const arcsec = (sign * Math.PI) / (180 * 3600);
+  const rx = HELMERT.rx * arcsec;
+  const ry = HELMERT.ry * arcsec;
+  const rz = HELMERT.rz * arcsec;
+  const x2 = sign * HELMERT.tx + (1 + s) * x1 - rz * y1 + ry * z1;
+  const y2 = sign * HELMERT.ty + rz * x1 + (1 + s) * y1 - rx * z1;
+  const z2 = sign * HELMERT.tz - ry * x1 + rx * y1 + (1 + s) * z1;
+
+  const e2 = 1 - to.b ** 2 / to.a ** 2;
+  const p = Math.sqrt(x2 ** 2 + y2 ** 2);
+  let phi2 = Math.atan2(z2, p * (1 - e2));
+  for (let i = 0; i < 10; i++) {
+    const nu = to.a / Math.sqrt(1 - e2 * Math.sin(phi2) ** 2);
+    const next = Math.atan2(z2 + e2 * nu * Math.sin(phi2), p);
+    if (Math.abs(next - phi2) < 1e-12) break;
+    phi2 = next;
+  }
+
+  return [Math.atan2(y2, x2), phi2];
+}
+
+function toOsgb36(lon: number, lat: number): [number, number] {
+  return helmert(toRad(lon), toRad(lat), WGS84, AIRY_1830, 1);
+}
+
+// Distance along the central meridian from the true origin to latitude phi.
+function meridionalArc(phi: number): number {
+  const { a, b } = AIRY_1830;
+  const { f0, lat0 } = NG;
+  const n = (a - b) / (a + b);
+  const dPhi = phi - lat0;
+  const sPhi = phi + lat0;
+  return (
+    b *
+    f0 *
+    ((1 + n + (5 / 4) * n ** 2 + (5 / 4) * n ** 3) * dPhi -
+      (3 * n + 3 * n ** 2 + (21 / 8) * n ** 3) * Math.sin(dPhi) * Math.cos(sPhi) +
+      ((15 / 8) * n ** 2 + (15 / 8) * n ** 3) * Math.sin(2 * dPhi) * Math.cos(2 * sPhi) -
+      (35 / 24) * n ** 3 * Math.sin(3 * dPhi) * Math.cos(3 * sPhi))
+  );
+}
+
+/**
+ * Project a WGS84 position to OSGB36 National Grid [easting, northing] in
+ * metres.
+ */
+export function toBritishNationalGrid([lon, lat]: LonLat): [number, number] {
+  const [lambda, phi] = toOsgb36(lon, lat);
+  const { a, b } = AIRY_1830;
+  const { f0, lon0, e0, n0 } = NG;
+
+  const e2 = 1 - b ** 2 / a ** 2;
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+
+  const nu = (a * f0) / Math.sqrt(1 - e2 * sinPhi ** 2);
+  const rho = (a * f0 * (1 - e2)) / (1 - e2 * sinPhi ** 2) ** 1.5;
+  const eta2 = nu / rho - 1;
+
+  const I = meridionalArc(phi) + n0;
+  const II = (nu / 2) * sinPhi * cosPhi;
+  const III = (nu / 24) * sinPhi * cosPhi ** 3 * (5 - tanPhi ** 2 + 9 * eta2);
+  const IIIA = (nu / 720) * sinPhi * cosPhi ** 5 * (61 - 58 * tanPhi ** 2 + tanPhi ** 4);
+  const IV = nu * cosPhi;
+  const V = (nu / 6) * cosPhi ** 3 * (nu / rho - tanPhi ** 2);
+  const VI =
+    (nu / 120) *
+    cosPhi ** 5 *
+    (5 - 18 * tanPhi ** 2 + tanPhi ** 4 + 14 * eta2 - 58 * tanPhi ** 2 * eta2);
+
+  const dLon = lambda - lon0;
+  const northing = I + II * dLon ** 2 + III * dLon ** 4 + IIIA * dLon ** 6;
+  const easting = e0 + IV * dLon + V * dLon ** 3 + VI * dLon ** 5;
+  return [easting, northing];
+}
+
+/**
+ * Convert an OSGB36 National Grid [easting, northing] in metres to a WGS84
+ * position.
+ */
+export function fromBritishNationalGrid([easting, northing]: [number, number]): LonLat {
+  const { a, b } = AIRY_1830;
+  const { f0, lat0, lon0, e0, n0 } = NG;
+  const e2 = 1 - b ** 2 / a ** 2;
+
+  // The latitude whose meridional arc matches the northing.
+  let phi = (northing - n0) / (a * f0) + lat0;
+  for (let i = 0; i < 20; i++) {
+    const residual = northing - n0 - meridionalArc(phi);
+    if (Math.abs(residual) < 1e-5) break;
+    phi += residual / (a * f0);
+  }
+
+  const sinPhi = Math.sin(phi);
+  const tanPhi = Math.tan(phi);
+  const secPhi = 1 / Math.cos(phi);
+  const nu = (a * f0) / Math.sqrt(1 - e2 * sinPhi ** 2);
+  const rho = (a * f0 * (1 - e2)) / (1 - e2 * sinPhi ** 2) ** 1.5;
+  const eta2 = nu / rho - 1;
+
+  const VII = tanPhi / (2 * rho * nu);
+  const VIII = (tanPhi / (24 * rho * nu ** 3)) * (5 + 3 * tanPhi ** 2 + eta2 - 9 * tanPhi ** 2 * eta2);
+  const IX = (tanPhi / (720 * rho * nu ** 5)) * (61 + 90 * tanPhi ** 2 + 45 * tanPhi ** 4);
+  const X = secPhi / nu;
+  const XI = (secPhi / (6 * nu ** 3)) * (nu / rho + 2 * tanPhi ** 2);
+  const XII = (secPhi / (120 * nu ** 5)) * (5 + 28 * tanPhi ** 2 + 24 * tanPhi ** 4);
+  const XIIA =
+    (secPhi / (5040 * nu ** 7)) * (61 + 662 * tanPhi ** 2 + 1320 * tanPhi ** 4 + 720 * tanPhi ** 6);
+
+  const dE = easting - e0;
+  const phiOsgb = phi - VII * dE ** 2 + VIII * dE ** 4 - IX * dE ** 6;
+  const lambdaOsgb = lon0 + X * dE - XI * dE ** 3 + XII * dE ** 5 - XIIA * dE ** 7;
+
+  const [lambda, phiWgs] = helmert(lambdaOsgb, phiOsgb, AIRY_1830, WGS84, -1);
+  return [(lambda * 180) / Math.PI, (phiWgs * 180) / Math.PI];
+}
@@ -0,0 +1,64 @@
+// scripts/gpx.ts
+//
+// GPX tracks for routes built from OSM data, with the ODbL attribution the
+// licence asks for. Used by export-route-files.ts (whole routes) and
+// plan-stages.ts (one file per day).
+
+export const OSM_ATTRIBUTION = '© OpenStreetMap contributors';
+export const OSM_LICENSE = 'https://opendatacommons.org/licenses/odbl/1-0/';
+
+export type GpxTrack = {
+  name: string;
+  description?: string;
+  osmId: number; // the route relation the track came from
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function osmRelationUrl(id: number): string {
+  return `https://www.openstreetmap.org/relation/${id}`;
+}
+
+/**
+ * A GPX 1.1 document with one track, a trkseg per segment. The copyright
+ * block has no <year> (it's optional) so the same route always exports the
+ * same file.
+ */
+export function buildGpx(track: GpxTrack, segments: [number, number][][]): string {
+  const { name, description, osmId } = track;
+  const trksegs = segments
+    .map((coords) => {
+      const pts = coords
+        .map(([lon, lat]) => `      <trkpt lat="${lat}" lon="${lon}"></trkpt>`)
+        .join('\n');
+      return `    <trkseg>\n${pts}\n    </trkseg>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Hiking Directory"
+     xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${escapeXml(name)}</name>
+${description ? `    <desc>${escapeXml(description)}</desc>\n` : ''}    <copyright author="OpenStreetMap contributors">
+      <license>${OSM_LICENSE}</license>
+    </copyright>
+    <link href="${osmRelationUrl(osmId)}">
+      <text>${escapeXml(OSM_ATTRIBUTION)}</text>
+    </link>
+  </metadata>
+  <trk>
+    <name>${escapeXml(name)}</name>
+${description ? `    <desc>${escapeXml(description)}</desc>\n` : ''}    <src>${escapeXml(OSM_ATTRIBUTION)}</src>
+${trksegs}
+  </trk>
+</gpx>
+`;
+}
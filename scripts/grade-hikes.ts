@@ -0,0 +1,106 @@
+// scripts/grade-hikes.ts
+//
+// Regrades every hike with the full grading model once the slower inputs
+// are available: ascent and max altitude from the elevation stage, and
+// remoteness (how far the route strays from the nearest postcode) from the
+// postcode grid cells (lib/postcodes.ts). Writes `difficulty` and the
+// `grade` breakdown into data/hikes/<slug>.json.
+//
+// Run after hikes:elevation. Missing DEM or postcode data just means those
+// factors are left out.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { hasPostcodeCells, nearestPostcodes } from '../lib/postcodes';
+import { haversineKm, LonLat } from './geo';
+import { gradeHike } from './grading';
+import { readHike, writeHike } from './hike-store';
+import { Difficulty, Hike, RawOsmHike } from './hike-types';
+import { rawHikeSegments } from './osm-geometry';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+
+// Route points are checked for remoteness roughly this far apart.
+const REMOTENESS_SPACING_KM = 0.5;
+
+// Beyond this the exact distance no longer changes the grade.
+const REMOTENESS_MAX_KM = 10;
+
+/**
+ * Furthest distance (km) from any checked route point to its nearest
+ * postcode centroid.
+ */
+async function remotenessKm(segments: LonLat[][]): Promise<number> {
+  let worst = 0;
+  for (const coords of segments) {
+    let sinceLast = Infinity;
+    for (let i = 0; i < coords.length; i++) {
+      if (i > 0) sinceLast += haversineKm(coords[i - 1], coords[i]);
+      if (sinceLast < REMOTENESS_SPACING_KM && i < coords.length - 1) continue;
+      sinceLast = 0;
+
+      const [lon, lat] = coords[i];
+      const [nearest] = await nearestPostcodes(lat, lon, 1, REMOTENESS_MAX_KM);
+      worst = Math.max(worst, nearest ? nearest.distanceKm : REMOTENESS_MAX_KM);
+    }
+  }
+  return Math.round(worst * 10) / 10;
+}
+
+async function main() {
+  if (!fs.existsSync(RAW_DIR)) {
+    console.error(`Raw OSM dir missing: ${RAW_DIR}`);
+    process.exit(1);
+  }
+
+  const withPostcodes = await hasPostcodeCells();
+  if (!withPostcodes) console.warn('No postcode data found – grading without remoteness.');
+
+  const files = fs.readdirSync(RAW_DIR).filter((f) => f.endsWith('.json'));
+  const byDifficulty: Record<Difficulty, number> = { easy: 0, moderate: 0, hard: 0 };
+
+  let graded = 0;
+  let changed = 0;
+  let skippedNoHike = 0;
+
+  for (const file of files) {
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const hike = readHike(raw.slug);
+    if (!hike || hike.retired) {
+      skippedNoHike++;
+      continue;
+    }
+
+    const segments = rawHikeSegments(raw).filter((s) => s.length >= 1);
+    const { difficulty, grade } = gradeHike({
+      distanceKm: hike.distance_km,
+      ascentM: hike.ascent_m,
+      maxAltitudeM: hike.elevation?.max_m,
+      tags: raw.tags,
+      pathTags: raw.pathTags,
+      remotenessKm: withPostcodes && segments.length > 0 ? await remotenessKm(segments) : undefined,
+    });
+
+    graded++;
+    byDifficulty[difficulty]++;
+    if (difficulty !== hike.difficulty) changed++;
+
+    const next: Hike = { ...hike, difficulty, grade };
+    writeHike(next);
+  }
+
+  console.log('--------------------------------------------');
+  console.log(`Hikes graded         : ${graded}`);
+  console.log(`  easy               : ${byDifficulty.easy}`);
+  console.log(`  moderate           : ${byDifficulty.moderate}`);
+  console.log(`  hard               : ${byDifficulty.hard}`);
+  console.log(`Difficulty changed   : ${changed}`);
+  console.log(`Skipped (no hike)    : ${skippedNoHike}`);
+  console.log('--------------------------------------------');
+}
+
+main().catch((err) => {
+  console.error('Grading hikes failed:', err);
+  process.exit(1);
+});
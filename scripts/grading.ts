@@ -0,0 +1,191 @@
+// scripts/grading.ts
+//
+// Multi-factor difficulty grading. Each factor adds points to a score and a
+// one-line reason; the score is then banded into a Difficulty. Factors
+// whose input is unknown (no DEM, no way tags, no postcode data) are simply
+// left out, so a hike is graded on whatever is available.
+//
+// Distance and ascent are combined Naismith-style (120 m of climb ~ 1 km of
+// walking), so a long flat towpath and a short steep scramble land in
+// sensible bands.
+
+import type { Difficulty, GradeFactor, HikeGrade, PathTagShares } from './hike-types';
+
+export interface GradingInput {
+  distanceKm: number;
+  ascentM?: number;
+  maxAltitudeM?: number;
+  tags: Record<string, string>; // relation tags
+  pathTags?: PathTagShares; // member way tag shares
+  remotenessKm?: number; // furthest the route gets from a postcode
+}
+
+// Score bands: below EASY_MAX is easy, below MODERATE_MAX moderate.
+const EASY_MAX = 10;
+const MODERATE_MAX = 20;
+
+const ASCENT_M_PER_KM = 120;
+
+// Points for the hardest sac_scale value covering at least this share of the
+// route, so one short rocky step doesn't regrade a whole walk.
+const MIN_TERRAIN_SHARE = 0.05;
+
+const SAC_SCALE: Record<string, { points: number; label: string }> = {
+  hiking: { points: 0, label: 'hiking (T1)' },
+  mountain_hiking: { points: 3, label: 'mountain hiking (T2)' },
+  demanding_mountain_hiking: { points: 8, label: 'demanding mountain hiking (T3)' },
+  alpine_hiking: { points: 12, label: 'alpine hiking (T4)' },
+  demanding_alpine_hiking: { points: 16, label: 'demanding alpine hiking (T5)' },
+  difficult_alpine_hiking: { points: 16, label: 'difficult alpine hiking (T6)' },
+};
+
+// Points per unit share of the route.
+const TRAIL_VISIBILITY: Record<string, number> = {
+  excellent: 0,
+  good: 0,
+  intermediate: 1,
+  bad: 3,
+  horrible: 5,
+  no: 5,
+};
+
+const ROUGH_SURFACES = new Set(['rock', 'scree', 'stone', 'pebblestone', 'mud', 'sand']);
+const PAVED_SURFACES = new Set(['asphalt', 'paved', 'concrete', 'paving_stones', 'compacted']);
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function sumShares(byValue: Record<string, number>, values: Set<string>): number {
+  return Object.entries(byValue)
+    .filter(([value]) => values.has(value))
+    .reduce((sum, [, share]) => sum + share, 0);
+}
+
+function distanceFactor(distanceKm: number): GradeFactor {
+  return {
+    factor: 'distance',
+    points: round1(distanceKm),
+    reason: `${distanceKm.toFixed(1)} km long`,
+  };
+}
+
+function ascentFactor(ascentM: number | undefined): GradeFactor | null {
+  if (typeof ascentM !== 'number' || ascentM <= 0) return null;
+  return {
+    factor: 'ascent',
+    points: round1(ascentM / ASCENT_M_PER_KM),
+    reason: `${ascentM} m of ascent`,
+  };
+}
+
+function altitudeFactor(maxAltitudeM: number | undefined): GradeFactor | null {
+  if (typeof maxAltitudeM !== 'number') return null;
+  if (maxAltitudeM >= 900) {
+    return { factor: 'altitude', points: 4, reason: `Reaches ${maxAltitudeM} m – mountain weather` };
+  }
+  if (maxAltitudeM >= 600) {
+    return { factor: 'altitude', points: 2, reason: `Reaches ${maxAltitudeM} m on exposed high ground` };
+  }
+  return null;
+}
+
+function terrainFactor(input: GradingInput): GradeFactor | null {
+  // Fall back to a relation-level sac_scale covering the whole route.
+  const shares =
+    input.pathTags?.sac_scale ??
+    (input.tags.sac_scale ? { [input.tags.sac_scale]: 1 } : undefined);
+  if (!shares) return null;
+
+  let hardest: { points: number; label: string; share: number } | null = null;
+  for (const [value, share] of Object.entries(shares)) {
+    const grade = SAC_SCALE[value];
+    if (!grade || share < MIN_TERRAIN_SHARE) continue;
+    if (!hardest || grade.points > hardest.points) hardest = { ...grade, share };
+  }
+  if (!hardest || hardest.points === 0) return null;
+
+  const extent = hardest.share >= 0.5 ? 'Mostly' : `${percent(hardest.share)} of the route is`;
+  return { factor: 'terrain', points: hardest.points, reason: `${extent} ${hardest.label}` };
+}
+
+function visibilityFactor(shares: Record<string, number> | undefined): GradeFactor | null {
+  if (!shares) return null;
+
+  let points = 0;
+  let poorShare = 0;
+  for (const [value, share] of Object.entries(shares)) {
+    const weight = TRAIL_VISIBILITY[value] ?? 0;
+    points += weight * share;
+    if (weight >= 3) poorShare += share;
+  }
+  if (points < 0.5) return null;
+
+  const reason =
+    poorShare > 0
+      ? `Faint or no path on ${percent(poorShare)} of the route`
+      : 'Path is only intermittently visible';
+  return { factor: 'visibility', points: round1(points), reason };
+}
+
+function surfaceFactor(shares: Record<string, number> | undefined): GradeFactor | null {
+  if (!shares) return null;
+
+  const rough = sumShares(shares, ROUGH_SURFACES);
+  const paved = sumShares(shares, PAVED_SURFACES);
+  if (rough >= 0.2) {
+    return {
+      factor: 'surface',
+      points: round1(3 * rough),
+      reason: `Rough ground on ${percent(rough)} of the route`,
+    };
+  }
+  if (paved >= 0.5) {
+    return {
+      factor: 'surface',
+      points: round1(-2 * paved),
+      reason: `${percent(paved)} on surfaced paths or tracks`,
+    };
+  }
+  return null;
+}
+
+function remotenessFactor(remotenessKm: number | undefined): GradeFactor | null {
+  if (typeof remotenessKm !== 'number' || remotenessKm < 3) return null;
+  return {
+    factor: 'remoteness',
+    points: remotenessKm >= 6 ? 4 : 2,
+    reason: `Up to ${remotenessKm.toFixed(1)} km from the nearest settlement`,
+  };
+}
+
+export function difficultyForScore(score: number): Difficulty {
+  if (score < EASY_MAX) return 'easy';
+  if (score < MODERATE_MAX) return 'moderate';
+  return 'hard';
+}
+
+/**
+ * Grade a hike from whatever inputs are known. Factors are listed largest
+ * contribution first.
+ */
+export function gradeHike(input: GradingInput): { difficulty: Difficulty; grade: HikeGrade } {
+  const factors = [
+    distanceFactor(input.distanceKm),
+    ascentFactor(input.ascentM),
+    altitudeFactor(input.maxAltitudeM),
+    terrainFactor(input),
+    visibilityFactor(input.pathTags?.trail_visibility),
+    surfaceFactor(input.pathTags?.surface),
+    remotenessFactor(input.remotenessKm),
+  ].filter((f): f is GradeFactor => f !== null);
+
+  factors.sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+  const score = round1(Math.max(0, factors.reduce((sum, f) => sum + f.points, 0)));
+
+  return { difficulty: difficultyForScore(score), grade: { score, factors } };
+}
@@ -0,0 +1,60 @@
+// scripts/hike-store.ts
+//
+// Reads and writes data/hikes/<slug>.json for the pipeline stages. Both
+// directions go through the shared schema (lib/hike-schema.ts), so a stage
+// can't write a hike the site can't read.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  Hike,
+  HIKE_SCHEMA_VERSION,
+  hikeProvenance,
+  parseHike,
+  validateHike,
+} from '../lib/hike-schema';
+
+export const HIKES_DIR = path.join(process.cwd(), 'data', 'hikes');
+
+export function hikeFile(slug: string): string {
+  return path.join(HIKES_DIR, `${slug}.json`);
+}
+
+/**
+ * Load and validate a hike. Null when there's no file; throws
+ * HikeValidationError when the file doesn't match the schema (run
+ * hikes:migrate after a schema change).
+ */
+export function readHike(slug: string): Hike | null {
+  const file = hikeFile(slug);
+  if (!fs.existsSync(file)) return null;
+  return parseHike(JSON.parse(fs.readFileSync(file, 'utf8')), file);
+}
+
+/**
+ * Every hike file that matches the schema. Invalid files are skipped with a
+ * warning (hikes:validate reports them).
+ */
+export function readAllHikes(): Hike[] {
+  const files = fs.readdirSync(HIKES_DIR).filter((f) => f.endsWith('.json'));
+  const hikes: Hike[] = [];
+  for (const file of files) {
+    const result = validateHike(JSON.parse(fs.readFileSync(path.join(HIKES_DIR, file), 'utf8')));
+    if (result.ok) hikes.push(result.hike);
+    else console.warn(`Skipping invalid hike ${file}: ${result.issues[0]}`);
+  }
+  return hikes;
+}
+
+/**
+ * Validate and write a hike, stamping the current schema version and each
+ * field's provenance.
+ */
+export function writeHike(hike: Hike) {
+  const checked = parseHike(
+    { ...hike, schema_version: HIKE_SCHEMA_VERSION, provenance: hikeProvenance(hike) },
+    hike.slug
+  );
+  fs.mkdirSync(HIKES_DIR, { recursive: true });
+  fs.writeFileSync(hikeFile(hike.slug), JSON.stringify(checked, null, 2), 'utf8');
+}
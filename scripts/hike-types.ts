@@ -1,12 +1,62 @@
 // scripts/hike-types.ts
+//
+// Types for the raw scrape output. The normalised Hike and everything in it
+// come from the shared schema in lib/hike-schema.ts.
 
-export type Difficulty = 'easy' | 'moderate' | 'hard';
+import type { RouteShape, RouteRelationType } from '../lib/hike-schema';
 
-export type ThemeTag = 'coastal' | 'waterfalls' | 'lakes' | 'ridges';
-export type TransportTag =
-  | 'train-accessible'
-  | 'bus-accessible'
-  | 'car-free-possible';
+export type {
+  AreaKind,
+  AreaShare,
+  DayStage,
+  DayStageStop,
+  Difficulty,
+  GradeFactor,
+  GradeFactorName,
+  Hike,
+  HikeElevation,
+  OsmMetadata,
+  HikeGrade,
+  ProtectedArea,
+  RelatedRoute,
+  RoutePoint,
+  RouteRelationType,
+  RouteLevel,
+  RouteShape,
+  StageStopType,
+  ThemeEvidence,
+  ThemeFeatureKind,
+  ThemeTag,
+  TransportStop,
+  TransportTag,
+  VariantLink,
+  VariantRelation,
+} from '../lib/hike-schema';
+
+export type RouteGeometry =
+  | { type: 'LineString'; coordinates: [number, number][] }
+  | { type: 'MultiLineString'; coordinates: [number, number][][] };
+
+// A parent or child route relation, as recorded by the scrape.
+export interface RouteRelationLink {
+  id: number; // OSM relation id
+  name?: string;
+  type: RouteRelationType;
+  role?: string; // member role in the parent, e.g. "stage", "link"
+}
+
+// Car park or station a circular route was started from.
+export interface StartAccess {
+  type: 'car_park' | 'station';
+  name?: string;
+  distance_km: number; // from the access point to the route
+}
+
+// Way tags summarised per route for grading.
+export type PathTagKey = 'sac_scale' | 'trail_visibility' | 'surface';
+
+// Share of route length (0–1) per tag value.
+export type PathTagShares = Partial<Record<PathTagKey, Record<string, number>>>;
 
 export interface RawOsmHike {
   id: number; // OSM relation id
@@ -14,46 +64,13 @@ export interface RawOsmHike {
   name: string;
   network?: string;
   tags: Record<string, string>;
-  coordinates: [number, number][]; // [lon, lat] sequence
-}
-
-export interface Hike {
-  id: string; // e.g. "osm-123456"
-  slug: string;
-  name: string;
-  region: string;
-  country: 'England' | 'Wales' | 'Scotland' | 'Northern Ireland' | 'UK';
-
-  distanceKm: number;
-  ascentM?: number;
-
-  difficulty: Difficulty;
-
-  themes: ThemeTag[];
-  transport: {
-    access_tags: TransportTag[];
-  };
-
-  start: {
-    lat: number;
-    lon: number;
-  };
-
-  source: {
-    type: 'osm';
-    osmId: number;
-  };
-
-  ai?: {
-    summary: string;
-    terrain_summary: string;
-    safety_notes: string;
-    recommended_gear: string[];
-    best_seasons: string;
-    seo: {
-      title: string;
-      meta_description: string;
-      h1: string;
-    };
-  };
+  geometry?: RouteGeometry; // [lon, lat] positions, stitched in travel order
+  gapCount: number; // breaks between MultiLineString parts
+  gapLengthKm: number; // straight-line length of those breaks
+  coordinates?: [number, number][]; // legacy flat sequence from older scrapes
+  parents?: RouteRelationLink[]; // superroutes / route_masters containing this route
+  children?: RouteRelationLink[]; // stage and link relations, in member order
+  pathTags?: PathTagShares; // from member way tags
+  shape?: RouteShape;
+  startAccess?: StartAccess; // set when a loop was rotated to start here
 }
@@ -5,6 +5,8 @@
 
 import fs from 'node:fs';
 import path from 'node:path';
+import { isListed } from '../lib/hike-schema';
+import { HIKES_DIR, readAllHikes } from './hike-store';
 import type { Hike } from './hike-types';
 
 type Difficulty = Hike['difficulty'];
@@ -26,20 +28,11 @@ function ensureDir(dir: string) {
 }
 
 function loadHikes(): Hike[] {
-  const hikesDir = path.join(process.cwd(), 'data', 'hikes');
-  if (!fs.existsSync(hikesDir)) {
-    console.error(`Hikes directory not found: ${hikesDir}`);
+  if (!fs.existsSync(HIKES_DIR)) {
+    console.error(`Hikes directory not found: ${HIKES_DIR}`);
     process.exit(1);
   }
-
-  const files = fs.readdirSync(hikesDir).filter((f) => f.endsWith('.json'));
-  const hikes: Hike[] = files.map((file) => {
-    const full = path.join(hikesDir, file);
-    const raw = fs.readFileSync(full, 'utf8');
-    return JSON.parse(raw) as Hike;
-  });
-
-  return hikes;
+  return readAllHikes();
 }
 
 function computeStats(hikes: Hike[]): HikeStats {
@@ -93,7 +86,7 @@ function saveStats(stats: HikeStats) {
 
 function main() {
   console.log('--- Hike stats ---');
-  const hikes = loadHikes();
+  const hikes = loadHikes().filter(isListed);
   const stats = computeStats(hikes);
   saveStats(stats);
 
@@ -0,0 +1,158 @@
+// scripts/migrate-hikes.ts
+//
+// Upgrades data/hikes/*.json to the current schema (lib/hike-schema.ts).
+// Each migration takes a hike from one schema_version to the next; files
+// without a schema_version are version 1. Files are only rewritten when the
+// upgraded hike passes validation, and the ones that don't are listed.
+//
+// Safe to re-run: hikes already on the current version are left alone.
+// data/templates/ is kept up to date by hand.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { HIKE_SCHEMA_VERSION, THEME_TAGS, validateHike } from '../lib/hike-schema';
+import { HIKES_DIR } from './hike-store';
+
+type HikeJson = Record<string, unknown>;
+
+// Hand-written files used a few other theme names.
+const THEME_ALIASES: Record<string, string> = {
+  coast: 'coastal',
+  waterfall: 'waterfalls',
+  lake: 'lakes',
+  ridge: 'ridges',
+};
+
+function isObject(value: unknown): value is HikeJson {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function renameRelated(links: unknown) {
+  if (!Array.isArray(links)) return links;
+  return links.map(({ osmId, ...rest }: HikeJson) => ({ osm_id: osmId, ...rest }));
+}
+
+/**
+ * v1 → v2: one spelling per field (snake_case), hand-written extras moved to
+ * where the pipeline puts them, and an explicit source.
+ */
+function migrateV1(old: HikeJson): HikeJson {
+  const {
+    distanceKm,
+    ascentM,
+    ascent_meters,
+    descentM,
+    estimated_time_hours,
+    gpx_path,
+    gpx_file,
+    terrain,
+    theme_tags,
+    seo,
+    source,
+    ...hike
+  } = old;
+  delete hike._comment;
+
+  hike.distance_km = hike.distance_km ?? distanceKm;
+  hike.ascent_m = hike.ascent_m ?? ascentM ?? ascent_meters;
+  hike.descent_m = hike.descent_m ?? descentM;
+  hike.time_hours = hike.time_hours ?? estimated_time_hours;
+
+  // gpx_path was relative to public/.
+  const gpx = gpx_file ?? (gpx_path ? `/${String(gpx_path).replace(/^\//, '')}` : undefined);
+  if (gpx) hike.gpx_file = gpx;
+
+  // A free-text terrain is a summary; a list is terrain types.
+  if (typeof terrain === 'string') hike.terrain_summary = hike.terrain_summary ?? terrain;
+  else if (Array.isArray(terrain)) hike.terrain = terrain;
+
+  const themes = new Set(strings(hike.themes));
+  for (const tag of strings(theme_tags)) {
+    const theme = THEME_ALIASES[tag] ?? tag;
+    if ((THEME_TAGS as readonly string[]).includes(theme)) themes.add(theme);
+  }
+  hike.themes = THEME_TAGS.filter((t) => themes.has(t));
+
+  if (hike.difficulty === 'challenging') hike.difficulty = 'hard';
+  hike.country = hike.country ?? 'UK';
+  const transport = isObject(hike.transport) ? hike.transport : {};
+  hike.transport = { ...transport, access_tags: transport.access_tags ?? [] };
+
+  const osm = isObject(source) && source.type === 'osm' ? source : null;
+  hike.source = osm ? { type: 'osm', osm_id: osm.osm_id ?? osm.osmId } : { type: 'manual' };
+  hike.part_of = renameRelated(hike.part_of);
+  hike.stages = renameRelated(hike.stages);
+
+  if (isObject(hike.ai)) {
+    const { sei, ...ai } = hike.ai;
+    ai.seo = ai.seo ?? sei ?? seo ?? undefined;
+    if (Array.isArray(ai.safety_notes)) ai.safety_notes = ai.safety_notes.join(' ');
+    hike.ai = ai;
+  }
+
+  return hike;
+}
+
+// Keyed by the version being upgraded from.
+const MIGRATIONS: Record<number, (hike: HikeJson) => HikeJson> = {
+  1: migrateV1,
+};
+
+function migrate(hike: HikeJson): HikeJson {
+  let version = typeof hike.schema_version === 'number' ? hike.schema_version : 1;
+  while (version < HIKE_SCHEMA_VERSION) {
+    hike = { ...MIGRATIONS[version](hike), schema_version: version + 1 };
+    version++;
+  }
+  return hike;
+}
+
+function main() {
+  if (!fs.existsSync(HIKES_DIR)) {
+    console.error(`Hikes dir missing: ${HIKES_DIR}`);
+    process.exit(1);
+  }
+
+  const files = fs.readdirSync(HIKES_DIR).filter((f) => f.endsWith('.json'));
+
+  let migrated = 0;
+  let current = 0;
+  const failed: { file: string; issues: string[] }[] = [];
+
+  for (const file of files) {
+    const full = path.join(HIKES_DIR, file);
+    const data = JSON.parse(fs.readFileSync(full, 'utf8')) as HikeJson;
+    if (data.schema_version === HIKE_SCHEMA_VERSION) {
+      current++;
+      continue;
+    }
+
+    const result = validateHike(migrate(data));
+    if (!result.ok) {
+      failed.push({ file, issues: result.issues });
+      continue;
+    }
+
+    fs.writeFileSync(full, JSON.stringify(result.hike, null, 2), 'utf8');
+    migrated++;
+  }
+
+  console.log('--------------------------------------------');
+  console.log(`Schema version       : ${HIKE_SCHEMA_VERSION}`);
+  console.log(`Hikes migrated       : ${migrated}`);
+  console.log(`Already current      : ${current}`);
+  console.log(`Failed validation    : ${failed.length}`);
+  console.log('--------------------------------------------');
+
+  for (const { file, issues } of failed) {
+    console.log(`  ${file}`);
+    for (const issue of issues) console.log(`    - ${issue}`);
+  }
+  if (failed.length > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,113 @@
+// scripts/naptan.ts
+//
+// Rail stations and bus stops from a local NaPTAN download
+// (https://beta-naptan.dft.gov.uk/download – "All stops", CSV). Stops.csv is
+// read from NAPTAN_DIR (default data/naptan); RailReferences.csv alongside
+// it, if present, adds CRS station codes.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { readCsv } from './csv';
+import type { LonLat } from './geo';
+import { buildPointGrid, PointGrid } from './point-grid';
+
+export const NAPTAN_DIR = path.resolve(
+  process.env.NAPTAN_DIR ?? path.join(process.cwd(), 'data', 'naptan')
+);
+
+// RLY is the station itself (its access area); platforms and entrances have
+// their own records, which would only repeat it.
+const STATION_TYPES = new Set(['RLY']);
+// On-street stops, bus station bays and bus station entrances.
+const BUS_TYPES = new Set(['BCT', 'BCS', 'BCQ', 'BST']);
+
+export type NaptanStop = {
+  atco_code: string;
+  naptan_code?: string;
+  station_code?: string;
+  name: string;
+  place: string; // stops sharing a place are the same stop, either side of the road
+  lat: number;
+  lon: number;
+};
+
+export type NaptanStops = {
+  stations: PointGrid<NaptanStop>;
+  busStops: PointGrid<NaptanStop>;
+};
+
+function isActive(status: string | undefined): boolean {
+  // Older downloads use "act" / "del" / "pen".
+  return !status || status === 'active' || status === 'act';
+}
+
+function stationName(commonName: string): string {
+  return commonName.replace(/\s+(Rail(way)?|Train) Station$/i, '');
+}
+
+// "Main Road (opp), Hathersage" – the indicator tells the two sides of the
+// road apart; the locality says where it is.
+function busStopName(row: Record<string, string>): string {
+  const indicator = row.Indicator ? ` (${row.Indicator})` : '';
+  const locality =
+    row.LocalityName && !row.CommonName.includes(row.LocalityName) ? `, ${row.LocalityName}` : '';
+  return `${row.CommonName}${indicator}${locality}`;
+}
+
+async function readCrsCodes(file: string): Promise<Map<string, string>> {
+  const codes = new Map<string, string>();
+  if (!fs.existsSync(file)) return codes;
+  for await (const row of readCsv(file)) {
+    if (row.AtcoCode && row.CrsCode) codes.set(row.AtcoCode, row.CrsCode);
+  }
+  return codes;
+}
+
+/**
+ * Load active stations and bus stops into grids. Returns null when Stops.csv
+ * isn't there, so the transport stage can be skipped.
+ */
+export async function loadNaptanStops(dir = NAPTAN_DIR): Promise<NaptanStops | null> {
+  const stopsFile = path.join(dir, 'Stops.csv');
+  if (!fs.existsSync(stopsFile)) return null;
+
+  const crsCodes = await readCrsCodes(path.join(dir, 'RailReferences.csv'));
+  const stations: NaptanStop[] = [];
+  const busStops: NaptanStop[] = [];
+
+  for await (const row of readCsv(stopsFile)) {
+    const isStation = STATION_TYPES.has(row.StopType);
+    if (!isStation && !BUS_TYPES.has(row.StopType)) continue;
+    if (!isActive(row.Status)) continue;
+
+    const lat = Number(row.Latitude);
+    const lon = Number(row.Longitude);
+    if (!row.Latitude || !row.Longitude || !Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+
+    if (isStation) {
+      stations.push({
+        atco_code: row.ATCOCode,
+        station_code: crsCodes.get(row.ATCOCode),
+        name: stationName(row.CommonName),
+        place: row.ATCOCode,
+        lat,
+        lon,
+      });
+    } else {
+      busStops.push({
+        atco_code: row.ATCOCode,
+        naptan_code: row.NaptanCode || undefined,
+        name: busStopName(row),
+        place: `${row.CommonName}|${row.LocalityName}`,
+        lat,
+        lon,
+      });
+    }
+  }
+
+  const position = (s: NaptanStop): LonLat => [s.lon, s.lat];
+  return {
+    stations: buildPointGrid(stations, position),
+    busStops: buildPointGrid(busStops, position),
+  };
+}
@@ -1,7 +1,50 @@
 // scripts/normalise-hikes.ts
+//
+// Builds data/hikes/<slug>.json from the raw OSM relations. Existing files
+// are merged into field by field, never rewritten from scratch:
+//
+//   NORMALISED_FIELDS  recomputed from the relation on every run, unless
+//                      the file marks the field "manual" in `provenance`
+//   SEEDED_FIELDS      first guesses, only set on new hikes; later stages
+//                      (areas, grading, themes, transport) own them
+//   everything else    kept as it is: AI enrichment, hand-written text and
+//                      what the later stages filled in
+//
+// So re-running normalise after hikes:enrich keeps every `ai` block, and a
+// diff of data/hikes shows just the fields the relation changed.
 import fs from 'node:fs';
 import path from 'node:path';
-import { RawOsmHike, Hike, Difficulty, ThemeTag, TransportTag } from './hike-types';
+import { HIKE_SCHEMA_VERSION, hikeProvenance, NORMALISED_FIELDS, parseHike } from '../lib/hike-schema';
+import { hasPostcodeCells, nearestPostcodes } from '../lib/postcodes';
+import {
+  RawOsmHike,
+  Hike,
+  OsmMetadata,
+  RelatedRoute,
+  RoutePoint,
+  RouteRelationLink,
+  ThemeTag,
+  TransportTag,
+} from './hike-types';
+import { hikeFile, HIKES_DIR, readHike, writeHike } from './hike-store';
+import { haversineKm } from './geo';
+import { gradeHike } from './grading';
+import { rawHikeSegments } from './osm-geometry';
+import { classifyRouteShape } from './route-shape';
+import { changedRelationIds, readArchivedChangelogs, readChangelogsSince } from './osm-changelog';
+
+// By default only hikes listed as added/changed in the scrape changelogs
+// since the last run are rewritten. Set HIKES_NORMALISE_ALL=true to rebuild
+// every file.
+const NORMALISE_ALL = process.env.HIKES_NORMALISE_ALL === 'true';
+
+// The changelog (generated_at) of the last scrape normalised.
+const NORMALISED_FILE = path.join(process.cwd(), 'data', 'raw', 'osm-changelog-normalised.json');
+
+// A start with no in-use postcode within this distance is flagged remote.
+const REMOTE_RADIUS_KM = 5;
+
+const SEEDED_FIELDS = ['region', 'country', 'difficulty', 'grade', 'themes', 'transport'] as const;
 
 function readRawOsmDir(): RawOsmHike[] {
   const dir = path.join(process.cwd(), 'data', 'raw', 'osm');
@@ -13,37 +56,19 @@ function readRawOsmDir(): RawOsmHike[] {
   });
 }
 
-function haversineKm(a: [number, number], b: [number, number]): number {
-  const R = 6371;
-  const [lon1, lat1] = a;
-  const [lon2, lat2] = b;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const la1 = (lat1 * Math.PI) / 180;
-  const la2 = (lat2 * Math.PI) / 180;
-
-  const h =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(la1) * Math.cos(la2) * Math.sin(dLon / 2) ** 2;
-  return 2 * R * Math.asin(Math.sqrt(h));
-}
-
-function estimateDistanceKm(coords: [number, number][]): number {
+// Gaps between MultiLineString parts are not walked, so only the parts count.
+function estimateDistanceKm(segments: [number, number][][]): number {
   let dist = 0;
-  for (let i = 1; i < coords.length; i++) {
-    dist += haversineKm(coords[i - 1], coords[i]);
+  for (const coords of segments) {
+    for (let i = 1; i < coords.length; i++) {
+      dist += haversineKm(coords[i - 1], coords[i]);
+    }
   }
   return Math.round(dist * 10) / 10;
 }
 
-// VERY crude difficulty heuristic; you can refine later
-function guessDifficulty(distanceKm: number): Difficulty {
-  if (distanceKm < 6) return 'easy';
-  if (distanceKm < 15) return 'moderate';
-  return 'hard';
-}
-
-// Placeholder theming – we’ll improve with AI later if you like
+// Name-based first guess; hikes:themes replaces it with themes from the
+// features the route actually passes.
 function guessThemes(tags: Record<string, string>): ThemeTag[] {
   const themes: ThemeTag[] = [];
   const name = (tags.name || '').toLowerCase();
@@ -61,7 +86,7 @@ function guessThemes(tags: Record<string, string>): ThemeTag[] {
 }
 
 function defaultTransport(): TransportTag[] {
-  // For now we just assume car-free possible is unknown – you’ll enrich with real data later.
+  // Filled in from NaPTAN by hikes:transport.
   return [];
 }
 
@@ -86,54 +111,254 @@ function guessRegion(tags: Record<string, string>): {
   return { region, country };
 }
 
-function normalise(raw: RawOsmHike): Hike {
-  const distanceKm = estimateDistanceKm(raw.coordinates);
-  const difficulty = guessDifficulty(distanceKm);
+// A website tag, as a link: older tags often leave out the scheme, and url=
+// sometimes points at the OSM wiki rather than the route's own page.
+function websiteUrl(value: string | undefined): string | undefined {
+  const url = value?.split(';')[0].trim();
+  if (!url || /wiki\.openstreetmap\.org/i.test(url)) return undefined;
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+// The tags worth showing on the hike page; undefined if it has none.
+function osmMetadata(tags: Record<string, string>): OsmMetadata | undefined {
+  const text = (value: string | undefined) => value?.trim() || undefined;
+  const via = tags.via
+    ?.split(';')
+    .map((place) => place.trim())
+    .filter(Boolean);
+
+  const metadata: OsmMetadata = {
+    from: text(tags.from),
+    to: text(tags.to),
+    via: via && via.length > 0 ? via : undefined,
+    website: websiteUrl(tags.website ?? tags.url),
+    wikidata: /^Q\d+$/.test(tags.wikidata ?? '') ? tags.wikidata : undefined,
+    wikipedia: text(tags.wikipedia),
+    operator: text(tags.operator),
+    osmc_symbol: text(tags['osmc:symbol']),
+  };
+  const set = Object.entries(metadata).filter(([, value]) => value !== undefined);
+  return set.length > 0 ? (Object.fromEntries(set) as OsmMetadata) : undefined;
+}
+
+// Links to parent/child relations, with slugs for those that are hikes too.
+function relatedRoutes(
+  links: RouteRelationLink[] | undefined,
+  slugByOsmId: Map<number, string>
+): RelatedRoute[] | undefined {
+  if (!links || links.length === 0) return undefined;
+  return links.map((link) => ({
+    osm_id: link.id,
+    name: link.name,
+    slug: slugByOsmId.get(link.id),
+    type: link.type,
+    role: link.role,
+  }));
+}
+
+// Start/end point with its nearest postcode, when postcode data is present.
+async function routePoint([lon, lat]: [number, number], withPostcodes: boolean): Promise<RoutePoint> {
+  const point: RoutePoint = { lat, lon };
+  if (!withPostcodes) return point;
+  const [nearest] = await nearestPostcodes(lat, lon, 1, REMOTE_RADIUS_KM);
+  if (nearest) {
+    point.nearest_postcode = nearest.postcode;
+    point.nearest_postcode_km = Math.round(nearest.distanceKm * 100) / 100;
+  }
+  return point;
+}
+
+// The raw hike's non-empty line segments; none when a file has neither
+// `geometry` nor `coordinates`, or an empty stitched geometry.
+function routeSegments(raw: RawOsmHike): [number, number][][] {
+  return rawHikeSegments(raw).filter((segment) => segment.length > 0);
+}
+
+async function normalise(
+  raw: RawOsmHike,
+  slugByOsmId: Map<number, string>,
+  withPostcodes: boolean
+): Promise<Hike> {
+  const segments = routeSegments(raw);
+  const distanceKm = estimateDistanceKm(segments);
+  // Ascent and remoteness aren't known yet; grade-hikes.ts regrades once the
+  // elevation stage has run.
+  const { difficulty, grade } = gradeHike({
+    distanceKm,
+    tags: raw.tags,
+    pathTags: raw.pathTags,
+  });
   const themes = guessThemes(raw.tags);
   const transportTags = defaultTransport();
 
-  const [startLon, startLat] = raw.coordinates[0];
+  // Older raw files pre-date shape detection in the scrape.
+  const routeShape = raw.shape ?? classifyRouteShape(segments);
+  const lastSegment = segments[segments.length - 1];
+  const start = await routePoint(segments[0][0], withPostcodes);
+  if (raw.startAccess?.type === 'car_park') start.car_park_name = raw.startAccess.name;
+  if (raw.startAccess?.type === 'station') start.station_name = raw.startAccess.name;
+  // Loops and out-and-backs finish where they started.
+  const end =
+    routeShape === 'linear'
+      ? await routePoint(lastSegment[lastSegment.length - 1], withPostcodes)
+      : undefined;
   const { region, country } = guessRegion(raw.tags);
 
   const hike: Hike = {
+    schema_version: HIKE_SCHEMA_VERSION,
     id: `osm-${raw.id}`,
     slug: raw.slug,
     name: raw.name,
     region,
     country,
 
-    distanceKm,
+    distance_km: distanceKm,
     difficulty,
+    grade,
     themes,
     transport: { access_tags: transportTags },
-    start: { lat: startLat, lon: startLon },
+    route_shape: routeShape,
+    start,
+    end,
+    remote: withPostcodes ? !start.nearest_postcode : undefined,
+    part_of: relatedRoutes(raw.parents, slugByOsmId),
+    stages: relatedRoutes(raw.children, slugByOsmId),
     source: {
       type: 'osm',
-      osmId: raw.id,
+      osm_id: raw.id,
     },
+    osm: osmMetadata(raw.tags),
   };
 
   return hike;
 }
 
-function ensureDir(dir: string) {
-  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+/**
+ * Merge a freshly normalised hike into the file already on disk, returning
+ * the merged hike and the fields whose values changed.
+ */
+function mergeIntoExisting(existing: Hike | null, computed: Hike): { hike: Hike; changed: string[] } {
+  if (!existing) return { hike: computed, changed: [] };
+
+  const merged: Record<string, unknown> = { ...existing };
+  const fresh = computed as Record<string, unknown>;
+  const changed: string[] = [];
+  for (const field of NORMALISED_FIELDS) {
+    if (existing.provenance?.[field] === 'manual') continue;
+    if (JSON.stringify(merged[field]) === JSON.stringify(fresh[field])) continue;
+    changed.push(field);
+    if (fresh[field] === undefined) delete merged[field];
+    else merged[field] = fresh[field];
+  }
+  for (const field of SEEDED_FIELDS) {
+    if (merged[field] === undefined) merged[field] = fresh[field];
+  }
+  return { hike: merged as Hike, changed };
+}
+
+/**
+ * Mark hikes whose OSM relation is gone (or now lives under a new slug) as
+ * retired, rather than leaving them behind as orphans.
+ */
+function retireOrphans(rawHikes: RawOsmHike[]): number {
+  const slugByOsmId = new Map(rawHikes.map((raw) => [raw.id, raw.slug]));
+  const now = new Date().toISOString();
+  let retired = 0;
+
+  for (const file of fs.readdirSync(HIKES_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const hike = readHike(file.replace(/\.json$/, ''));
+
+    // Hand-written hikes aren't tied to a relation.
+    if (!hike || hike.source.type !== 'osm' || hike.retired) continue;
+    const osmId = hike.source.osm_id;
+
+    const currentSlug = slugByOsmId.get(osmId);
+    if (currentSlug === hike.slug) continue;
+
+    hike.retired = currentSlug
+      ? { at: now, reason: 'renamed', replaced_by: currentSlug }
+      : { at: now, reason: 'deleted-from-osm' };
+    writeHike(hike);
+    retired++;
+  }
+
+  return retired;
 }
 
-function main() {
+async function main() {
   const rawHikes = readRawOsmDir();
-  const outDir = path.join(process.cwd(), 'data', 'hikes');
-  ensureDir(outDir);
+
+  const lastNormalised = fs.existsSync(NORMALISED_FILE)
+    ? (JSON.parse(fs.readFileSync(NORMALISED_FILE, 'utf8')) as { generated_at: string }).generated_at
+    : undefined;
+  const changelogs = NORMALISE_ALL ? null : readChangelogsSince(lastNormalised);
+  const changed = changelogs ? changedRelationIds(changelogs) : null;
+  if (changelogs) {
+    console.log(
+      `Using ${changelogs.length} changelogs since ${lastNormalised}: ` +
+        `${changed!.size} added/changed relations`
+    );
+  } else if (!NORMALISE_ALL) {
+    console.log('No changelog for the last normalised scrape – normalising every hike');
+  }
+
+  const slugByOsmId = new Map(rawHikes.map((raw) => [raw.id, raw.slug]));
+  const withPostcodes = await hasPostcodeCells();
+  if (!withPostcodes) console.warn('No postcode data found – nearest postcodes not set.');
 
   let count = 0;
+  let created = 0;
+  let unchanged = 0;
+  let remote = 0;
+  let noGeometry = 0;
+  const fieldChanges = new Map<string, number>();
   for (const raw of rawHikes) {
-    const hike = normalise(raw);
-    const outFile = path.join(outDir, `${hike.slug}.json`);
-    fs.writeFileSync(outFile, JSON.stringify(hike, null, 2), 'utf8');
+    if (changed && !changed.has(raw.id) && fs.existsSync(hikeFile(raw.slug))) {
+      unchanged++;
+      continue;
+    }
+    if (routeSegments(raw).length === 0) {
+      console.warn(`Skipping ${raw.slug}: no geometry in the raw file`);
+      noGeometry++;
+      continue;
+    }
+
+    // Parsed so values compare with the file's (same key order, no undefineds).
+    const computed = parseHike(await normalise(raw, slugByOsmId, withPostcodes), raw.slug);
+    const existing = readHike(raw.slug);
+    const merge = mergeIntoExisting(existing, computed);
+    const hike = merge.hike;
+    if (!existing) created++;
+    for (const field of merge.changed) fieldChanges.set(field, (fieldChanges.get(field) ?? 0) + 1);
+    const stale = JSON.stringify(existing?.provenance) !== JSON.stringify(hikeProvenance(hike));
+    if (!existing || merge.changed.length > 0 || stale) writeHike(hike);
     count++;
+    if (hike.remote) remote++;
   }
 
-  console.log(`Normalised ${count} hikes into ${outDir}`);
+  const retired = retireOrphans(rawHikes);
+
+  // Every scrape so far is now reflected in data/hikes.
+  const latest = readArchivedChangelogs().at(-1);
+  if (latest) {
+    const json = JSON.stringify({ generated_at: latest.generated_at }, null, 2);
+    fs.writeFileSync(NORMALISED_FILE, json, 'utf8');
+  }
+
+  console.log(`Normalised ${count} hikes into ${HIKES_DIR} (${created} new)`);
+  for (const [field, n] of [...fieldChanges].sort((a, b) => b[1] - a[1])) {
+    console.log(`  ${field.padEnd(19)}: changed on ${n} hikes`);
+  }
+  if (changed) console.log(`Skipped ${unchanged} unchanged hikes`);
+  if (noGeometry > 0) console.log(`Skipped ${noGeometry} raw files with no geometry`);
+  if (withPostcodes) {
+    console.log(`Flagged ${remote} remote hikes (no postcode within ${REMOTE_RADIUS_KM} km)`);
+  }
+  console.log(`Retired ${retired} hikes no longer in OSM`);
 }
 
-main();
+main().catch((err) => {
+  console.error('Normalising hikes failed:', err);
+  process.exit(1);
+});
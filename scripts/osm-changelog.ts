@@ -0,0 +1,168 @@
+// scripts/osm-changelog.ts
+//
+// Snapshot diffing for incremental scrapes. scrape-osm-hikes.ts compares
+// every relation with the previous data/raw/osm snapshot and writes
+// data/raw/osm-changelog.json, plus a copy in data/raw/changelog/ (the last
+// MAX_ARCHIVED_CHANGELOGS are kept). Normalise and enrich read the archive
+// back to decide which hikes need reprocessing: every scrape since they last
+// ran, not just the latest, as two scrapes can run in between.
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { RawOsmHike } from './hike-types';
+
+export const CHANGELOG_FILE = path.join(process.cwd(), 'data', 'raw', 'osm-changelog.json');
+export const CHANGELOG_ARCHIVE_DIR = path.join(process.cwd(), 'data', 'raw', 'changelog');
+
+// Archived changelogs kept; older ones are deleted as new scrapes are
+// written. A consumer that falls further behind than this reprocesses
+// everything.
+const MAX_ARCHIVED_CHANGELOGS = 50;
+
+export interface ChangelogEntry {
+  id: number; // OSM relation id
+  slug: string;
+  name: string;
+  previous_slug?: string; // set when a rename changed the slug
+}
+
+export interface OsmChangelog {
+  generated_at: string; // ISO timestamp of the scrape
+  source: string; // "overpass" or the extract file name
+  complete: boolean; // false when MAX_OSM_RELATIONS limited the run
+  counts: {
+    added: number;
+    geometry_changed: number;
+    tags_changed: number;
+    removed: number;
+    unchanged: number;
+  };
+  added: ChangelogEntry[];
+  geometry_changed: ChangelogEntry[];
+  tags_changed: ChangelogEntry[];
+  removed: ChangelogEntry[];
+}
+
+export type SnapshotEntry = {
+  id: number;
+  slug: string;
+  name: string;
+  file: string;
+  tagsHash: string;
+  geometryHash: string;
+  recordHash: string; // the whole raw file, to tell when it needs rewriting
+};
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashOf(value: unknown): string {
+  return crypto.createHash('sha1').update(stableStringify(value)).digest('hex');
+}
+
+export function snapshotEntry(raw: RawOsmHike, file: string): SnapshotEntry {
+  return {
+    id: raw.id,
+    slug: raw.slug,
+    name: raw.name,
+    file,
+    // Parent/child route membership, member way tags and the derived route
+    // shape and start are metadata too, so changes to them count as tag
+    // changes.
+    tagsHash: hashOf({
+      tags: raw.tags,
+      parents: raw.parents,
+      children: raw.children,
+      pathTags: raw.pathTags,
+      shape: raw.shape,
+      startAccess: raw.startAccess,
+    }),
+    geometryHash: hashOf(raw.geometry ?? raw.coordinates ?? null),
+    recordHash: hashOf(raw),
+  };
+}
+
+/**
+ * Index the current data/raw/osm files by relation id.
+ */
+export function readSnapshot(rawDir: string): Map<number, SnapshotEntry> {
+  const snapshot = new Map<number, SnapshotEntry>();
+  if (!fs.existsSync(rawDir)) return snapshot;
+
+  for (const file of fs.readdirSync(rawDir)) {
+    if (!file.endsWith('.json')) continue;
+    const full = path.join(rawDir, file);
+    const raw = JSON.parse(fs.readFileSync(full, 'utf8')) as RawOsmHike;
+    snapshot.set(raw.id, snapshotEntry(raw, full));
+  }
+  return snapshot;
+}
+
+export function writeChangelog(changelog: OsmChangelog) {
+  fs.mkdirSync(CHANGELOG_ARCHIVE_DIR, { recursive: true });
+  const json = JSON.stringify(changelog, null, 2);
+  fs.writeFileSync(CHANGELOG_FILE, json, 'utf8');
+
+  const stamp = changelog.generated_at.replace(/[:.]/g, '-');
+  fs.writeFileSync(path.join(CHANGELOG_ARCHIVE_DIR, `osm-changelog-${stamp}.json`), json, 'utf8');
+
+  // Timestamped names sort oldest first.
+  const archived = archiveFiles();
+  for (const file of archived.slice(0, Math.max(0, archived.length - MAX_ARCHIVED_CHANGELOGS))) {
+    fs.unlinkSync(path.join(CHANGELOG_ARCHIVE_DIR, file));
+  }
+}
+
+function archiveFiles(): string[] {
+  if (!fs.existsSync(CHANGELOG_ARCHIVE_DIR)) return [];
+  return fs
+    .readdirSync(CHANGELOG_ARCHIVE_DIR)
+    .filter((file) => /^osm-changelog-.*\.json$/.test(file))
+    .sort();
+}
+
+/** Every archived changelog, oldest first. */
+export function readArchivedChangelogs(): OsmChangelog[] {
+  return archiveFiles()
+    .map((file) => fs.readFileSync(path.join(CHANGELOG_ARCHIVE_DIR, file), 'utf8'))
+    .map((json) => JSON.parse(json) as OsmChangelog)
+    .sort((a, b) => a.generated_at.localeCompare(b.generated_at));
+}
+
+/**
+ * The archived changelogs of every scrape after the one generated at
+ * `since`, oldest first. Null when there's no `since`, or its changelog has
+ * been pruned, so what changed after it can't be told – callers should then
+ * process everything.
+ */
+export function readChangelogsSince(since: string | undefined): OsmChangelog[] | null {
+  const changelogs = readArchivedChangelogs();
+  if (!since || !changelogs.some((c) => c.generated_at === since)) return null;
+  return changelogs.filter((c) => c.generated_at > since);
+}
+
+/** Relation ids whose raw data was added or changed in any of the changelogs. */
+export function changedRelationIds(changelogs: OsmChangelog[]): Set<number> {
+  return new Set([...lastChangedAt(changelogs).keys()]);
+}
+
+/** When each added or changed relation last changed, across the changelogs. */
+export function lastChangedAt(changelogs: OsmChangelog[]): Map<number, string> {
+  const changedAt = new Map<number, string>();
+  for (const changelog of changelogs) {
+    for (const entry of [...changelog.added, ...changelog.geometry_changed, ...changelog.tags_changed]) {
+      const previous = changedAt.get(entry.id);
+      if (!previous || previous < changelog.generated_at) changedAt.set(entry.id, changelog.generated_at);
+    }
+  }
+  return changedAt;
+}
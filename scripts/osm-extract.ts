@@ -0,0 +1,642 @@
+// scripts/osm-extract.ts
+//
+// Reads route relations (plus the ways and nodes they need) from a local
+// OSM extract instead of the Overpass API. Supports Geofabrik-style
+// `.osm.pbf` files and plain `.osm` XML.
+//
+// A UK extract is far too large to hold in memory, so the file is scanned
+// three times: relations first, then only the ways those relations use,
+// then only the nodes those ways use. Child relations (e.g. the stages of a
+// superroute) are fetched with extra relation passes as needed. The result
+// has the same shape as an Overpass `out body; >; out skel qt;` response.
+//
+// readTaggedFeatures() does the same for tagged features such as coastline
+// or lakes, and readTaggedPoints() reduces them to points (car parks).
+
+import fs from 'node:fs';
+import zlib from 'node:zlib';
+import type { OsmElement, OsmNode, OsmRelation, OsmRelationMember, OsmWay } from './osm-geometry';
+
+type ScanWants = {
+  nodes?: boolean;
+  nodeTags?: boolean; // decoding every node's tags is slow, so opt in
+  ways?: boolean;
+  relations?: boolean;
+};
+
+// A tagged node, or a tagged way reduced to the centre of its bounding box
+// (like Overpass `out center`).
+export type TaggedPoint = {
+  type: 'node' | 'way';
+  id: number;
+  lat: number;
+  lon: number;
+  tags: Record<string, string>;
+};
+
+// A tagged node, way or multipolygon with its geometry as lon/lat lines: a
+// node is one single-point line, a multipolygon the lines of its outer ways.
+export type TaggedFeature = {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  tags: Record<string, string>;
+  lines: [number, number][][];
+};
+
+type Visitor = (el: OsmElement) => void;
+
+// How many levels of relation-in-relation nesting to follow.
+const MAX_NESTING_DEPTH = 4;
+
+// ---------- PBF (protobuf) ----------
+
+const MEMBER_TYPES: OsmRelationMember['type'][] = ['node', 'way', 'relation'];
+
+/**
+ * Minimal protobuf reader covering the wire types used by the OSM PBF
+ * format. Varints are decoded with floating point maths so 64-bit ids up to
+ * 2^53 survive intact.
+ */
+class PbfReader {
+  pos: number;
+  end: number;
+
+  constructor(
+    private buf: Uint8Array,
+    start = 0,
+    end = buf.length
+  ) {
+    this.pos = start;
+    this.end = end;
+  }
+
+  varint(): number {
+    let result = 0;
+    let mul = 1;
+    let b: number;
+    do {
+      b = this.buf[this.pos++];
+      result += (b & 0x7f) * mul;
+      mul *= 128;
+    } while (b & 0x80);
+    // Negative int64 values are encoded as ten-byte two's complement.
+    return result >= 2 ** 63 ? result - 2 ** 64 : result;
+  }
+
+  svarint(): number {
+    const n = this.varint();
+    return n % 2 === 1 ? -(n + 1) / 2 : n / 2;
+  }
+
+  bytes(): Uint8Array {
+    const len = this.varint();
+    const out = this.buf.subarray(this.pos, this.pos + len);
+    this.pos += len;
+    return out;
+  }
+
+  string(): string {
+    return Buffer.from(this.bytes()).toString('utf8');
+  }
+
+  packed(read: (r: PbfReader) => number): number[] {
+    const len = this.varint();
+    const end = this.pos + len;
+    const out: number[] = [];
+    while (this.pos < end) out.push(read(this));
+    return out;
+  }
+
+  skip(wireType: number) {
+    if (wireType === 0) this.varint();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 2) {
+      const len = this.varint();
+      this.pos += len;
+    }
+    else if (wireType === 5) this.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+
+  /** Iterate fields as [fieldNumber, wireType] until the end of the message. */
+  *fields(): Generator<[number, number]> {
+    while (this.pos < this.end) {
+      const key = this.varint();
+      yield [Math.floor(key / 8), key % 8];
+    }
+  }
+}
+
+const readVarint = (r: PbfReader) => r.varint();
+const readSvarint = (r: PbfReader) => r.svarint();
+
+function deltaDecode(values: number[]): number[] {
+  let acc = 0;
+  return values.map((v) => (acc += v));
+}
+
+function readBlobHeader(buf: Uint8Array): { type: string; datasize: number } {
+  const r = new PbfReader(buf);
+  let type = '';
+  let datasize = 0;
+  for (const [field, wire] of r.fields()) {
+    if (field === 1) type = r.string();
+    else if (field === 3) datasize = r.varint();
+    else r.skip(wire);
+  }
+  return { type, datasize };
+}
+
+function readBlob(buf: Uint8Array): Uint8Array {
+  const r = new PbfReader(buf);
+  for (const [field, wire] of r.fields()) {
+    if (field === 1) return r.bytes();
+    if (field === 3) return zlib.inflateSync(r.bytes());
+    if (field === 4 || field === 5 || field === 6 || field === 7) {
+      throw new Error('Only raw and zlib-compressed PBF blobs are supported');
+    }
+    r.skip(wire);
+  }
+  throw new Error('PBF blob has no data');
+}
+
+type BlockContext = {
+  strings: Uint8Array[];
+  decoded: (string | undefined)[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+};
+
+function str(ctx: BlockContext, index: number): string {
+  let s = ctx.decoded[index];
+  if (s === undefined) {
+    s = Buffer.from(ctx.strings[index]).toString('utf8');
+    ctx.decoded[index] = s;
+  }
+  return s;
+}
+
+function tagsFrom(ctx: BlockContext, keys: number[], vals: number[]) {
+  if (keys.length === 0) return undefined;
+  const tags: Record<string, string> = {};
+  for (let i = 0; i < keys.length; i++) tags[str(ctx, keys[i])] = str(ctx, vals[i]);
+  return tags;
+}
+
+function toDegrees(ctx: BlockContext, offset: number, value: number): number {
+  return Math.round((offset + ctx.granularity * value) / 100) / 1e7;
+}
+
+function readNode(ctx: BlockContext, buf: Uint8Array, wants: ScanWants, visit: Visitor) {
+  const r = new PbfReader(buf);
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  for (const [field, wire] of r.fields()) {
+    if (field === 1) id = r.svarint();
+    else if (field === 2 && wants.nodeTags) keys = r.packed(readVarint);
+    else if (field === 3 && wants.nodeTags) vals = r.packed(readVarint);
+    else if (field === 8) lat = r.svarint();
+    else if (field === 9) lon = r.svarint();
+    else r.skip(wire);
+  }
+  visit({
+    type: 'node',
+    id,
+    lat: toDegrees(ctx, ctx.latOffset, lat),
+    lon: toDegrees(ctx, ctx.lonOffset, lon),
+    tags: tagsFrom(ctx, keys, vals),
+  });
+}
+
+function readDenseNodes(ctx: BlockContext, buf: Uint8Array, wants: ScanWants, visit: Visitor) {
+  const r = new PbfReader(buf);
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+  let keysVals: number[] = [];
+  for (const [field, wire] of r.fields()) {
+    if (field === 1) ids = deltaDecode(r.packed(readSvarint));
+    else if (field === 8) lats = deltaDecode(r.packed(readSvarint));
+    else if (field === 9) lons = deltaDecode(r.packed(readSvarint));
+    else if (field === 10 && wants.nodeTags) keysVals = r.packed(readVarint);
+    else r.skip(wire);
+  }
+
+  // keys_vals holds each node's key/value string ids, ended by a 0.
+  let kv = 0;
+  for (let i = 0; i < ids.length; i++) {
+    let tags: Record<string, string> | undefined;
+    while (kv < keysVals.length && keysVals[kv] !== 0) {
+      tags ??= {};
+      tags[str(ctx, keysVals[kv])] = str(ctx, keysVals[kv + 1]);
+      kv += 2;
+    }
+    kv++;
+
+    visit({
+      type: 'node',
+      id: ids[i],
+      lat: toDegrees(ctx, ctx.latOffset, lats[i]),
+      lon: toDegrees(ctx, ctx.lonOffset, lons[i]),
+      tags,
+    });
+  }
+}
+
+function readWay(ctx: BlockContext, buf: Uint8Array, visit: Visitor) {
+  const r = new PbfReader(buf);
+  let id = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  let refs: number[] = [];
+  for (const [field, wire] of r.fields()) {
+    if (field === 1) id = r.varint();
+    else if (field === 2) keys = r.packed(readVarint);
+    else if (field === 3) vals = r.packed(readVarint);
+    else if (field === 8) refs = deltaDecode(r.packed(readSvarint));
+    else r.skip(wire);
+  }
+  visit({ type: 'way', id, nodes: refs, tags: keys.length > 0 ? tagsFrom(ctx, keys, vals) : undefined });
+}
+
+function readRelation(ctx: BlockContext, buf: Uint8Array, visit: Visitor) {
+  const r = new PbfReader(buf);
+  let id = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  let roles: number[] = [];
+  let memids: number[] = [];
+  let types: number[] = [];
+  for (const [field, wire] of r.fields()) {
+    if (field === 1) id = r.varint();
+    else if (field === 2) keys = r.packed(readVarint);
+    else if (field === 3) vals = r.packed(readVarint);
+    else if (field === 8) roles = r.packed(readVarint);
+    else if (field === 9) memids = deltaDecode(r.packed(readSvarint));
+    else if (field === 10) types = r.packed(readVarint);
+    else r.skip(wire);
+  }
+
+  const members: OsmRelationMember[] = memids.map((ref, i) => ({
+    type: MEMBER_TYPES[types[i]] ?? 'node',
+    ref,
+    role: str(ctx, roles[i]),
+  }));
+
+  visit({ type: 'relation', id, tags: tagsFrom(ctx, keys, vals), members });
+}
+
+function readPrimitiveBlock(data: Uint8Array, wants: ScanWants, visit: Visitor) {
+  const r = new PbfReader(data);
+  const groups: Uint8Array[] = [];
+  const ctx: BlockContext = {
+    strings: [],
+    decoded: [],
+    granularity: 100,
+    latOffset: 0,
+    lonOffset: 0,
+  };
+
+  for (const [field, wire] of r.fields()) {
+    if (field === 1) {
+      const st = new PbfReader(r.bytes());
+      for (const [f, w] of st.fields()) {
+        if (f === 1) ctx.strings.push(st.bytes());
+        else st.skip(w);
+      }
+    } else if (field === 2) groups.push(r.bytes());
+    else if (field === 17) ctx.granularity = r.varint();
+    else if (field === 19) ctx.latOffset = r.varint();
+    else if (field === 20) ctx.lonOffset = r.varint();
+    else r.skip(wire);
+  }
+
+  for (const group of groups) {
+    const g = new PbfReader(group);
+    for (const [field, wire] of g.fields()) {
+      if (field === 1 && wants.nodes) readNode(ctx, g.bytes(), wants, visit);
+      else if (field === 2 && wants.nodes) readDenseNodes(ctx, g.bytes(), wants, visit);
+      else if (field === 3 && wants.ways) readWay(ctx, g.bytes(), visit);
+      else if (field === 4 && wants.relations) readRelation(ctx, g.bytes(), visit);
+      else g.skip(wire);
+    }
+  }
+}
+
+async function scanPbf(file: string, wants: ScanWants, visit: Visitor) {
+  const fd = fs.openSync(file, 'r');
+  try {
+    const size = fs.fstatSync(fd).size;
+    const lenBuf = Buffer.alloc(4);
+    let offset = 0;
+
+    while (offset < size) {
+      fs.readSync(fd, lenBuf, 0, 4, offset);
+      offset += 4;
+
+      const headerBuf = Buffer.alloc(lenBuf.readUInt32BE(0));
+      fs.readSync(fd, headerBuf, 0, headerBuf.length, offset);
+      offset += headerBuf.length;
+      const header = readBlobHeader(headerBuf);
+
+      if (header.type !== 'OSMData') {
+        offset += header.datasize;
+        continue;
+      }
+
+      const blobBuf = Buffer.alloc(header.datasize);
+      fs.readSync(fd, blobBuf, 0, blobBuf.length, offset);
+      offset += blobBuf.length;
+
+      readPrimitiveBlock(readBlob(blobBuf), wants, visit);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// ---------- XML ----------
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(source))) {
+    attrs[m[1]] = decodeXml(m[2] ?? m[3] ?? '');
+  }
+  return attrs;
+}
+
+async function scanXml(file: string, wants: ScanWants, visit: Visitor) {
+  const stream = fs.createReadStream(file, { encoding: 'utf8', highWaterMark: 1 << 20 });
+  const tagRe = /<(\/?)([a-zA-Z]+)([^>]*?)(\/?)>/g;
+
+  let pending = '';
+  let current: OsmElement | null = null;
+  let wanted = false;
+
+  const finish = () => {
+    if (current && wanted) visit(current);
+    current = null;
+  };
+
+  for await (const chunk of stream) {
+    const text = pending + (chunk as string);
+    const lastClose = text.lastIndexOf('>');
+    if (lastClose === -1) {
+      pending = text;
+      continue;
+    }
+    pending = text.slice(lastClose + 1);
+    const body = text.slice(0, lastClose + 1);
+
+    tagRe.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = tagRe.exec(body))) {
+      const [, closing, name, rawAttrs, selfClosing] = m;
+
+      if (closing) {
+        if (name === 'node' || name === 'way' || name === 'relation') finish();
+        continue;
+      }
+
+      if (name === 'node' || name === 'way' || name === 'relation') {
+        wanted =
+          (name === 'node' && !!wants.nodes) ||
+          (name === 'way' && !!wants.ways) ||
+          (name === 'relation' && !!wants.relations);
+        if (!wanted) {
+          current = null;
+          continue;
+        }
+
+        const attrs = parseAttributes(rawAttrs);
+        const id = Number(attrs.id);
+        if (name === 'node') {
+          current = { type: 'node', id, lat: Number(attrs.lat), lon: Number(attrs.lon) };
+        } else if (name === 'way') {
+          current = { type: 'way', id, nodes: [] };
+        } else {
+          current = { type: 'relation', id, members: [] };
+        }
+        if (selfClosing) finish();
+        continue;
+      }
+
+      if (!current || !wanted) continue;
+
+      if (name === 'nd' && current.type === 'way') {
+        current.nodes.push(Number(parseAttributes(rawAttrs).ref));
+      } else if (name === 'member' && current.type === 'relation') {
+        const attrs = parseAttributes(rawAttrs);
+        current.members!.push({
+          type: attrs.type as OsmRelationMember['type'],
+          ref: Number(attrs.ref),
+          role: attrs.role ?? '',
+        });
+      } else if (name === 'tag' && (current.type !== 'node' || wants.nodeTags)) {
+        const attrs = parseAttributes(rawAttrs);
+        current.tags = { ...(current.tags ?? {}), [attrs.k]: attrs.v };
+      }
+    }
+  }
+}
+
+// ---------- public API ----------
+
+/**
+ * Load route relations matching `isRouteRelation`, plus every way and node
+ * needed to build their geometry, from a local `.osm.pbf` or `.osm` file.
+ * Relations matching `isParentRelation` (e.g. superroutes) are loaded only
+ * when one of their members matches `isRouteRelation`.
+ */
+export async function readOsmExtract(
+  file: string,
+  isRouteRelation: (tags: Record<string, string>) => boolean,
+  isParentRelation?: (tags: Record<string, string>) => boolean
+): Promise<{ elements: OsmElement[] }> {
+  if (!fs.existsSync(file)) {
+    throw new Error(`OSM extract not found: ${file}`);
+  }
+
+  const scan = /\.pbf$/i.test(file) ? scanPbf : scanXml;
+
+  console.log('Pass 1/3: route relations…');
+  const relationsById = new Map<number, OsmRelation>();
+  const parents: OsmRelation[] = [];
+  await scan(file, { relations: true }, (el) => {
+    if (el.type !== 'relation') return;
+    if (isRouteRelation(el.tags ?? {})) relationsById.set(el.id, el);
+    else if (isParentRelation?.(el.tags ?? {})) parents.push(el);
+  });
+  // Only known once every route relation has been seen.
+  for (const rel of parents) {
+    if (rel.members?.some((m) => m.type === 'relation' && relationsById.has(m.ref))) {
+      relationsById.set(rel.id, rel);
+    }
+  }
+
+  for (let depth = 0; depth < MAX_NESTING_DEPTH; depth++) {
+    const missing = new Set<number>();
+    for (const rel of relationsById.values()) {
+      for (const m of rel.members ?? []) {
+        if (m.type === 'relation' && !relationsById.has(m.ref)) missing.add(m.ref);
+      }
+    }
+    if (missing.size === 0) break;
+
+    console.log(`Pass 1/3: ${missing.size} child relations…`);
+    const before = relationsById.size;
+    await scan(file, { relations: true }, (el) => {
+      if (el.type === 'relation' && missing.has(el.id)) relationsById.set(el.id, el);
+    });
+    if (relationsById.size === before) break; // outside the extract
+  }
+
+  const relations = [...relationsById.values()].sort((a, b) => a.id - b.id);
+
+  const wayIds = new Set<number>();
+  for (const rel of relations) {
+    for (const m of rel.members ?? []) if (m.type === 'way') wayIds.add(m.ref);
+  }
+
+  console.log(`Pass 2/3: ${wayIds.size} member ways…`);
+  const ways: OsmWay[] = [];
+  await scan(file, { ways: true }, (el) => {
+    if (el.type === 'way' && wayIds.has(el.id)) ways.push(el);
+  });
+
+  const nodeIds = new Set<number>();
+  for (const way of ways) for (const id of way.nodes) nodeIds.add(id);
+
+  console.log(`Pass 3/3: ${nodeIds.size} way nodes…`);
+  const nodes: OsmNode[] = [];
+  await scan(file, { nodes: true }, (el) => {
+    if (el.type === 'node' && nodeIds.has(el.id)) nodes.push(el);
+  });
+
+  return { elements: [...relations, ...ways, ...nodes] };
+}
+
+/**
+ * Load every node and way whose tags match `isWanted`, with full geometry,
+ * from a local `.osm.pbf` or `.osm` file. With `relations`, matching
+ * multipolygon relations are included too, as the lines of their outer ways.
+ */
+export async function readTaggedFeatures(
+  file: string,
+  isWanted: (tags: Record<string, string>) => boolean,
+  { relations = false } = {}
+): Promise<TaggedFeature[]> {
+  if (!fs.existsSync(file)) {
+    throw new Error(`OSM extract not found: ${file}`);
+  }
+
+  const scan = /\.pbf$/i.test(file) ? scanPbf : scanXml;
+  const passes = relations ? 3 : 2;
+  let pass = 0;
+
+  const multipolygons: OsmRelation[] = [];
+  const memberWayIds = new Set<number>();
+  if (relations) {
+    console.log(`Pass ${++pass}/${passes}: tagged multipolygons…`);
+    await scan(file, { relations: true }, (el) => {
+      if (el.type !== 'relation' || !el.tags) return;
+      if (el.tags.type !== 'multipolygon' || !isWanted(el.tags)) return;
+      multipolygons.push(el);
+      for (const m of el.members ?? []) {
+        if (m.type === 'way' && m.role !== 'inner') memberWayIds.add(m.ref);
+      }
+    });
+  }
+
+  console.log(`Pass ${++pass}/${passes}: tagged nodes and ways…`);
+  const features: TaggedFeature[] = [];
+  const ways = new Map<number, OsmWay>();
+  const taggedWays: OsmWay[] = [];
+  await scan(file, { nodes: true, nodeTags: true, ways: true }, (el) => {
+    if (el.type === 'way' && memberWayIds.has(el.id)) ways.set(el.id, el);
+    if (!el.tags || !isWanted(el.tags)) return;
+    if (el.type === 'node') {
+      features.push({ type: 'node', id: el.id, tags: el.tags, lines: [[[el.lon, el.lat]]] });
+    } else if (el.type === 'way') {
+      ways.set(el.id, el);
+      taggedWays.push(el);
+    }
+  });
+
+  const nodeIds = new Set<number>();
+  for (const way of ways.values()) for (const id of way.nodes) nodeIds.add(id);
+
+  console.log(`Pass ${++pass}/${passes}: ${nodeIds.size} way nodes…`);
+  const coords = new Map<number, [number, number]>();
+  await scan(file, { nodes: true }, (el) => {
+    if (el.type === 'node' && nodeIds.has(el.id)) coords.set(el.id, [el.lon, el.lat]);
+  });
+
+  const wayLine = (way: OsmWay) =>
+    way.nodes.map((id) => coords.get(id)).filter((c): c is [number, number] => !!c);
+
+  for (const way of taggedWays) {
+    const line = wayLine(way);
+    if (line.length > 0) features.push({ type: 'way', id: way.id, tags: way.tags!, lines: [line] });
+  }
+  for (const rel of multipolygons) {
+    const lines = (rel.members ?? [])
+      .filter((m) => m.type === 'way' && m.role !== 'inner' && ways.has(m.ref))
+      .map((m) => wayLine(ways.get(m.ref)!))
+      .filter((line) => line.length > 0);
+    if (lines.length > 0) features.push({ type: 'relation', id: rel.id, tags: rel.tags!, lines });
+  }
+
+  return features;
+}
+
+/**
+ * Load every node and way whose tags match `isWanted` (e.g. car parks),
+ * reduced to points, from a local `.osm.pbf` or `.osm` file.
+ */
+export async function readTaggedPoints(
+  file: string,
+  isWanted: (tags: Record<string, string>) => boolean
+): Promise<TaggedPoint[]> {
+  const features = await readTaggedFeatures(file, isWanted);
+
+  return features.map((f) => {
+    const [line] = f.lines;
+    const lons = line.map((c) => c[0]);
+    const lats = line.map((c) => c[1]);
+    return {
+      type: f.type === 'node' ? 'node' : 'way',
+      id: f.id,
+      lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+      lon: (Math.min(...lons) + Math.max(...lons)) / 2,
+      tags: f.tags,
+    };
+  });
+}
@@ -0,0 +1,450 @@
+// scripts/osm-geometry.ts
+//
+// OSM element types and route relation geometry building.
+//
+// Long-distance trails are often superroutes whose members are stage
+// relations rather than ways; those child relations are expanded
+// recursively, in member order, before stitching.
+//
+// Route relations list their ways in (roughly) travel order, but individual
+// ways are frequently stored backwards, members are sometimes out of order,
+// and real gaps exist where a route is not fully mapped. Instead of blindly
+// concatenating member nodes we stitch ways together on shared endpoint
+// nodes, and emit a MultiLineString only when segments genuinely can't be
+// joined.
+
+import { haversineKm, lineLengthKm, LonLat } from './geo';
+import type { PathTagKey, PathTagShares, RawOsmHike, RouteGeometry } from './hike-types';
+
+export type OsmNode = {
+  type: 'node';
+  id: number;
+  lat: number;
+  lon: number;
+  tags?: Record<string, string>;
+};
+
+export type OsmWay = {
+  type: 'way';
+  id: number;
+  nodes: number[];
+  tags?: Record<string, string>;
+};
+
+export type OsmRelationMember = {
+  type: 'node' | 'way' | 'relation';
+  ref: number;
+  role?: string;
+};
+
+export type OsmRelation = {
+  type: 'relation';
+  id: number;
+  tags?: Record<string, string>;
+  members?: OsmRelationMember[];
+};
+
+export type OsmElement = OsmNode | OsmWay | OsmRelation;
+
+export interface RelationGeometry {
+  geometry: RouteGeometry | null;
+  gapCount: number;
+  gapLengthKm: number;
+}
+
+// Segments whose ends are closer than this are treated as connected; this
+// absorbs ways that meet visually but don't share a node.
+const GAP_TOLERANCE_KM = 0.025;
+
+// Ends closer than this are the same point (a shared node, or one a
+// rounding error away), which is kept once when the segments are joined.
+const SAME_POINT_KM = 0.001;
+
+// Member roles that describe side trips rather than the main line. They are
+// only used when a relation has nothing else.
+const SIDE_ROLES = new Set(['alternative', 'excursion', 'approach', 'connection']);
+
+// Member roles that never contribute to the walked line.
+const IGNORED_ROLES = new Set(['platform', 'stop', 'guidepost', 'board']);
+
+// Member relations with these `type` tags are walked into; anything else
+// (route_master variants, sites, multipolygons) is not part of the line.
+const NESTED_ROUTE_TYPES = new Set(['route', 'superroute']);
+
+type WayPart = {
+  index: number; // member order
+  wayId: number;
+  nodes: number[]; // node ids in travel order (already flipped for "backward")
+  oriented: boolean; // forward/backward members may not be reversed
+};
+
+type Chain = {
+  nodes: number[];
+  oriented: boolean;
+};
+
+export function isRouteMaster(relation: OsmRelation): boolean {
+  return relation.tags?.type === 'route_master';
+}
+
+export function isSuperRoute(relation: OsmRelation): boolean {
+  return relation.tags?.type === 'superroute';
+}
+
+/**
+ * Way members of a relation in member order, with child route relations
+ * expanded in place. A side role on the child relation member (e.g. an
+ * "alternative" stage) applies to all of its ways.
+ */
+function flattenWayMembers(
+  relation: OsmRelation,
+  relationsById: Map<number, OsmRelation> | undefined,
+  seen: Set<number>,
+  inheritedRole = ''
+): OsmRelationMember[] {
+  seen.add(relation.id);
+  const out: OsmRelationMember[] = [];
+
+  for (const member of relation.members ?? []) {
+    if (member.type === 'way') {
+      out.push(SIDE_ROLES.has(inheritedRole) ? { ...member, role: inheritedRole } : member);
+    } else if (member.type === 'relation') {
+      const child = relationsById?.get(member.ref);
+      if (!child || seen.has(child.id)) continue; // missing or cyclic
+      if (!NESTED_ROUTE_TYPES.has(child.tags?.type ?? '')) continue;
+
+      const role = (member.role ?? '').trim().toLowerCase();
+      out.push(...flattenWayMembers(child, relationsById, seen, role || inheritedRole));
+    }
+  }
+
+  return out;
+}
+
+function collectWayParts(
+  relation: OsmRelation,
+  waysById: Map<number, OsmWay>,
+  relationsById?: Map<number, OsmRelation>
+): WayPart[] {
+  const main: WayPart[] = [];
+  const side: WayPart[] = [];
+
+  for (const member of flattenWayMembers(relation, relationsById, new Set())) {
+    const role = (member.role ?? '').trim().toLowerCase();
+    if (IGNORED_ROLES.has(role)) continue;
+
+    const way = waysById.get(member.ref);
+    if (!way || !Array.isArray(way.nodes) || way.nodes.length < 2) continue;
+
+    const part: WayPart = {
+      index: main.length + side.length,
+      wayId: way.id,
+      nodes: role === 'backward' ? [...way.nodes].reverse() : [...way.nodes],
+      oriented: role === 'forward' || role === 'backward',
+    };
+
+    if (SIDE_ROLES.has(role)) side.push(part);
+    else main.push(part);
+  }
+
+  return main.length > 0 ? main : side;
+}
+
+function first<T>(arr: T[]): T {
+  return arr[0];
+}
+
+function last<T>(arr: T[]): T {
+  return arr[arr.length - 1];
+}
+
+/**
+ * Greedily join way parts into node chains. Parts are taken in member order
+ * where possible, but any unused part sharing the chain's tail (or head)
+ * node is accepted, so out-of-order members still join up.
+ */
+function stitchWayParts(parts: WayPart[]): Chain[] {
+  const unused = new Set<number>(parts.map((p) => p.index));
+
+  // endpoint node id -> parts starting or ending there
+  const byEndpoint = new Map<number, WayPart[]>();
+  const addEndpoint = (nodeId: number, part: WayPart) => {
+    const list = byEndpoint.get(nodeId);
+    if (list) list.push(part);
+    else byEndpoint.set(nodeId, [part]);
+  };
+  for (const part of parts) {
+    addEndpoint(first(part.nodes), part);
+    if (last(part.nodes) !== first(part.nodes)) addEndpoint(last(part.nodes), part);
+  }
+
+  const visitedGlobal = new Set<number>();
+  const chains: Chain[] = [];
+
+  // Find an unused part continuing from `nodeId`, returned in travel order.
+  const findAfter = (nodeId: number, visited: Set<number>, chainStart: number) => {
+    const candidates = (byEndpoint.get(nodeId) ?? [])
+      .filter((p) => unused.has(p.index))
+      .sort((a, b) => a.index - b.index);
+
+    for (const part of candidates) {
+      let nodes: number[] | null = null;
+      if (first(part.nodes) === nodeId) nodes = part.nodes;
+      else if (!part.oriented && last(part.nodes) === nodeId) nodes = [...part.nodes].reverse();
+      if (!nodes) continue;
+
+      // A one-way member leading back into the line we've already walked is
+      // the return leg of a forward/backward split – skip it.
+      const end = last(nodes);
+      if (part.oriented && visited.has(end) && end !== chainStart) continue;
+
+      return { part, nodes };
+    }
+    return null;
+  };
+
+  // Find an unused part ending at `nodeId`, returned in travel order.
+  const findBefore = (nodeId: number) => {
+    const candidates = (byEndpoint.get(nodeId) ?? [])
+      .filter((p) => unused.has(p.index))
+      .sort((a, b) => a.index - b.index);
+
+    for (const part of candidates) {
+      if (last(part.nodes) === nodeId) return { part, nodes: part.nodes };
+      if (!part.oriented && first(part.nodes) === nodeId) {
+        return { part, nodes: [...part.nodes].reverse() };
+      }
+    }
+    return null;
+  };
+
+  for (const seed of parts) {
+    if (!unused.has(seed.index)) continue;
+    unused.delete(seed.index);
+
+    // Leftover one-way parts whose ends are both on an existing chain are
+    // the other direction of a split section; they add no new ground.
+    if (
+      seed.oriented &&
+      visitedGlobal.has(first(seed.nodes)) &&
+      visitedGlobal.has(last(seed.nodes))
+    ) {
+      continue;
+    }
+
+    let nodes = [...seed.nodes];
+    let oriented = seed.oriented;
+    const visited = new Set<number>(nodes);
+
+    // A lone unoriented way may be stored backwards relative to the next
+    // member; flip it so the chain follows member order.
+    if (!oriented && !findAfter(last(nodes), visited, first(nodes))) {
+      if (findAfter(first(nodes), visited, last(nodes))) nodes.reverse();
+    }
+
+    // Extend forwards from the tail.
+    for (;;) {
+      const next = findAfter(last(nodes), visited, first(nodes));
+      if (!next) break;
+      unused.delete(next.part.index);
+      oriented = oriented || next.part.oriented;
+      for (const id of next.nodes.slice(1)) {
+        nodes.push(id);
+        visited.add(id);
+      }
+    }
+
+    // Extend backwards from the head for members listed after their
+    // successors.
+    for (;;) {
+      const prev = findBefore(first(nodes));
+      if (!prev) break;
+      unused.delete(prev.part.index);
+      oriented = oriented || prev.part.oriented;
+      nodes = [...prev.nodes.slice(0, -1), ...nodes];
+      for (const id of prev.nodes) visited.add(id);
+    }
+
+    for (const id of visited) visitedGlobal.add(id);
+    chains.push({ nodes, oriented });
+  }
+
+  return chains;
+}
+
+function chainToCoords(chain: Chain, nodesById: Map<number, OsmNode>): LonLat[] {
+  const coords: LonLat[] = [];
+  for (const id of chain.nodes) {
+    const node = nodesById.get(id);
+    if (!node) continue;
+    const prev = coords[coords.length - 1];
+    if (prev && prev[0] === node.lon && prev[1] === node.lat) continue;
+    coords.push([node.lon, node.lat]);
+  }
+  return coords;
+}
+
+/**
+ * Join segments end-to-start, flipping unoriented segments where that
+ * closes a smaller gap. Ends within GAP_TOLERANCE_KM are merged, without
+ * repeating a join point the two segments share.
+ */
+function joinSegments(
+  segments: { coords: LonLat[]; oriented: boolean }[]
+): { lines: LonLat[][]; gapCount: number; gapLengthKm: number } {
+  const lines: LonLat[][] = [];
+  let gapCount = 0;
+  let gapLengthKm = 0;
+
+  for (const seg of segments) {
+    let coords = seg.coords;
+    const prev = lines[lines.length - 1];
+
+    if (!prev) {
+      lines.push([...coords]);
+      continue;
+    }
+
+    const tail = last(prev);
+    let gap = haversineKm(tail, first(coords));
+    if (!seg.oriented) {
+      const reversedGap = haversineKm(tail, last(coords));
+      if (reversedGap < gap) {
+        coords = [...coords].reverse();
+        gap = reversedGap;
+      }
+    }
+
+    if (gap <= GAP_TOLERANCE_KM) {
+      // One at a time: spreading a long chain into push() can overflow the
+      // argument limit.
+      for (let i = gap < SAME_POINT_KM ? 1 : 0; i < coords.length; i++) prev.push(coords[i]);
+    } else {
+      gapCount++;
+      gapLengthKm += gap;
+      lines.push([...coords]);
+    }
+  }
+
+  return { lines, gapCount, gapLengthKm };
+}
+
+/**
+ * Build a LineString (or MultiLineString when the route has real gaps) for
+ * a single route relation using pre-built node/way maps. Pass
+ * `relationsById` to include the ways of nested stage relations.
+ */
+export function buildRelationGeometry(
+  relation: OsmRelation,
+  waysById: Map<number, OsmWay>,
+  nodesById: Map<number, OsmNode>,
+  relationsById?: Map<number, OsmRelation>
+): RelationGeometry {
+  const parts = collectWayParts(relation, waysById, relationsById);
+  const chains = stitchWayParts(parts);
+
+  const segments = chains
+    .map((chain) => ({ coords: chainToCoords(chain, nodesById), oriented: chain.oriented }))
+    .filter((seg) => seg.coords.length >= 2);
+
+  const { lines, gapCount, gapLengthKm } = joinSegments(segments);
+  const roundedGapKm = Math.round(gapLengthKm * 100) / 100;
+
+  if (lines.length === 0) {
+    return { geometry: null, gapCount: 0, gapLengthKm: 0 };
+  }
+
+  if (lines.length === 1) {
+    return {
+      geometry: { type: 'LineString', coordinates: lines[0] },
+      gapCount,
+      gapLengthKm: roundedGapKm,
+    };
+  }
+
+  return {
+    geometry: { type: 'MultiLineString', coordinates: lines },
+    gapCount,
+    gapLengthKm: roundedGapKm,
+  };
+}
+
+/**
+ * Share of the route's way length (0–1) carrying each value of the given
+ * way tags, e.g. `{ sac_scale: { hiking: 0.8, mountain_hiking: 0.2 } }`.
+ * Ways without the tag aren't counted, so shares can sum to less than 1.
+ */
+export function pathTagShares(
+  relation: OsmRelation,
+  waysById: Map<number, OsmWay>,
+  nodesById: Map<number, OsmNode>,
+  keys: readonly PathTagKey[],
+  relationsById?: Map<number, OsmRelation>
+): PathTagShares {
+  const lengths = new Map<string, Map<string, number>>();
+  let total = 0;
+  const seen = new Set<number>();
+
+  for (const part of collectWayParts(relation, waysById, relationsById)) {
+    if (seen.has(part.wayId)) continue; // forward/backward pairs, repeats
+    seen.add(part.wayId);
+
+    const coords = part.nodes
+      .map((id) => nodesById.get(id))
+      .filter((n): n is OsmNode => !!n)
+      .map((n): LonLat => [n.lon, n.lat]);
+    const len = lineLengthKm(coords);
+    total += len;
+
+    const tags = waysById.get(part.wayId)?.tags ?? {};
+    for (const key of keys) {
+      const value = tags[key];
+      if (!value) continue;
+      const byValue = lengths.get(key) ?? new Map<string, number>();
+      byValue.set(value, (byValue.get(value) ?? 0) + len);
+      lengths.set(key, byValue);
+    }
+  }
+
+  const shares: PathTagShares = {};
+  if (total === 0) return shares;
+  for (const [key, byValue] of lengths) {
+    shares[key as PathTagKey] = Object.fromEntries(
+      [...byValue].map(([value, len]) => [value, Math.round((len / total) * 1000) / 1000])
+    );
+  }
+  return shares;
+}
+
+/**
+ * Line segments of a route geometry, in travel order.
+ */
+export function geometrySegments(geometry: RouteGeometry): LonLat[][] {
+  return geometry.type === 'LineString' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+/**
+ * Line segments for a raw hike, falling back to the flat `coordinates` list
+ * written by scrapes that pre-date way stitching.
+ */
+export function rawHikeSegments(raw: RawOsmHike): LonLat[][] {
+  if (raw.geometry) return geometrySegments(raw.geometry);
+  return raw.coordinates && raw.coordinates.length > 0 ? [raw.coordinates] : [];
+}
+
+/**
+ * Parse an OSM `distance` tag into km. Plain numbers are km; "7 mi",
+ * "4.5 miles", "12km" and "800 m" are understood.
+ */
+export function parseDistanceTag(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/(\d+(?:[.,]\d+)?)\s*(km|mi|miles?|m)?\b/i);
+  if (!match) return null;
+
+  const n = Number(match[1].replace(',', '.'));
+  if (!Number.isFinite(n) || n <= 0) return null;
+  const unit = (match[2] ?? 'km').toLowerCase();
+  if (unit === 'm') return n / 1000;
+  if (unit.startsWith('mi')) return n * 1.609344;
+  return n;
+}
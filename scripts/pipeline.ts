@@ -0,0 +1,575 @@
+// scripts/pipeline.ts
+//
+// Runs the whole data pipeline (pnpm hikes:all). Each stage in STAGES is
+// one of the hikes:* / scrape:* scripts, run as its own process, with the
+// paths it reads and writes declared so the runner can:
+//
+//   - skip a stage whose inputs (content hashes, plus scripts/ and lib/ and
+//     the env vars it reads) haven't changed since the last successful run,
+//     and whose outputs haven't been touched since
+//   - run everything in a staging copy (.pipeline/staging, with the outputs
+//     copied and everything else linked), and only once every stage has
+//     succeeded move each output into place with a rename, so a failure
+//     leaves data/ and public/ exactly as they were
+//   - write a run manifest (HIKES_REPORT_DIR/pipeline-run.json) with what
+//     ran, how long it took and how many output files changed
+//
+// Flags (after `pnpm hikes:all --`):
+//   --dry-run        print what would run, and why, without running it
+//   --only a,b       run just these stages ("normalise" or "hikes:normalise")
+//   --from name      run this stage and everything after it
+//   --scrape         include the scrapes that fetch from Overpass
+//   --force          ignore the cache
+//
+// Scrapes that fetch live data can't be cached, so a plain run leaves them
+// out and works from the last scrape; they run with --scrape, or when named
+// in --only or --from. With OSM_INPUT_FILE they read the extract instead,
+// and are cached and run like any other stage.
+//
+// Stages must declare everything they write – everything else in the
+// staging copy is linked to the real tree, so after each stage the runner
+// checks that nothing outside its outputs changed, and fails it if anything
+// did – and be idempotent: re-running one on its own output changes
+// nothing. That's what lets a stage be skipped when the data it last saw is
+// still there at the start of the next run.
+
+import 'dotenv/config';
+import { spawnSync } from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const ROOT = process.cwd();
+const WORK_DIR = path.join(ROOT, '.pipeline');
+const STAGING_DIR = path.join(WORK_DIR, 'staging');
+const PREVIOUS_DIR = path.join(WORK_DIR, 'previous');
+const CACHE_FILE = path.join(WORK_DIR, 'cache.json');
+const TSX_CLI = path.join(ROOT, 'node_modules', 'tsx', 'dist', 'cli.mjs');
+
+// A relative HIKES_REPORT_DIR is inside the (staged) tree. Reports are
+// declared file by file, as several stages write to the same directory.
+const REPORT_DIR = process.env.HIKES_REPORT_DIR ?? 'data/reports';
+const report = (file: string) => `${REPORT_DIR}/${file}`;
+
+// Code every stage depends on: a change here reruns everything.
+const CODE_INPUTS = ['scripts', 'lib'];
+
+// Local-only input paths that can be moved with an env var. Stages get them
+// as absolute paths, since they run in the staging directory.
+const INPUT_PATH_VARS: Record<string, string | undefined> = {
+  OSM_INPUT_FILE: undefined,
+  DEM_DIR: path.join('data', 'dem'),
+  NAPTAN_DIR: path.join('data', 'naptan'),
+  BOUNDARIES_DIR: path.join('data', 'boundaries'),
+};
+
+type Stage = {
+  name: string; // the package.json script
+  script: string; // under scripts/
+  inputs: string[]; // paths read, relative to the repo unless absolute
+  outputs: string[]; // paths written, under data/ or public/
+  env?: string[]; // env vars that change the result
+  network?: boolean; // fetches live data, so is never cached or run by default
+  requires?: string; // env var without which the stage is skipped
+  advisory?: boolean; // a non-zero exit is reported but doesn't stop the run
+};
+
+function inputPath(name: string): string[] {
+  const value = process.env[name];
+  if (value) return [path.resolve(ROOT, value)];
+  const fallback = INPUT_PATH_VARS[name];
+  return fallback ? [fallback] : [];
+}
+
+// Scrapes read the extract when OSM_INPUT_FILE is set, and Overpass if not.
+const osmScrape = (stage: Omit<Stage, 'network' | 'env'>): Stage => ({
+  ...stage,
+  inputs: [...stage.inputs, ...inputPath('OSM_INPUT_FILE')],
+  env: ['OSM_INPUT_FILE'],
+  network: !process.env.OSM_INPUT_FILE,
+});
+
+const RAW = 'data/raw/osm';
+const HIKES = 'data/hikes';
+const NORMALISED = 'data/raw/osm-changelog-normalised.json'; // the last scrape normalise saw
+
+const STAGES: Stage[] = [
+  osmScrape({ name: 'scrape:access', script: 'scrape-access-points.ts', inputs: [], outputs: ['data/raw/access-points.json'] }),
+  osmScrape({ name: 'scrape:stops', script: 'scrape-stage-stops.ts', inputs: [], outputs: ['data/raw/stage-stops.json'] }),
+  osmScrape({ name: 'scrape:features', script: 'scrape-theme-features.ts', inputs: [], outputs: ['data/raw/theme-features.json'] }),
+  {
+    ...osmScrape({
+      name: 'scrape:osm',
+      script: 'scrape-osm-hikes.ts',
+      inputs: ['data/raw/access-points.json'],
+      outputs: [RAW, 'data/raw/osm-changelog.json', 'data/raw/changelog'],
+    }),
+    env: ['OSM_INPUT_FILE', 'MAX_OSM_RELATIONS', 'OSM_SKIP_EXISTING'],
+  },
+  {
+    name: 'hikes:normalise',
+    script: 'normalise-hikes.ts',
+    inputs: [RAW, 'data/raw/changelog', NORMALISED, 'data/postcodes/by-cell', HIKES],
+    outputs: [HIKES, NORMALISED],
+    env: ['HIKES_NORMALISE_ALL'],
+  },
+  { name: 'hikes:dedupe', script: 'dedupe-hikes.ts', inputs: [RAW, HIKES], outputs: [HIKES, report('duplicates.json')] },
+  { name: 'hikes:variants', script: 'assign-variants.ts', inputs: [RAW, HIKES], outputs: [HIKES, report('variants.json')] },
+  {
+    name: 'hikes:routes',
+    script: 'export-route-files.ts',
+    inputs: [RAW, HIKES],
+    outputs: [HIKES, 'public/gpx', 'public/geojson'],
+  },
+  { name: 'hikes:geometry', script: 'simplify-routes.ts', inputs: [RAW, HIKES], outputs: [HIKES, 'public/routes'] },
+  {
+    name: 'hikes:areas',
+    script: 'assign-areas.ts',
+    inputs: [RAW, HIKES, ...inputPath('BOUNDARIES_DIR')],
+    outputs: [HIKES],
+    env: ['HIKES_AREAS_ALL', 'BOUNDARIES_DIR'],
+  },
+  {
+    name: 'hikes:themes',
+    script: 'assign-themes.ts',
+    inputs: [RAW, HIKES, 'data/raw/theme-features.json'],
+    outputs: [HIKES],
+    env: ['HIKES_THEMES_ALL'],
+  },
+  {
+    name: 'hikes:transport',
+    script: 'assign-transport.ts',
+    inputs: [RAW, HIKES, ...inputPath('NAPTAN_DIR')],
+    outputs: [HIKES],
+    env: ['NAPTAN_DIR'],
+  },
+  {
+    name: 'hikes:elevation',
+    script: 'compute-elevation.ts',
+    inputs: [RAW, HIKES, ...inputPath('DEM_DIR')],
+    outputs: [HIKES],
+    env: ['HIKES_ELEVATION_ALL', 'DEM_DIR'],
+  },
+  {
+    name: 'hikes:stages',
+    script: 'plan-stages.ts',
+    inputs: [RAW, HIKES, 'data/raw/stage-stops.json'],
+    outputs: [HIKES, 'public/gpx'],
+    env: ['HIKES_STAGE_KM'],
+  },
+  {
+    name: 'hikes:grade',
+    script: 'grade-hikes.ts',
+    inputs: [RAW, HIKES, 'data/postcodes/by-cell'],
+    outputs: [HIKES],
+  },
+  {
+    name: 'hikes:enrich',
+    script: 'enrich-hikes.ts',
+    inputs: [HIKES, 'data/raw/changelog'],
+    outputs: [HIKES, 'data/hike-enrichment-usage.csv'],
+    env: ['HIKES_ENRICH_MAX_PER_RUN'],
+    requires: 'OPENAI_API_KEY',
+  },
+  { name: 'hikes:indexes', script: 'generate-indexes.ts', inputs: [HIKES], outputs: ['data/indexes'] },
+  { name: 'hikes:stats', script: 'hikes-stats.ts', inputs: [HIKES], outputs: ['data/hikes-stats.json'] },
+  {
+    name: 'hikes:validate',
+    script: 'validate-hikes.ts',
+    inputs: [RAW, HIKES],
+    outputs: [report('hikes-validation.json'), report('hikes-validation.html')],
+    advisory: true, // known data problems shouldn't hold back the rest
+  },
+];
+
+type StageStatus = 'ran' | 'cached' | 'skipped' | 'failed' | 'not-selected' | 'would-run';
+
+type StageResult = {
+  name: string;
+  status: StageStatus;
+  reason?: string;
+  duration_s?: number;
+  exit_code?: number;
+  outputs?: { files: number; added: number; changed: number; removed: number };
+};
+
+type RunManifest = {
+  started_at: string;
+  finished_at: string;
+  duration_s: number;
+  status: 'ok' | 'failed' | 'dry-run';
+  options: { only?: string[]; from?: string; scrape: boolean; force: boolean };
+  stages: StageResult[];
+  swapped: string[]; // outputs moved into place
+  hikes: number; // files in data/hikes afterwards
+};
+
+type Cache = {
+  // Per stage, hashes of its inputs and outputs at the end of its last
+  // successful run.
+  stages: Record<string, { input_key: string; output_key: string; at: string }>;
+  // File hashes, reused while a file's size and mtime are unchanged.
+  files: Record<string, { size: number; mtime: number; hash: string }>;
+};
+
+type Options = { dryRun: boolean; only?: string[]; from?: string; scrape: boolean; force: boolean };
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { dryRun: false, scrape: false, force: false };
+  const stageName = (name: string) => {
+    const match = STAGES.find((s) => s.name === name || s.name.split(':')[1] === name);
+    if (!match) throw new Error(`Unknown stage "${name}". Stages: ${STAGES.map((s) => s.name).join(', ')}`);
+    return match.name;
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const v = arg.includes('=') ? arg.split('=')[1] : argv[++i];
+      if (!v) throw new Error(`${arg} needs a value`);
+      return v;
+    };
+    if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--force') options.force = true;
+    else if (arg === '--scrape') options.scrape = true;
+    else if (arg.startsWith('--only')) options.only = value().split(',').map(stageName);
+    else if (arg.startsWith('--from')) options.from = stageName(value());
+    else if (arg !== '--') throw new Error(`Unknown option ${arg}`);
+  }
+  if (options.only && options.from) throw new Error('Use --only or --from, not both');
+  return options;
+}
+
+function isSelected(stage: Stage, options: Options): boolean {
+  if (options.only) return options.only.includes(stage.name);
+  if (options.from) return STAGES.indexOf(stage) >= STAGES.findIndex((s) => s.name === options.from);
+  return !stage.network || options.scrape;
+}
+
+function readCache(): Cache {
+  if (!fs.existsSync(CACHE_FILE)) return { stages: {}, files: {} };
+  return JSON.parse(fs.readFileSync(CACHE_FILE, 'utf8')) as Cache;
+}
+
+// ---------- content hashes ----------
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+/** Every file under `abs` (following links), as paths relative to it. */
+function listFiles(abs: string): string[] {
+  if (!fs.existsSync(abs)) return [];
+  if (!fs.statSync(abs).isDirectory()) return [''];
+  return fs
+    .readdirSync(abs)
+    .flatMap((entry) => listFiles(path.join(abs, entry)).map((f) => (f ? `${entry}/${f}` : entry)))
+    .sort();
+}
+
+/**
+ * Hash of each file under `p`, keyed by its path. Relative paths are
+ * resolved against `workRoot` (the repo, or the staging copy of it) but
+ * keyed as written, so the same file hashes the same in either.
+ */
+function fileHashes(p: string, workRoot: string, cache: Cache): Map<string, string> {
+  const abs = path.isAbsolute(p) ? p : path.join(workRoot, p);
+  const hashes = new Map<string, string>();
+  for (const rel of listFiles(abs)) {
+    const file = rel ? path.join(abs, rel) : abs;
+    const key = rel ? `${p}/${rel}` : p;
+    const stat = fs.statSync(file);
+    const mtime = Math.floor(stat.mtimeMs);
+    let known = cache.files[key];
+    if (!known || known.size !== stat.size || known.mtime !== mtime) {
+      known = { size: stat.size, mtime, hash: sha256(fs.readFileSync(file)) };
+      cache.files[key] = known;
+    }
+    hashes.set(key, known.hash);
+  }
+  return hashes;
+}
+
+function pathsKey(paths: string[], workRoot: string, cache: Cache): string {
+  const parts = [...new Set(paths)].sort().map((p) => {
+    const files = [...fileHashes(p, workRoot, cache)].map(([file, hash]) => `${file}:${hash}`);
+    return `${p}\n${files.join('\n')}`;
+  });
+  return sha256(parts.join('\n\n'));
+}
+
+function stageInputKey(stage: Stage, workRoot: string, codeKey: string, cache: Cache): string {
+  const env = (stage.env ?? []).map((name) => `${name}=${process.env[name] ?? ''}`);
+  return sha256([stage.script, codeKey, ...env, pathsKey(stage.inputs, workRoot, cache)].join('\n'));
+}
+
+// ---------- staging ----------
+
+const overlaps = (a: string, b: string) => a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+
+/**
+ * Mirror `rel` into the staging directory: outputs are copied, directories
+ * holding outputs are recreated, and everything else is linked.
+ */
+function mirror(rel: string, outputs: string[]) {
+  const live = path.join(ROOT, rel);
+  const staged = path.join(STAGING_DIR, rel);
+  if (outputs.includes(rel)) {
+    if (fs.existsSync(live)) fs.cpSync(live, staged, { recursive: true, preserveTimestamps: true });
+    return;
+  }
+  if (outputs.some((out) => out.startsWith(`${rel}/`))) {
+    fs.mkdirSync(staged, { recursive: true });
+    if (fs.existsSync(live)) for (const entry of fs.readdirSync(live)) mirror(`${rel}/${entry}`, outputs);
+    return;
+  }
+  if (fs.existsSync(live)) {
+    fs.symlinkSync(live, staged, fs.statSync(live).isDirectory() ? 'junction' : 'file');
+  }
+}
+
+function buildStaging(outputs: string[]) {
+  fs.rmSync(STAGING_DIR, { recursive: true, force: true });
+  fs.mkdirSync(STAGING_DIR, { recursive: true });
+  for (const top of new Set(outputs.map((out) => out.split('/')[0]))) mirror(top, outputs);
+}
+
+/**
+ * Move each staged output into place, keeping the old one until all are in.
+ * If a move fails, the ones already made are undone before rethrowing.
+ */
+function swapIn(outputs: string[]): string[] {
+  const swapped: string[] = [];
+  const replaced: string[] = []; // outputs whose live copy is in PREVIOUS_DIR
+  try {
+    for (const out of outputs) {
+      const staged = path.join(STAGING_DIR, out);
+      if (!fs.existsSync(staged)) continue;
+      const live = path.join(ROOT, out);
+      const previous = path.join(PREVIOUS_DIR, out);
+      fs.mkdirSync(path.dirname(live), { recursive: true });
+      if (fs.existsSync(live)) {
+        fs.mkdirSync(path.dirname(previous), { recursive: true });
+        fs.renameSync(live, previous);
+        replaced.push(out);
+      }
+      fs.renameSync(staged, live);
+      swapped.push(out);
+    }
+  } catch (err) {
+    restorePrevious(swapped, replaced);
+    throw err;
+  }
+  fs.rmSync(PREVIOUS_DIR, { recursive: true, force: true });
+  fs.rmSync(STAGING_DIR, { recursive: true, force: true });
+  return swapped;
+}
+
+// Undo a partial swapIn: staged outputs go back to staging, and the live
+// ones they replaced back into place. If this fails too, PREVIOUS_DIR is
+// left for the next run to refuse to start on.
+function restorePrevious(swapped: string[], replaced: string[]) {
+  for (const out of [...swapped].reverse()) {
+    fs.renameSync(path.join(ROOT, out), path.join(STAGING_DIR, out));
+  }
+  for (const out of replaced) {
+    fs.renameSync(path.join(PREVIOUS_DIR, out), path.join(ROOT, out));
+  }
+  fs.rmSync(PREVIOUS_DIR, { recursive: true, force: true });
+}
+
+// ---------- running ----------
+
+function runStage(stage: Stage): number {
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  for (const name of Object.keys(INPUT_PATH_VARS)) {
+    if (env[name]) env[name] = path.resolve(ROOT, env[name]!);
+  }
+  const result = spawnSync(process.execPath, [TSX_CLI, path.join(ROOT, 'scripts', stage.script)], {
+    cwd: STAGING_DIR,
+    env,
+    stdio: 'inherit',
+  });
+  return result.status ?? 1;
+}
+
+/**
+ * Size and mtime of every staged file outside `outputs` (following links
+ * into the real tree), to catch a stage writing somewhere it hasn't
+ * declared.
+ */
+function undeclaredFiles(outputs: string[]): Map<string, string> {
+  const files = new Map<string, string>();
+  const walk = (rel: string) => {
+    if (outputs.some((out) => rel === out || rel.startsWith(`${out}/`))) return;
+    const abs = path.join(STAGING_DIR, rel);
+    const stat = fs.statSync(abs);
+    if (!stat.isDirectory()) files.set(rel, `${stat.size}:${stat.mtimeMs}`);
+    else for (const entry of fs.readdirSync(abs)) walk(rel ? `${rel}/${entry}` : entry);
+  };
+  walk('');
+  return files;
+}
+
+function changedFiles(before: Map<string, string>, after: Map<string, string>): string[] {
+  const changed = [...after].filter(([file, state]) => before.get(file) !== state).map(([file]) => file);
+  return [...changed, ...[...before.keys()].filter((file) => !after.has(file))].sort();
+}
+
+function outputChanges(before: Map<string, string>, after: Map<string, string>) {
+  let added = 0;
+  let changed = 0;
+  for (const [file, hash] of after) {
+    if (!before.has(file)) added++;
+    else if (before.get(file) !== hash) changed++;
+  }
+  const removed = [...before.keys()].filter((file) => !after.has(file)).length;
+  return { files: after.size, added, changed, removed };
+}
+
+function writeManifest(manifest: RunManifest) {
+  const dir = path.resolve(ROOT, REPORT_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'pipeline-run.json'), JSON.stringify(manifest, null, 2), 'utf8');
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const started = Date.now();
+  const cache = readCache();
+  const selected = STAGES.filter((stage) => isSelected(stage, options));
+  const outputs = [...new Set(selected.flatMap((stage) => stage.outputs))].filter(
+    (out, _, all) => !path.isAbsolute(out) && !all.some((o) => o !== out && out.startsWith(`${o}/`))
+  );
+  const codeKey = pathsKey(CODE_INPUTS, ROOT, cache);
+
+  const workRoot = options.dryRun ? ROOT : STAGING_DIR;
+  if (!options.dryRun && fs.existsSync(PREVIOUS_DIR) && fs.readdirSync(PREVIOUS_DIR).length > 0) {
+    throw new Error(
+      `${PREVIOUS_DIR} isn't empty: an earlier run stopped while moving outputs into place. ` +
+        'Put back anything missing from data/ or public/ from it, then delete it.'
+    );
+  }
+  if (!options.dryRun) {
+    console.log(`Staging ${outputs.join(', ')} in ${STAGING_DIR}`);
+    buildStaging(outputs);
+  }
+
+  const results: StageResult[] = [];
+  const dirty: string[] = []; // outputs of stages that (would) run, for --dry-run
+  let failed = false;
+
+  for (const stage of STAGES) {
+    const result: StageResult = { name: stage.name, status: 'not-selected' };
+    results.push(result);
+    if (!selected.includes(stage)) continue;
+    if (failed) {
+      Object.assign(result, { status: 'skipped', reason: 'an earlier stage failed' });
+      continue;
+    }
+    if (stage.requires && !process.env[stage.requires]) {
+      Object.assign(result, { status: 'skipped', reason: `${stage.requires} not set` });
+      continue;
+    }
+
+    const cached = cache.stages[stage.name];
+    const upstream = options.dryRun
+      ? dirty.find((out) => stage.inputs.some((input) => overlaps(input, out)))
+      : undefined;
+    let reason: string | undefined;
+    if (options.force) reason = '--force';
+    else if (stage.network) reason = 'fetches live data';
+    else if (upstream) reason = `${upstream} changes first`;
+    else if (!cached) reason = 'no previous run';
+    else if (cached.input_key !== stageInputKey(stage, workRoot, codeKey, cache)) reason = 'inputs changed';
+    else if (cached.output_key !== pathsKey(stage.outputs, workRoot, cache)) reason = 'outputs changed';
+
+    if (!reason) {
+      Object.assign(result, { status: 'cached', reason: 'inputs unchanged' });
+      console.log(`[${stage.name}] unchanged – skipped`);
+      continue;
+    }
+    if (options.dryRun) {
+      Object.assign(result, { status: 'would-run', reason });
+      dirty.push(...stage.outputs);
+      continue;
+    }
+
+    console.log(`\n[${stage.name}] running (${reason})`);
+    const before = new Map(stage.outputs.flatMap((out) => [...fileHashes(out, workRoot, cache)]));
+    const untouched = undeclaredFiles(stage.outputs);
+    const t0 = Date.now();
+    const exitCode = runStage(stage);
+    const after = new Map(stage.outputs.flatMap((out) => [...fileHashes(out, workRoot, cache)]));
+    const undeclared = changedFiles(untouched, undeclaredFiles(stage.outputs));
+    if (undeclared.length > 0) {
+      const more = undeclared.length > 5 ? ` and ${undeclared.length - 5} more` : '';
+      console.error(`[${stage.name}] wrote to undeclared paths: ${undeclared.slice(0, 5).join(', ')}${more}`);
+    }
+    Object.assign(result, {
+      status: (exitCode === 0 || stage.advisory) && undeclared.length === 0 ? 'ran' : 'failed',
+      reason: undeclared.length > 0 ? `wrote undeclared ${undeclared[0]}` : reason,
+      duration_s: Math.round((Date.now() - t0) / 100) / 10,
+      exit_code: exitCode,
+      outputs: outputChanges(before, after),
+    });
+    if (result.status === 'failed') failed = true;
+  }
+
+  let swapped: string[] = [];
+  if (!options.dryRun && !failed) {
+    // Record what every stage saw, now that the run is complete: a stage is
+    // up to date while this is still what's there.
+    const now = new Date().toISOString();
+    for (const stage of selected) {
+      const result = results.find((r) => r.name === stage.name)!;
+      if (stage.network || result.status === 'skipped') continue;
+      cache.stages[stage.name] = {
+        input_key: stageInputKey(stage, STAGING_DIR, codeKey, cache),
+        output_key: pathsKey(stage.outputs, STAGING_DIR, cache),
+        at: now,
+      };
+    }
+    swapped = swapIn(outputs);
+  }
+
+  if (!options.dryRun) {
+    fs.mkdirSync(WORK_DIR, { recursive: true });
+    fs.writeFileSync(CACHE_FILE, JSON.stringify(cache), 'utf8');
+  }
+
+  const hikesDir = path.join(ROOT, HIKES);
+  const manifest: RunManifest = {
+    started_at: new Date(started).toISOString(),
+    finished_at: new Date().toISOString(),
+    duration_s: Math.round((Date.now() - started) / 100) / 10,
+    status: options.dryRun ? 'dry-run' : failed ? 'failed' : 'ok',
+    options: { only: options.only, from: options.from, scrape: options.scrape, force: options.force },
+    stages: results,
+    swapped,
+    hikes: fs.existsSync(hikesDir) ? fs.readdirSync(hikesDir).filter((f) => f.endsWith('.json')).length : 0,
+  };
+  if (!options.dryRun) writeManifest(manifest);
+
+  console.log('\n--------------------------------------------');
+  for (const r of results.filter((r) => r.status !== 'not-selected')) {
+    const time = r.duration_s !== undefined ? ` ${r.duration_s}s` : '';
+    const files = r.outputs ? `, ${r.outputs.added + r.outputs.changed + r.outputs.removed} files changed` : '';
+    console.log(`${r.name.padEnd(21)}: ${r.status}${time}${files}${r.reason ? ` (${r.reason})` : ''}`);
+  }
+  const unscraped =
+    options.only || options.from ? [] : STAGES.filter((s) => s.network && !selected.includes(s));
+  if (unscraped.length > 0) {
+    console.log(`Not scraped          : ${unscraped.map((s) => s.name).join(', ')} (use --scrape)`);
+  }
+  console.log(`Status               : ${manifest.status} in ${manifest.duration_s}s`);
+  if (failed) console.log(`Nothing was swapped in; the partial run is in ${STAGING_DIR}`);
+  else if (!options.dryRun) console.log(`Manifest             : ${path.join(REPORT_DIR, 'pipeline-run.json')}`);
+  console.log('--------------------------------------------');
+
+  if (failed) process.exit(1);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
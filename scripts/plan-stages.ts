@@ -0,0 +1,166 @@
+// scripts/plan-stages.ts
+//
+// Splits routes longer than a day and a half into days of about
+// HIKES_STAGE_KM (default 20 km), ending each day at a town, village,
+// station or place to stay where there is one (see stage-planning.ts).
+// Writes a `day_stages` list into data/hikes/<slug>.json and a GPX file per
+// day to public/gpx/<slug>/day-<n>.gpx.
+//
+// Per-day ascent comes from the elevation profile, scaled so the days add up
+// to the hike's ascent_m; hikes without an `elevation` block get distances
+// only. Without data/raw/stage-stops.json (scrape:stops) days still get
+// planned, but end wherever the distance works out.
+//
+// Run after hikes:routes and hikes:elevation. Each run replaces every plan,
+// and removes plans (and their GPX files) from routes that no longer need one.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { isListed } from '../lib/hike-schema';
+import { lineLengthKm } from './geo';
+import { buildGpx } from './gpx';
+import { readHike, writeHike } from './hike-store';
+import { DayStage, Hike, RawOsmHike } from './hike-types';
+import { rawHikeSegments } from './osm-geometry';
+import { cutSegments, planDays, PlannedDay, profileClimb, stopsAlongRoute } from './stage-planning';
+import { loadStageStopGrid } from './stage-stops';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+const GPX_DIR = path.join(ROOT, 'public', 'gpx');
+
+const TARGET_KM = Number(process.env.HIKES_STAGE_KM ?? 20);
+
+// Routes up to this many days' walking are left as one hike.
+const MIN_DAYS = 1.5;
+
+// Height change needed before a climb or drop is counted, as in
+// compute-elevation.ts.
+const CLIMB_THRESHOLD_M = 3;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Ascent and descent per day from the elevation profile, scaled to the
+ * hike's totals (the profile is too coarse to sum climbs accurately).
+ */
+function dayClimbs(hike: Hike, days: PlannedDay[]): { ascent_m: number; descent_m: number }[] | null {
+  const profile = hike.elevation?.profile;
+  if (!profile || profile.length < 2) return null;
+
+  const climbs = days.map((d) => profileClimb(profile, d.startKm, d.endKm, CLIMB_THRESHOLD_M));
+  const scale = (total: number | undefined, sum: number) =>
+    total !== undefined && sum > 0 ? total / sum : 1;
+  const ascentScale = scale(hike.ascent_m, climbs.reduce((s, c) => s + c.ascent, 0));
+  const descentScale = scale(hike.descent_m, climbs.reduce((s, c) => s + c.descent, 0));
+  return climbs.map((c) => ({
+    ascent_m: Math.round(c.ascent * ascentScale),
+    descent_m: Math.round(c.descent * descentScale),
+  }));
+}
+
+function clearPlan(hike: Hike): boolean {
+  const dir = path.join(GPX_DIR, hike.slug);
+  if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true });
+  if (!hike.day_stages) return false;
+  const next: Hike = { ...hike };
+  delete next.day_stages;
+  writeHike(next);
+  return true;
+}
+
+function main() {
+  if (!fs.existsSync(RAW_DIR)) {
+    console.error(`Raw OSM dir missing: ${RAW_DIR}`);
+    process.exit(1);
+  }
+  if (!(TARGET_KM > 0)) {
+    console.error(`HIKES_STAGE_KM must be a positive number of km`);
+    process.exit(1);
+  }
+
+  const grid = loadStageStopGrid();
+  if (grid) console.log(`Loaded ${grid.size} stage stops`);
+  else console.warn('No stage stops found – run scrape:stops. Days will end anywhere.');
+
+  const files = fs.readdirSync(RAW_DIR).filter((f) => f.endsWith('.json'));
+
+  let planned = 0;
+  let days = 0;
+  let endsAtStops = 0;
+  let cleared = 0;
+
+  for (const file of files) {
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const hike = readHike(raw.slug);
+    if (!hike) continue;
+
+    const segments = rawHikeSegments(raw).filter((s) => s.length >= 2);
+    const lengthKm = segments.reduce((sum, s) => sum + lineLengthKm(s), 0);
+    if (!isListed(hike) || lengthKm < TARGET_KM * MIN_DAYS) {
+      if (clearPlan(hike)) cleared++;
+      continue;
+    }
+
+    const plan = planDays(lengthKm, grid ? stopsAlongRoute(segments, grid) : [], TARGET_KM);
+    const climbs = dayClimbs(hike, plan);
+
+    const dir = path.join(GPX_DIR, hike.slug);
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true });
+    fs.mkdirSync(dir, { recursive: true });
+
+    const stages: DayStage[] = plan.map((d, i) => {
+      const day = i + 1;
+      const from =
+        i === 0 ? (hike.osm?.from ?? 'the start') : (plan[i - 1].end?.stop.name ?? `km ${round1(d.startKm)}`);
+      const last = i === plan.length - 1;
+      const to = last ? (hike.osm?.to ?? 'the finish') : (d.end?.stop.name ?? `km ${round1(d.endKm)}`);
+      fs.writeFileSync(
+        path.join(dir, `day-${day}.gpx`),
+        buildGpx(
+          {
+            name: `${raw.name} – day ${day}`,
+            description: `From ${from} to ${to}, ${round1(d.endKm - d.startKm)} km.`,
+            osmId: raw.id,
+          },
+          cutSegments(segments, d.startKm, d.endKm)
+        ),
+        'utf8'
+      );
+
+      return {
+        day,
+        start_km: round1(d.startKm),
+        end_km: round1(d.endKm),
+        distance_km: round1(d.endKm - d.startKm),
+        ...climbs?.[i],
+        ...(d.end && {
+          stop: {
+            name: d.end.stop.name,
+            type: d.end.stop.type,
+            osm_id: d.end.stop.osm_id,
+            distance_km: round1(d.end.offKm),
+          },
+        }),
+        gpx_file: `/gpx/${hike.slug}/day-${day}.gpx`,
+      };
+    });
+
+    writeHike({ ...hike, day_stages: stages });
+
+    planned++;
+    days += stages.length;
+    endsAtStops += stages.filter((s) => s.stop).length;
+  }
+
+  console.log('--------------------------------------------');
+  console.log(`Target day length    : ${TARGET_KM} km`);
+  console.log(`Routes planned       : ${planned}`);
+  console.log(`Days                 : ${days}`);
+  console.log(`  ending at a stop   : ${endsAtStops}`);
+  console.log(`Plans removed        : ${cleared}`);
+  console.log(`GPX directory        : ${GPX_DIR}/<slug>/`);
+  console.log('--------------------------------------------');
+}
+
+main();
@@ -0,0 +1,77 @@
+// scripts/point-grid.ts
+//
+// Generic in-memory grid for "nearest point" lookups (postcodes, car parks,
+// stations). Items are bucketed into CELL_DEG cells and searched ring by
+// ring outwards until no closer item can exist.
+
+import { haversineKm, LonLat } from './geo';
+
+const CELL_DEG = 0.05;
+
+// One cell is at least this wide in km anywhere in the UK (lat < 61°).
+const MIN_CELL_KM = CELL_DEG * 111 * Math.cos((61 * Math.PI) / 180);
+
+export interface PointGrid<T> {
+  size: number;
+  nearest(point: LonLat, maxKm?: number): { item: T; distanceKm: number } | null;
+  within(point: LonLat, maxKm: number): { item: T; distanceKm: number }[]; // closest first
+}
+
+function cellKey(col: number, row: number): string {
+  return `${col}:${row}`;
+}
+
+export function buildPointGrid<T>(items: T[], position: (item: T) => LonLat): PointGrid<T> {
+  const cells = new Map<string, { item: T; pos: LonLat }[]>();
+  for (const item of items) {
+    const pos = position(item);
+    const key = cellKey(Math.floor(pos[0] / CELL_DEG), Math.floor(pos[1] / CELL_DEG));
+    const list = cells.get(key);
+    if (list) list.push({ item, pos });
+    else cells.set(key, [{ item, pos }]);
+  }
+
+  const nearest = (point: LonLat, maxKm = 25) => {
+    const col = Math.floor(point[0] / CELL_DEG);
+    const row = Math.floor(point[1] / CELL_DEG);
+    const maxRing = Math.ceil(maxKm / MIN_CELL_KM) + 1;
+
+    let best: { item: T; distanceKm: number } | null = null;
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Anything in a further ring is at least (ring - 1) cells away.
+      if (best && best.distanceKm < (ring - 1) * MIN_CELL_KM) break;
+
+      for (let dc = -ring; dc <= ring; dc++) {
+        for (let dr = -ring; dr <= ring; dr++) {
+          if (Math.max(Math.abs(dc), Math.abs(dr)) !== ring) continue;
+          for (const entry of cells.get(cellKey(col + dc, row + dr)) ?? []) {
+            const d = haversineKm(point, entry.pos);
+            if (d <= maxKm && (!best || d < best.distanceKm)) {
+              best = { item: entry.item, distanceKm: d };
+            }
+          }
+        }
+      }
+    }
+    return best;
+  };
+
+  const within = (point: LonLat, maxKm: number) => {
+    const col = Math.floor(point[0] / CELL_DEG);
+    const row = Math.floor(point[1] / CELL_DEG);
+    const reach = Math.ceil(maxKm / MIN_CELL_KM);
+
+    const found: { item: T; distanceKm: number }[] = [];
+    for (let dc = -reach; dc <= reach; dc++) {
+      for (let dr = -reach; dr <= reach; dr++) {
+        for (const entry of cells.get(cellKey(col + dc, row + dr)) ?? []) {
+          const d = haversineKm(point, entry.pos);
+          if (d <= maxKm) found.push({ item: entry.item, distanceKm: d });
+        }
+      }
+    }
+    return found.sort((a, b) => a.distanceKm - b.distanceKm);
+  };
+
+  return { size: items.length, nearest, within };
+}
@@ -0,0 +1,113 @@
+// scripts/preprocess-places.ts
+//
+// Builds the place-name gazetteer (data/postcodes/places.json, see
+// lib/places.ts) from a local OS Open Names download
+// (https://osdatahub.os.uk/downloads/open/OpenNames, CSV). Only populated
+// places are kept – cities down to hamlets and suburbs – with Welsh and
+// Gaelic names alongside the English ones.
+//
+// Config:
+//   OPEN_NAMES_DIR   the unzipped download (default data/os-open-names);
+//                    every CSV under it is read
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { PLACES_FILE, PlaceRow, PlacesFile, PlaceType } from '../lib/places';
+import { readCsv } from './csv';
+import { fromBritishNationalGrid } from './geo';
+
+const OPEN_NAMES_DIR = path.resolve(
+  process.env.OPEN_NAMES_DIR ?? path.join(process.cwd(), 'data', 'os-open-names')
+);
+
+// The data files have no header row; the download has it separately
+// (Doc/OS_Open_Names_Header.csv), and these are its columns.
+const OPEN_NAMES_COLUMNS = [
+  'ID', 'NAMES_URI', 'NAME1', 'NAME1_LANG', 'NAME2', 'NAME2_LANG', 'TYPE', 'LOCAL_TYPE',
+  'GEOMETRY_X', 'GEOMETRY_Y', 'MOST_DETAIL_VIEW_RES', 'LEAST_DETAIL_VIEW_RES',
+  'MBR_XMIN', 'MBR_YMIN', 'MBR_XMAX', 'MBR_YMAX', 'POSTCODE_DISTRICT', 'POSTCODE_DISTRICT_URI',
+  'POPULATED_PLACE', 'POPULATED_PLACE_URI', 'POPULATED_PLACE_TYPE', 'DISTRICT_BOROUGH',
+  'DISTRICT_BOROUGH_URI', 'DISTRICT_BOROUGH_TYPE', 'COUNTY_UNITARY', 'COUNTY_UNITARY_URI',
+  'COUNTY_UNITARY_TYPE', 'REGION', 'REGION_URI', 'COUNTRY', 'COUNTRY_URI',
+  'RELATED_SPATIAL_OBJECT', 'SAME_AS_DBPEDIA', 'SAME_AS_GEONAMES',
+];
+
+const LOCAL_TYPES: Record<string, PlaceType> = {
+  City: 'city',
+  Town: 'town',
+  Village: 'village',
+  Hamlet: 'hamlet',
+  'Suburban Area': 'suburb',
+  'Other Settlement': 'other',
+};
+
+// Five decimal places is ~1 m.
+const round = (n: number) => Math.round(n * 1e5) / 1e5;
+
+function csvFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return csvFiles(full);
+    // The header file is documentation, not data.
+    return entry.name.toLowerCase().endsWith('.csv') && !/header/i.test(entry.name) ? [full] : [];
+  });
+}
+
+async function main() {
+  if (!fs.existsSync(OPEN_NAMES_DIR)) {
+    console.error(`OS Open Names not found: ${OPEN_NAMES_DIR} (set OPEN_NAMES_DIR)`);
+    process.exit(1);
+  }
+
+  const files = csvFiles(OPEN_NAMES_DIR).sort();
+  console.log(`Reading ${files.length} OS Open Names files from ${OPEN_NAMES_DIR}`);
+
+  const places: PlaceRow[] = [];
+  const byType: Partial<Record<PlaceType, number>> = {};
+  let rows = 0;
+  let skippedCoords = 0;
+
+  for (const file of files) {
+    for await (const row of readCsv(file, OPEN_NAMES_COLUMNS)) {
+      rows++;
+      if (row.TYPE !== 'populatedPlace') continue;
+      const type = LOCAL_TYPES[row.LOCAL_TYPE];
+      if (!type || !row.NAME1) continue;
+
+      const easting = Number(row.GEOMETRY_X);
+      const northing = Number(row.GEOMETRY_Y);
+      if (!row.GEOMETRY_X || !row.GEOMETRY_Y || !Number.isFinite(easting) || !Number.isFinite(northing)) {
+        skippedCoords++;
+        continue;
+      }
+      const [lon, lat] = fromBritishNationalGrid([easting, northing]);
+      const area = row.COUNTY_UNITARY || row.DISTRICT_BOROUGH || row.REGION || '';
+
+      for (const name of new Set([row.NAME1, row.NAME2].filter(Boolean))) {
+        places.push([name, round(lat), round(lon), type, area]);
+      }
+      byType[type] = (byType[type] ?? 0) + 1;
+    }
+  }
+
+  places.sort((a, b) => a[0].localeCompare(b[0]) || a[4].localeCompare(b[4]));
+  const out: PlacesFile = { count: places.length, places };
+  fs.mkdirSync(path.dirname(PLACES_FILE), { recursive: true });
+  fs.writeFileSync(PLACES_FILE, JSON.stringify(out), 'utf8');
+
+  console.log('--------------------------------------------');
+  console.log(`Rows read            : ${rows}`);
+  console.log(`Places               : ${Object.values(byType).reduce((sum, n) => sum + n, 0)}`);
+  for (const [type, count] of Object.entries(byType)) {
+    console.log(`  ${type.padEnd(19)}: ${count}`);
+  }
+  console.log(`Names written        : ${places.length}`);
+  console.log(`Skipped (no coords)  : ${skippedCoords}`);
+  console.log(`Gazetteer            : ${PLACES_FILE}`);
+  console.log('--------------------------------------------');
+}
+
+main().catch((err) => {
+  console.error('Place preprocessing failed:', err);
+  process.exit(1);
+});
@@ -1,259 +1,161 @@
 // scripts/preprocess-postcodes.ts
-
-import fs from 'fs'
-import path from 'path'
-import readline from 'readline'
-
-const POSTCODES_CSV_PATH =
-  'C:/Users/stuar/OneDrive/Stuart - Personal/Directory Projects/Postcodes Data CSV/uk_postcodes.csv'
-
-type RawRow = string[]
-
-type HeaderMap = Record<string, number>
-
-type PostcodeRecord = {
-  postcode: string
-  area: string
-  district: string
-  sector: string
-  latitude: number
-  longitude: number
-  easting?: number | null
-  northing?: number | null
-  gridref?: string | null
-  district_code?: string | null
-  ward_code?: string | null
-  lsoa_code?: string | null
-  msoa_code?: string | null
-  itl_level_2?: string | null
-  itl_level_3?: string | null
-  country?: string | null
-  in_use: boolean
-}
-
-type DistrictIndexItem = {
-  postcode: string
-  latitude: number
-  longitude: number
-}
-
-const ROOT = process.cwd()
-// CSV is now in OneDrive, shared across projects
-const CSV_PATH = POSTCODES_CSV_PATH
-const OUT_BY_CODE = path.join(ROOT, 'data', 'postcodes', 'by-code')
-const OUT_BY_DISTRICT = path.join(ROOT, 'data', 'postcodes', 'by-district')
-
-// ---------- helpers ----------
-
-function ensureDir(p: string) {
-  if (!fs.existsSync(p)) {
-    fs.mkdirSync(p, { recursive: true })
+//
+// Builds the postcode indexes from a UK postcode directory CSV (one row per
+// postcode with Postcode, Latitude, Longitude and "In Use?" columns, e.g.
+// the doogal.co.uk download). See lib/postcodes.ts for the formats.
+//
+//   data/postcodes/by-district/<outcode>.json – postcodes sharded by outward
+//     code, ~3,000 files of a few KB each rather than a file per postcode
+//   data/postcodes/by-cell/<row>_<col>.json – in-use postcodes by grid
+//     cell, for reverse lookups (/api/postcodes/reverse)
+//
+// Config:
+//   POSTCODES_CSV   path to the CSV (default data/uk_postcodes.csv)
+
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  isOutwardCode,
+  parsePostcode,
+  POSTCODE_CELL_DIR,
+  POSTCODE_SHARD_DIR,
+  PostcodeCell,
+  PostcodeCellRow,
+  postcodeCellKey,
+  PostcodeRow,
+  PostcodeShard,
+} from '../lib/postcodes';
+import { readCsv } from './csv';
+
+const ROOT = process.cwd();
+const CSV_PATH = path.resolve(process.env.POSTCODES_CSV ?? path.join(ROOT, 'data', 'uk_postcodes.csv'));
+
+// One file per postcode, written by earlier versions of this script.
+const LEGACY_BY_CODE_DIR = path.join(ROOT, 'data', 'postcodes', 'by-code');
+
+// Five decimal places is ~1 m.
+const round = (n: number) => Math.round(n * 1e5) / 1e5;
+
+// Delete the index files in `dir` that weren't written this run.
+function removeStale(dir: string, written: Set<string>, isIndexFile: (name: string) => boolean): number {
+  let removed = 0;
+  for (const file of fs.readdirSync(dir)) {
+    const name = file.replace(/\.json$/, '');
+    if (file.endsWith('.json') && isIndexFile(name) && !written.has(name)) {
+      fs.rmSync(path.join(dir, file));
+      removed++;
+    }
   }
+  return removed;
 }
 
-function normalisePostcode(raw: string): string {
-  const trimmed = raw.trim().toUpperCase().replace(/\s+/g, '')
-  if (!trimmed) return ''
-
-  if (trimmed.length <= 3) return trimmed
-
-  const outward = trimmed.slice(0, trimmed.length - 3)
-  const inward = trimmed.slice(-3)
-  return `${outward} ${inward}`
-}
-
-function deriveAreaDistrictSector(pc: string) {
-  const [outward, inward] = pc.split(' ')
-  const areaMatch = outward.match(/^[A-Z]+/)
-  const area = areaMatch ? areaMatch[0] : outward
-  const district = outward
-  const sector = inward && inward.length > 0 ? `${outward} ${inward[0]}` : outward
-  return { area, district, sector }
-}
-
-function parseNumber(value: string | undefined): number | null {
-  if (!value) return null
-  const trimmed = value.trim()
-  if (!trimmed) return null
-  const n = Number(trimmed)
-  return Number.isNaN(n) ? null : n
-}
-
-function truthyFlag(value: string | undefined): boolean {
-  if (!value) return true // default to true if missing
-  const v = value.trim().toLowerCase()
-  return v === 'y' || v === 'yes' || v === '1' || v === 'true' || v === 't'
-}
-
-function splitCsvLine(line: string): string[] {
-  // Simple splitter for typical postcode CSV (no quoted commas).
-  // If your file ever contains quoted fields with commas,
-  // we can swap this to a proper CSV parser later.
-  return line.split(',').map((v) => v.trim())
+function parseCoordinate(value: string | undefined): number | null {
+  if (!value?.trim()) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
 }
 
-function buildHeaderMap(headers: string[]): HeaderMap {
-  const map: HeaderMap = {}
-  headers.forEach((h, idx) => {
-    map[h.toLowerCase()] = idx
-  })
-  return map
+// A missing column counts as in use.
+function isInUse(value: string | undefined): boolean {
+  if (!value?.trim()) return true;
+  return ['y', 'yes', '1', 'true', 't'].includes(value.trim().toLowerCase());
 }
 
-function getField(row: RawRow, headerMap: HeaderMap, name: string): string | undefined {
-  const idx = headerMap[name.toLowerCase()]
-  if (idx === undefined) return undefined
-  return row[idx]
-}
-
-// ---------- main processing ----------
-
-async function preprocess() {
-  console.log('--- Preprocess uk_postcodes.csv ---')
-  console.log('CSV path:', CSV_PATH)
-
+async function main() {
   if (!fs.existsSync(CSV_PATH)) {
-    console.error('❌ CSV file not found at', CSV_PATH)
-    process.exit(1)
+    console.error(`Postcode CSV not found: ${CSV_PATH} (set POSTCODES_CSV)`);
+    process.exit(1);
   }
-
-  ensureDir(OUT_BY_CODE)
-  ensureDir(OUT_BY_DISTRICT)
-
-  const fileStream = fs.createReadStream(CSV_PATH)
-  const rl = readline.createInterface({
-    input: fileStream,
-    crlfDelay: Infinity,
-  })
-
-  let lineNumber = 0
-  let headerMap: HeaderMap | null = null
-
-  const districtIndex: Record<string, DistrictIndexItem[]> = {}
-
-  let totalRows = 0
-  let writtenByCode = 0
-  let skippedNoCoords = 0
-  let skippedNoPostcode = 0
-
-  for await (const line of rl) {
-    lineNumber++
-    if (!line.trim()) continue
-
-    if (lineNumber === 1) {
-      const headers = splitCsvLine(line)
-      headerMap = buildHeaderMap(headers)
-      console.log('Detected CSV headers:', headers)
-      continue
-    }
-
-    if (!headerMap) {
-      console.error('No header row detected – aborting.')
-      process.exit(1)
-    }
-
-    const cols = splitCsvLine(line)
-    totalRows++
-
-    const rawPc = getField(cols, headerMap, 'Postcode')
-    if (!rawPc) {
-      skippedNoPostcode++
-      continue
+  console.log(`Reading ${CSV_PATH}`);
+
+  const shards = new Map<string, PostcodeRow[]>();
+  const cells = new Map<string, PostcodeCellRow[]>();
+  let rows = 0;
+  let indexed = 0;
+  let terminated = 0;
+  let skippedPostcode = 0;
+  let skippedCoords = 0;
+
+  for await (const row of readCsv(CSV_PATH)) {
+    rows++;
+    const parsed = parsePostcode(row['Postcode'] ?? '');
+    if (!parsed) {
+      skippedPostcode++;
+      continue;
     }
-
-    const postcode = normalisePostcode(rawPc)
-    if (!postcode) {
-      skippedNoPostcode++
-      continue
+    const lat = parseCoordinate(row['Latitude']);
+    const lon = parseCoordinate(row['Longitude']);
+    // Some terminated and non-geographic postcodes have no location (or
+    // 0,0 / the 99.99 placeholder).
+    if (lat === null || lon === null || Math.abs(lat) > 90 || (lat === 0 && lon === 0)) {
+      skippedCoords++;
+      continue;
     }
 
-    const latStr = getField(cols, headerMap, 'Latitude')
-    const lonStr = getField(cols, headerMap, 'Longitude')
-    const lat = parseNumber(latStr)
-    const lon = parseNumber(lonStr)
+    const inUse = isInUse(row['In Use?']);
+    const entry: PostcodeRow = inUse
+      ? [parsed.inward, round(lat), round(lon)]
+      : [parsed.inward, round(lat), round(lon), 0];
+    if (!inUse) terminated++;
 
-    if (lat === null || lon === null) {
-      skippedNoCoords++
-      continue
+    let shard = shards.get(parsed.outward);
+    if (!shard) {
+      shard = [];
+      shards.set(parsed.outward, shard);
     }
-
-    const inUseStr = getField(cols, headerMap, 'In Use?')
-    const inUse = truthyFlag(inUseStr)
-
-    const easting = parseNumber(getField(cols, headerMap, 'Easting'))
-    const northing = parseNumber(getField(cols, headerMap, 'Northing'))
-    const gridref = getField(cols, headerMap, 'Grid Reference') ?? null
-    const districtCode = getField(cols, headerMap, 'District Code') ?? null
-    const wardCode = getField(cols, headerMap, 'Ward Code') ?? null
-    const lsoa = getField(cols, headerMap, 'LSOA Code') ?? null
-    const msoa = getField(cols, headerMap, 'MSOA Code') ?? null
-    const itl2 = getField(cols, headerMap, 'ITL level 2') ?? null
-    const itl3 = getField(cols, headerMap, 'ITL level 3') ?? null
-    const country = getField(cols, headerMap, 'Country') ?? null
-
-    const { area, district, sector } = deriveAreaDistrictSector(postcode)
-
-    const record: PostcodeRecord = {
-      postcode,
-      area,
-      district,
-      sector,
-      latitude: lat,
-      longitude: lon,
-      easting,
-      northing,
-      gridref,
-      district_code: districtCode,
-      ward_code: wardCode,
-      lsoa_code: lsoa,
-      msoa_code: msoa,
-      itl_level_2: itl2,
-      itl_level_3: itl3,
-      country,
-      in_use: inUse,
+    shard.push(entry);
+    indexed++;
+
+    if (inUse) {
+      const key = postcodeCellKey(lat, lon);
+      let cell = cells.get(key);
+      if (!cell) {
+        cell = [];
+        cells.set(key, cell);
+      }
+      cell.push([parsed.postcode, round(lat), round(lon)]);
     }
 
-    // Write per-postcode JSON
-    const filename = postcode.replace(/\s+/, '-')
-    const outPath = path.join(OUT_BY_CODE, `${filename}.json`)
-    fs.writeFileSync(outPath, JSON.stringify(record), 'utf8')
-    writtenByCode++
-
-    // Build simple district index in memory
-    if (!districtIndex[district]) {
-      districtIndex[district] = []
-    }
-    districtIndex[district].push({
-      postcode,
-      latitude: lat,
-      longitude: lon,
-    })
+    if (rows % 250_000 === 0) console.log(`Read ${rows} rows...`);
+  }
 
-    if (writtenByCode % 5000 === 0) {
-      console.log(`Processed ${writtenByCode} postcodes...`)
-    }
+  fs.mkdirSync(POSTCODE_SHARD_DIR, { recursive: true });
+  for (const [district, postcodes] of shards) {
+    postcodes.sort((a, b) => a[0].localeCompare(b[0]));
+    const shard: PostcodeShard = { district, count: postcodes.length, postcodes };
+    fs.writeFileSync(path.join(POSTCODE_SHARD_DIR, `${district}.json`), JSON.stringify(shard), 'utf8');
   }
 
-  console.log('Writing district index files...')
+  fs.mkdirSync(POSTCODE_CELL_DIR, { recursive: true });
+  for (const [key, postcodes] of cells) {
+    postcodes.sort((a, b) => a[0].localeCompare(b[0]));
+    const cell: PostcodeCell = { cell: key, count: postcodes.length, postcodes };
+    fs.writeFileSync(path.join(POSTCODE_CELL_DIR, `${key}.json`), JSON.stringify(cell), 'utf8');
+  }
 
-  for (const [district, items] of Object.entries(districtIndex)) {
-    const outPath = path.join(OUT_BY_DISTRICT, `${district}.json`)
-    const payload = {
-      district,
-      count: items.length,
-      postcodes: items,
-    }
-    fs.writeFileSync(outPath, JSON.stringify(payload), 'utf8')
+  // Outward codes and cells that no longer have any postcodes.
+  const removed =
+    removeStale(POSTCODE_SHARD_DIR, new Set(shards.keys()), isOutwardCode) +
+    removeStale(POSTCODE_CELL_DIR, new Set(cells.keys()), (name) => /^-?\d+_-?\d+$/.test(name));
+  if (fs.existsSync(LEGACY_BY_CODE_DIR)) {
+    fs.rmSync(LEGACY_BY_CODE_DIR, { recursive: true });
+    console.log(`Removed the old per-postcode files in ${LEGACY_BY_CODE_DIR}`);
   }
 
-  console.log('--- Done ---')
-  console.log('Total CSV rows:', totalRows)
-  console.log('Postcodes written (by-code):', writtenByCode)
-  console.log('Skipped (no postcode):', skippedNoPostcode)
-  console.log('Skipped (no coords):', skippedNoCoords)
+  console.log('--------------------------------------------');
+  console.log(`CSV rows             : ${rows}`);
+  console.log(`Postcodes indexed    : ${indexed} (${terminated} terminated)`);
+  console.log(`Outward code shards  : ${shards.size}`);
+  console.log(`Grid cells           : ${cells.size}`);
+  console.log(`Stale files removed  : ${removed}`);
+  console.log(`Skipped (postcode)   : ${skippedPostcode}`);
+  console.log(`Skipped (no coords)  : ${skippedCoords}`);
+  console.log(`Index directories    : ${POSTCODE_SHARD_DIR}`);
+  console.log(`                       ${POSTCODE_CELL_DIR}`);
+  console.log('--------------------------------------------');
 }
 
-preprocess().catch((err) => {
-  console.error('❌ Preprocess failed:', err)
-  process.exit(1)
-})
+main().catch((err) => {
+  console.error('Postcode preprocessing failed:', err);
+  process.exit(1);
+});
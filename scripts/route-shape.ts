@@ -0,0 +1,110 @@
+// scripts/route-shape.ts
+//
+// Classifies a route as circular, linear or out-and-back from its geometry,
+// and picks where a circular route should start.
+
+import { haversineKm, lineLengthKm, LonLat } from './geo';
+import type { RouteShape } from './hike-types';
+import type { PointGrid } from './point-grid';
+
+// Ends closer than this (or than CLOSED_SHARE of the length) make a loop.
+const CLOSED_KM = 0.25;
+const CLOSED_SHARE = 0.02;
+
+// An out-and-back's return leg lies within RETRACE_KM of the outward leg
+// for at least RETRACE_SHARE of its samples.
+const RETRACE_KM = 0.05;
+const RETRACE_SHARE = 0.75;
+const RETRACE_SPACING_KM = 0.05;
+
+// Start a loop at an access point only if it's this close to the route.
+const ACCESS_RADIUS_KM = 0.5;
+
+// Ends closer than this are the same point, so the loop can be rotated.
+const SAME_POINT_KM = 0.025;
+
+function first<T>(arr: T[]): T {
+  return arr[0];
+}
+
+function last<T>(arr: T[]): T {
+  return arr[arr.length - 1];
+}
+
+/** Points every `spacingKm` along a line, keeping both ends. */
+function samplePoints(coords: LonLat[], spacingKm: number): LonLat[] {
+  const out: LonLat[] = coords.length > 0 ? [coords[0]] : [];
+  let sinceLast = 0;
+  for (let i = 1; i < coords.length; i++) {
+    sinceLast += haversineKm(coords[i - 1], coords[i]);
+    if (sinceLast >= spacingKm || i === coords.length - 1) {
+      out.push(coords[i]);
+      sinceLast = 0;
+    }
+  }
+  return out;
+}
+
+function minDistanceKm(point: LonLat, others: LonLat[]): number {
+  let best = Infinity;
+  for (const p of others) best = Math.min(best, haversineKm(point, p));
+  return best;
+}
+
+/**
+ * Share (0–1) of the second half of the route that runs back over the first
+ * half.
+ */
+function retraceShare(segments: LonLat[][]): number {
+  const points = segments.flatMap((coords) => samplePoints(coords, RETRACE_SPACING_KM));
+  if (points.length < 4) return 0;
+
+  const half = Math.floor(points.length / 2);
+  const outward = points.slice(0, half);
+  const back = points.slice(half);
+  const retraced = back.filter((p) => minDistanceKm(p, outward) <= RETRACE_KM).length;
+  return retraced / back.length;
+}
+
+export function classifyRouteShape(segments: LonLat[][]): RouteShape {
+  const parts = segments.filter((s) => s.length >= 2);
+  if (parts.length === 0) return 'linear';
+
+  const lengthKm = parts.reduce((sum, coords) => sum + lineLengthKm(coords), 0);
+  const endsKm = haversineKm(first(first(parts)), last(last(parts)));
+  if (endsKm > Math.max(CLOSED_KM, CLOSED_SHARE * lengthKm)) return 'linear';
+
+  return retraceShare(parts) >= RETRACE_SHARE ? 'out-and-back' : 'circular';
+}
+
+/**
+ * For a closed loop, the vertex nearest an access point (car park or
+ * station), with that access point. Null when the line isn't a closed ring
+ * or nothing is within ACCESS_RADIUS_KM.
+ */
+export function loopStart<T>(
+  coords: LonLat[],
+  accessPoints: PointGrid<T>
+): { index: number; access: T; distanceKm: number } | null {
+  if (coords.length < 3 || haversineKm(first(coords), last(coords)) > SAME_POINT_KM) return null;
+
+  let best: { index: number; access: T; distanceKm: number } | null = null;
+  for (let i = 0; i < coords.length - 1; i++) {
+    const hit = accessPoints.nearest(coords[i], ACCESS_RADIUS_KM);
+    if (hit && (!best || hit.distanceKm < best.distanceKm)) {
+      best = { index: i, access: hit.item, distanceKm: hit.distanceKm };
+    }
+  }
+  return best;
+}
+
+/**
+ * Rotate a closed ring so it starts (and ends) at `index`.
+ */
+export function rotateLoop(coords: LonLat[], index: number): LonLat[] {
+  if (index <= 0) return coords;
+  const ring = coords.slice(0, -1); // drop the closing point
+  const rotated = [...ring.slice(index), ...ring.slice(0, index)];
+  rotated.push(rotated[0]);
+  return rotated;
+}
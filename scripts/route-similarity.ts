@@ -0,0 +1,225 @@
+// scripts/route-similarity.ts
+//
+// How alike two routes are: by name, and by geometry using the discrete
+// Hausdorff distance (does every point of each route lie near the other?)
+// and the discrete Fréchet distance (…and in the same order?).
+//
+// Geometry is compared on routes resampled to at most MAX_POINTS points and
+// projected to the National Grid, in km.
+
+import { haversineKm, lineLengthKm, LonLat, toBritishNationalGrid } from './geo';
+
+const MAX_POINTS = 200;
+const MIN_SPACING_KM = 0.05;
+
+// Words that say what kind of walk it is rather than where.
+const NAME_STOPWORDS = new Set([
+  'a',
+  'and',
+  'the',
+  'of',
+  'to',
+  'via',
+  'walk',
+  'walks',
+  'circular',
+  'circuit',
+  'loop',
+  'route',
+  'trail',
+  'path',
+  'way',
+]);
+
+// Words that mark a route as a spur or variant of the one it's named after.
+const VARIANT_WORDS = new Set([
+  'alternative',
+  'connector',
+  'extension',
+  'link',
+  'shortcut',
+  'spur',
+  'variant',
+]);
+
+// A route ready for comparing: flat [x, y] km positions in travel order.
+export type RouteTrace = {
+  points: [number, number][];
+  lengthKm: number;
+};
+
+/**
+ * Lowercase name words, without punctuation and generic words, so "Llyn
+ * Dinas & Cwm Bychan Walk" and "Llyn Dinas and Cwm Bychan" compare equal.
+ */
+export function nameTokens(name: string): string[] {
+  const words = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+  const kept = words.filter((w) => !NAME_STOPWORDS.has(w));
+  return kept.length > 0 ? kept : words;
+}
+
+/**
+ * The words that tell variants of a route apart, sorted: variant words and
+ * numbers, e.g. ["6", "link"] for "Green Chain Walk Section 6 Link".
+ */
+export function variantWords(name: string): string[] {
+  return nameTokens(name)
+    .filter((w) => VARIANT_WORDS.has(w) || /^\d+$/.test(w))
+    .sort();
+}
+
+/** Jaccard similarity (0–1) of the two names' word sets. */
+export function nameSimilarity(a: string, b: string): number {
+  const ta = new Set(nameTokens(a));
+  const tb = new Set(nameTokens(b));
+  if (ta.size === 0 && tb.size === 0) return 1;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+/** Points evenly spaced along the route's segments, at most MAX_POINTS. */
+function resample(segments: LonLat[][]): LonLat[] {
+  const lengthKm = segments.reduce((sum, s) => sum + lineLengthKm(s), 0);
+  const spacingKm = Math.max(MIN_SPACING_KM, lengthKm / MAX_POINTS);
+  const out: LonLat[] = [];
+
+  for (const coords of segments) {
+    if (coords.length === 0) continue;
+    out.push(coords[0]);
+    let sinceLast = 0;
+    for (let i = 1; i < coords.length; i++) {
+      sinceLast += haversineKm(coords[i - 1], coords[i]);
+      if (sinceLast >= spacingKm || i === coords.length - 1) {
+        out.push(coords[i]);
+        sinceLast = 0;
+      }
+    }
+  }
+  return out;
+}
+
+export function routeTrace(segments: LonLat[][]): RouteTrace {
+  const points = resample(segments).map((p) => {
+    const [e, n] = toBritishNationalGrid(p);
+    return [e / 1000, n / 1000] as [number, number];
+  });
+  return {
+    points,
+    lengthKm: segments.reduce((sum, s) => sum + lineLengthKm(s), 0),
+  };
+}
+
+function dist(a: [number, number], b: [number, number]): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
+
+function distToSegment(p: [number, number], a: [number, number], b: [number, number]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  if (len2 === 0) return dist(p, a);
+  const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+function distToLine(p: [number, number], line: [number, number][]): number {
+  let best = line.length === 1 ? dist(p, line[0]) : Infinity;
+  for (let i = 1; i < line.length; i++) best = Math.min(best, distToSegment(p, line[i - 1], line[i]));
+  return best;
+}
+
+/** How far, in km, the route's start or end is from the line of `to`. */
+export function endDistancesKm(route: RouteTrace, to: RouteTrace): { start: number; end: number } {
+  if (route.points.length === 0 || to.points.length === 0) return { start: Infinity, end: Infinity };
+  return {
+    start: distToLine(route.points[0], to.points),
+    end: distToLine(route.points[route.points.length - 1], to.points),
+  };
+}
+
+/**
+ * The share (0–1) of `from`'s points within `withinKm` of the line of `to`:
+ * how much of one route is walked along the other.
+ */
+export function sharedFraction(from: RouteTrace, to: RouteTrace, withinKm: number): number {
+  if (from.points.length === 0 || to.points.length === 0) return 0;
+  const shared = from.points.filter((p) => distToLine(p, to.points) <= withinKm).length;
+  return shared / from.points.length;
+}
+
+/**
+ * Directed Hausdorff distance in km: how far any point of `from` strays
+ * from the line of `to`. Small when `from` runs along part of `to`. Gives up
+ * (returning Infinity) once it exceeds `limitKm`.
+ */
+export function directedHausdorffKm(from: RouteTrace, to: RouteTrace, limitKm = Infinity): number {
+  if (from.points.length === 0 || to.points.length === 0) return Infinity;
+  return directedHausdorff(from.points, to.points, limitKm);
+}
+
+function directedHausdorff(
+  from: [number, number][],
+  to: [number, number][],
+  limitKm: number
+): number {
+  let worst = 0;
+  for (const p of from) {
+    let best = to.length === 1 ? dist(p, to[0]) : Infinity;
+    for (let i = 1; i < to.length; i++) {
+      const d = distToSegment(p, to[i - 1], to[i]);
+      if (d < best) {
+        best = d;
+        if (best <= worst) break; // can't raise the maximum
+      }
+    }
+    if (best > limitKm) return Infinity;
+    worst = Math.max(worst, best);
+  }
+  return worst;
+}
+
+/**
+ * Symmetric Hausdorff distance in km, or Infinity if it's over `limitKm`.
+ */
+export function hausdorffKm(a: RouteTrace, b: RouteTrace, limitKm = Infinity): number {
+  if (a.points.length === 0 || b.points.length === 0) return Infinity;
+  const ab = directedHausdorff(a.points, b.points, limitKm);
+  if (ab === Infinity) return Infinity;
+  return Math.max(ab, directedHausdorff(b.points, a.points, limitKm));
+}
+
+function discreteFrechet(a: [number, number][], b: [number, number][]): number {
+  let prev = new Array<number>(b.length);
+  let curr = new Array<number>(b.length);
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      const d = dist(a[i], b[j]);
+      if (i === 0 && j === 0) curr[j] = d;
+      else if (i === 0) curr[j] = Math.max(curr[j - 1], d);
+      else if (j === 0) curr[j] = Math.max(prev[j], d);
+      else curr[j] = Math.max(Math.min(prev[j], prev[j - 1], curr[j - 1]), d);
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev[b.length - 1];
+}
+
+/**
+ * Discrete Fréchet distance in km, taking whichever direction of `b` fits
+ * better – the same route walked the other way is still the same route.
+ */
+export function frechetKm(a: RouteTrace, b: RouteTrace): number {
+  if (a.points.length === 0 || b.points.length === 0) return Infinity;
+  return Math.min(
+    discreteFrechet(a.points, b.points),
+    discreteFrechet(a.points, [...b.points].reverse())
+  );
+}
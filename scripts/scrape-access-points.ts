@@ -0,0 +1,100 @@
+// scripts/scrape-access-points.ts
+//
+// Fetches UK car parks and railway stations (from Overpass, or from a local
+// extract via OSM_INPUT_FILE) into data/raw/access-points.json. The route
+// scrape uses them to start circular routes somewhere you can arrive.
+//
+// Run before scrape:osm.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { ACCESS_POINTS_FILE, AccessPoint, accessPointType } from './access-points';
+import { readTaggedPoints, TaggedPoint } from './osm-extract';
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+
+const OVERPASS_QUERY = `
+[out:json][timeout:300];
+area["ISO3166-1"="GB"][admin_level=2]->.uk;
+(
+  nwr["amenity"="parking"](area.uk);
+  nwr["railway"~"^(station|halt)$"](area.uk);
+);
+out center tags qt;
+`;
+
+const INPUT_FILE = process.env.OSM_INPUT_FILE
+  ? path.resolve(process.env.OSM_INPUT_FILE)
+  : undefined;
+
+type OverpassPoint = {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+};
+
+async function fetchOverpass(): Promise<TaggedPoint[]> {
+  console.log('Calling Overpass API…');
+  const res = await fetch(OVERPASS_URL, {
+    method: 'POST',
+    body: OVERPASS_QUERY,
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+  });
+
+  if (!res.ok) {
+    const txt = await res.text();
+    throw new Error(`Overpass error ${res.status}: ${txt}`);
+  }
+
+  const json = (await res.json()) as { elements: OverpassPoint[] };
+  const points: TaggedPoint[] = [];
+  for (const el of json.elements) {
+    const lat = el.lat ?? el.center?.lat;
+    const lon = el.lon ?? el.center?.lon;
+    if (el.type === 'relation' || lat === undefined || lon === undefined) continue;
+    points.push({ type: el.type, id: el.id, lat, lon, tags: el.tags ?? {} });
+  }
+  return points;
+}
+
+async function main() {
+  const tagged = INPUT_FILE
+    ? await readTaggedPoints(INPUT_FILE, (tags) => accessPointType(tags) !== null)
+    : await fetchOverpass();
+
+  const points: AccessPoint[] = [];
+  let carParks = 0;
+  let stations = 0;
+  for (const p of tagged) {
+    const type = accessPointType(p.tags);
+    if (!type) continue;
+    points.push({
+      type,
+      osm_id: `${p.type}/${p.id}`,
+      name: p.tags.name,
+      lat: Math.round(p.lat * 1e6) / 1e6,
+      lon: Math.round(p.lon * 1e6) / 1e6,
+    });
+    if (type === 'car_park') carParks++;
+    else stations++;
+  }
+
+  fs.mkdirSync(path.dirname(ACCESS_POINTS_FILE), { recursive: true });
+  fs.writeFileSync(ACCESS_POINTS_FILE, JSON.stringify(points), 'utf8');
+
+  console.log('--------------------------------------------');
+  console.log(`Car parks            : ${carParks}`);
+  console.log(`Stations             : ${stations}`);
+  console.log(`Output file          : ${ACCESS_POINTS_FILE}`);
+  console.log('--------------------------------------------');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -2,23 +2,57 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import slugify from 'slugify';
-import { RawOsmHike } from './hike-types';
+import { loadAccessPointGrid } from './access-points';
+import { RawOsmHike, RouteRelationLink, RouteRelationType, StartAccess } from './hike-types';
+import {
+  buildRelationGeometry,
+  geometrySegments,
+  pathTagShares,
+  isRouteMaster,
+  isSuperRoute,
+  OsmElement,
+  OsmNode,
+  OsmRelation,
+  OsmWay,
+} from './osm-geometry';
+import { readOsmExtract } from './osm-extract';
+import { classifyRouteShape, loopStart, rotateLoop } from './route-shape';
+import {
+  ChangelogEntry,
+  OsmChangelog,
+  readSnapshot,
+  snapshotEntry,
+  writeChangelog,
+} from './osm-changelog';
 
 const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
 
-// Very simple UK-wide query; you can refine later to regions
+// Very simple UK-wide query; you can refine later to regions.
+// Alongside the routes themselves we fetch their child relations (stages,
+// links) and any route_master / superroute parents. Member ways come with
+// their tags (sac_scale, surface, ...) for grading; nodes are geometry only.
 const OVERPASS_QUERY = `
 [out:json][timeout:180];
 area["ISO3166-1"="GB"][admin_level=2]->.uk;
 (
   relation["route"="hiking"](area.uk);
   relation["route"="foot"](area.uk);
+)->.routes;
+(
+  .routes;
+  relation(r.routes);
+  relation(br.routes)["type"~"^(route_master|superroute)$"];
 );
 out body;
->;
+way(r);
+out body qt;
+node(w);
 out skel qt;
 `;
 
+// Way tags summarised onto each raw hike for grading.
+const PATH_TAG_KEYS = ['sac_scale', 'trail_visibility', 'surface'] as const;
+
 // Optional: limit how many relations you process (for debugging).
 // Example: MAX_OSM_RELATIONS=200 pnpm tsx scripts/scrape-osm-hikes.ts
 const MAX_RELATIONS =
@@ -27,38 +61,70 @@ const MAX_RELATIONS =
     : undefined;
 
 // Optional: skip files that already exist instead of overwriting.
+// Skipped relations are treated as unchanged in the changelog.
 // Example: OSM_SKIP_EXISTING=true pnpm tsx scripts/scrape-osm-hikes.ts
 const SKIP_EXISTING = process.env.OSM_SKIP_EXISTING === 'true';
 
-type OsmNode = {
-  type: 'node';
-  id: number;
-  lat: number;
-  lon: number;
-  tags?: Record<string, string>;
-};
-
-type OsmWay = {
-  type: 'way';
-  id: number;
-  nodes: number[];
-  tags?: Record<string, string>;
-};
-
-type OsmRelationMember = {
-  type: 'node' | 'way' | 'relation';
-  ref: number;
-  role?: string;
-};
-
-type OsmRelation = {
-  type: 'relation';
-  id: number;
-  tags?: Record<string, string>;
-  members?: OsmRelationMember[];
-};
-
-type OsmElement = OsmNode | OsmWay | OsmRelation;
+// Optional: read from a local .osm.pbf / .osm extract (e.g. Geofabrik's
+// great-britain-latest.osm.pbf) instead of calling Overpass. Offline and
+// reproducible for a given extract.
+// Example: OSM_INPUT_FILE=data/osm/great-britain-latest.osm.pbf pnpm scrape:osm
+const INPUT_FILE = process.env.OSM_INPUT_FILE
+  ? path.resolve(process.env.OSM_INPUT_FILE)
+  : undefined;
+
+function isHikingRoute(tags: Record<string, string>): boolean {
+  return tags.route === 'hiking' || tags.route === 'foot';
+}
+
+// Same selection as OVERPASS_QUERY, for local extracts (child relations of
+// these are pulled in by readOsmExtract). Superroutes tagged route=hiking
+// match isHikingRoute; untagged ones are only kept when they contain a
+// hiking route (see isSuperRouteTags), so cycling and bus superroutes aren't.
+function isHikingRouteOrParent(tags: Record<string, string>): boolean {
+  if (isHikingRoute(tags)) return true;
+  return tags.type === 'route_master' && (tags.route_master === 'hiking' || tags.route_master === 'foot');
+}
+
+function isSuperRouteTags(tags: Record<string, string>): boolean {
+  return tags.type === 'superroute';
+}
+
+function relationType(rel: OsmRelation): RouteRelationType {
+  if (isRouteMaster(rel)) return 'route_master';
+  if (isSuperRoute(rel)) return 'superroute';
+  return 'route';
+}
+
+/**
+ * Parent and child route relations of every relation, so each hike can
+ * record "part of X" and "stages of Y".
+ */
+function buildRouteLinks(relationsById: Map<number, OsmRelation>) {
+  const parents = new Map<number, RouteRelationLink[]>();
+  const children = new Map<number, RouteRelationLink[]>();
+
+  for (const rel of relationsById.values()) {
+    for (const member of rel.members ?? []) {
+      if (member.type !== 'relation') continue;
+      const child = relationsById.get(member.ref);
+      if (!child) continue;
+      const role = member.role || undefined;
+
+      const parentList = parents.get(child.id) ?? [];
+      parentList.push({ id: rel.id, name: rel.tags?.name, type: relationType(rel), role });
+      parents.set(child.id, parentList);
+
+      // route_master members are direction variants, not stages.
+      if (isRouteMaster(rel)) continue;
+      const childList = children.get(rel.id) ?? [];
+      childList.push({ id: child.id, name: child.tags?.name, type: relationType(child), role });
+      children.set(rel.id, childList);
+    }
+  }
+
+  return { parents, children };
+}
 
 function ensureDir(dir: string) {
   if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
@@ -98,7 +164,7 @@ async function fetchOsm(): Promise<{ elements: OsmElement[] }> {
 function buildIndexes(elements: OsmElement[]) {
   const nodesById = new Map<number, OsmNode>();
   const waysById = new Map<number, OsmWay>();
-  const relations: OsmRelation[] = [];
+  const relationsById = new Map<number, OsmRelation>();
 
   for (const el of elements) {
     if (el.type === 'node') {
@@ -106,54 +172,54 @@ function buildIndexes(elements: OsmElement[]) {
     } else if (el.type === 'way') {
       waysById.set(el.id, el as OsmWay);
     } else if (el.type === 'relation') {
-      relations.push(el as OsmRelation);
+      relationsById.set(el.id, el as OsmRelation);
     }
   }
 
+  // Only hiking/foot routes become hikes; route_masters and other fetched
+  // relations are kept for nesting and parent links.
+  const relations = [...relationsById.values()].filter((rel) => isHikingRoute(rel.tags ?? {}));
+
   console.log(
-    `Indexed ${nodesById.size} nodes, ${waysById.size} ways, ${relations.length} relations`
+    `Indexed ${nodesById.size} nodes, ${waysById.size} ways, ${relationsById.size} relations ` +
+      `(${relations.length} hiking routes)`
   );
 
-  return { nodesById, waysById, relations };
-}
-
-/**
- * Build coordinate list [lon, lat] for a single relation using pre-built
- * node/way maps. This is MUCH faster than re-scanning elements every time.
- */
-function getRelationCoords(
-  relation: OsmRelation,
-  waysById: Map<number, OsmWay>,
-  nodesById: Map<number, OsmNode>
-): [number, number][] {
-  const members = relation.members ?? [];
-  const coords: [number, number][] = [];
-
-  for (const member of members) {
-    if (member.type !== 'way') continue;
-
-    const way = waysById.get(member.ref);
-    if (!way || !Array.isArray(way.nodes)) continue;
-
-    for (const nodeId of way.nodes) {
-      const node = nodesById.get(nodeId);
-      if (!node) continue;
-      coords.push([node.lon, node.lat]);
-    }
-  }
-
-  // Optionally, you could de-duplicate consecutive identical points here.
-  return coords;
+  return { nodesById, waysById, relationsById, relations };
 }
 
 async function main() {
   const rawDir = path.join(process.cwd(), 'data', 'raw', 'osm');
   ensureDir(rawDir);
 
-  console.log('Fetching OSM hiking routes for UK…');
-  const osmJson = await fetchOsm();
+  let osmJson: { elements: OsmElement[] };
+  if (INPUT_FILE) {
+    console.log(`Reading OSM hiking routes from ${INPUT_FILE}…`);
+    osmJson = await readOsmExtract(INPUT_FILE, isHikingRouteOrParent, isSuperRouteTags);
+  } else {
+    console.log('Fetching OSM hiking routes for UK…');
+    osmJson = await fetchOsm();
+  }
 
-  const { nodesById, waysById, relations } = buildIndexes(osmJson.elements);
+  const { nodesById, waysById, relationsById, relations } = buildIndexes(osmJson.elements);
+  const routeLinks = buildRouteLinks(relationsById);
+
+  // Car parks / stations from scrape-access-points.ts, for loop starts.
+  const accessPoints = loadAccessPointGrid();
+  if (!accessPoints) {
+    console.warn('No access points found – circular routes keep their OSM start.');
+  }
+
+  // Previous snapshot, keyed by relation id, for the changelog.
+  const previous = readSnapshot(rawDir);
+  console.log(`Previous snapshot has ${previous.size} relations`);
+
+  const seenIds = new Set<number>();
+  const added: ChangelogEntry[] = [];
+  const geometryChanged: ChangelogEntry[] = [];
+  const tagsChanged: ChangelogEntry[] = [];
+  const removed: ChangelogEntry[] = [];
+  let unchanged = 0;
 
   const totalRelations = MAX_RELATIONS
     ? Math.min(relations.length, MAX_RELATIONS)
@@ -168,6 +234,8 @@ async function main() {
   let skippedNoName = 0;
   let skippedNoCoords = 0;
   let skippedExisting = 0;
+  let withGaps = 0;
+  let loopsRestarted = 0;
 
   for (let i = 0; i < totalRelations; i++) {
     const rel = relations[i];
@@ -183,15 +251,39 @@ async function main() {
     const file = path.join(rawDir, `${slug}.json`);
 
     if (SKIP_EXISTING && fs.existsSync(file)) {
+      seenIds.add(id);
       skippedExisting++;
+      unchanged++;
       continue;
     }
 
-    const coords = getRelationCoords(rel, waysById, nodesById);
-    if (coords.length < 2) {
+    const built = buildRelationGeometry(rel, waysById, nodesById, relationsById);
+    const { gapCount, gapLengthKm } = built;
+    let geometry = built.geometry;
+    if (!geometry) {
       skippedNoCoords++;
       continue;
     }
+    if (gapCount > 0) withGaps++;
+
+    // Start loops at the car park or station nearest the route, rather than
+    // wherever the first OSM way happens to begin.
+    const shape = classifyRouteShape(geometrySegments(geometry));
+    let startAccess: StartAccess | undefined;
+    if (shape === 'circular' && accessPoints && geometry.type === 'LineString') {
+      const start = loopStart(geometry.coordinates, accessPoints);
+      if (start) {
+        geometry = { type: 'LineString', coordinates: rotateLoop(geometry.coordinates, start.index) };
+        startAccess = {
+          type: start.access.type,
+          name: start.access.name,
+          distance_km: Math.round(start.distanceKm * 100) / 100,
+        };
+        loopsRestarted++;
+      }
+    }
+
+    const pathTags = pathTagShares(rel, waysById, nodesById, PATH_TAG_KEYS, relationsById);
 
     const raw: RawOsmHike = {
       id,
@@ -199,9 +291,43 @@ async function main() {
       name,
       network: rel.tags?.network,
       tags: rel.tags ?? {},
-      coordinates: coords,
+      geometry,
+      gapCount,
+      gapLengthKm,
+      parents: routeLinks.parents.get(id),
+      children: routeLinks.children.get(id),
+      pathTags: Object.keys(pathTags).length > 0 ? pathTags : undefined,
+      shape,
+      startAccess,
     };
 
+    seenIds.add(id);
+
+    const prev = previous.get(id);
+    const current = snapshotEntry(raw, file);
+    const entry: ChangelogEntry = { id, slug, name };
+    if (prev && prev.slug !== slug) entry.previous_slug = prev.slug;
+
+    if (!prev) {
+      added.push(entry);
+    } else if (prev.geometryHash !== current.geometryHash) {
+      geometryChanged.push(entry);
+    } else if (prev.tagsHash !== current.tagsHash) {
+      tagsChanged.push(entry);
+    } else {
+      unchanged++;
+    }
+
+    // The hashes only classify the change: a file written by an older
+    // scraper (or under an old slug) is still rewritten when the record
+    // differs.
+    if (prev?.recordHash === current.recordHash && prev.file === file) continue;
+
+    // A rename changes the slug, so drop the file under the old name.
+    if (prev && prev.file !== file && fs.existsSync(prev.file)) {
+      fs.unlinkSync(prev.file);
+    }
+
     // Synchronous is simple and safe; if this becomes a bottleneck later
     // we can switch to async writes with a concurrency limit.
     fs.writeFileSync(file, JSON.stringify(raw, null, 2), 'utf8');
@@ -218,14 +344,51 @@ async function main() {
     }
   }
 
+  // Relations no longer returned (deleted, renamed to no name, or lost
+  // their geometry) are removed from the snapshot. A limited run can't tell
+  // missing from unprocessed, so it never removes anything.
+  const complete = !MAX_RELATIONS || totalRelations === relations.length;
+  if (complete) {
+    for (const prev of previous.values()) {
+      if (seenIds.has(prev.id)) continue;
+      removed.push({ id: prev.id, slug: prev.slug, name: prev.name });
+      if (fs.existsSync(prev.file)) fs.unlinkSync(prev.file);
+    }
+  }
+
+  const changelog: OsmChangelog = {
+    generated_at: new Date().toISOString(),
+    source: INPUT_FILE ? path.basename(INPUT_FILE) : 'overpass',
+    complete,
+    counts: {
+      added: added.length,
+      geometry_changed: geometryChanged.length,
+      tags_changed: tagsChanged.length,
+      removed: removed.length,
+      unchanged,
+    },
+    added,
+    geometry_changed: geometryChanged,
+    tags_changed: tagsChanged,
+    removed,
+  };
+  writeChangelog(changelog);
+
   console.log('--------------------------------------------');
   console.log(`Finished processing ${totalRelations} relations.`);
   console.log(`Saved hikes          : ${savedCount}`);
   console.log(`Skipped (no name)    : ${skippedNoName}`);
   console.log(`Skipped (no coords)  : ${skippedNoCoords}`);
+  console.log(`Saved with gaps      : ${withGaps}`);
+  console.log(`Loops restarted      : ${loopsRestarted}`);
   if (SKIP_EXISTING) {
     console.log(`Skipped (existing)   : ${skippedExisting}`);
   }
+  console.log(`Added                : ${added.length}`);
+  console.log(`Geometry changed     : ${geometryChanged.length}`);
+  console.log(`Tags changed         : ${tagsChanged.length}`);
+  console.log(`Removed              : ${removed.length}`);
+  console.log(`Unchanged            : ${unchanged}`);
   console.log(`Output directory     : ${rawDir}`);
   console.log('--------------------------------------------');
 }
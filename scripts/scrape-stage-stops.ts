@@ -0,0 +1,105 @@
+// scripts/scrape-stage-stops.ts
+//
+// Fetches UK towns, villages and hamlets (OSM `place` nodes), railway
+// stations and accommodation (from Overpass, or from a local extract via
+// OSM_INPUT_FILE) into data/raw/stage-stops.json. plan-stages.ts ends the
+// days of long routes at them.
+//
+// Run before hikes:stages.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { StageStopType } from './hike-types';
+import { readTaggedPoints, TaggedPoint } from './osm-extract';
+import { STAGE_STOPS_FILE, StageStop, stageStopType } from './stage-stops';
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+
+const OVERPASS_QUERY = `
+[out:json][timeout:300];
+area["ISO3166-1"="GB"][admin_level=2]->.uk;
+(
+  node["place"~"^(city|town|village|hamlet)$"]["name"](area.uk);
+  nwr["railway"~"^(station|halt)$"]["name"](area.uk);
+  nwr["tourism"~"^(hotel|motel|guest_house|hostel|camp_site|alpine_hut|wilderness_hut)$"]["name"](area.uk);
+);
+out center tags qt;
+`;
+
+const INPUT_FILE = process.env.OSM_INPUT_FILE
+  ? path.resolve(process.env.OSM_INPUT_FILE)
+  : undefined;
+
+type OverpassPoint = {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+};
+
+async function fetchOverpass(): Promise<TaggedPoint[]> {
+  console.log('Calling Overpass API…');
+  const res = await fetch(OVERPASS_URL, {
+    method: 'POST',
+    body: OVERPASS_QUERY,
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+  });
+
+  if (!res.ok) {
+    const txt = await res.text();
+    throw new Error(`Overpass error ${res.status}: ${txt}`);
+  }
+
+  const json = (await res.json()) as { elements: OverpassPoint[] };
+  const points: TaggedPoint[] = [];
+  for (const el of json.elements) {
+    const lat = el.lat ?? el.center?.lat;
+    const lon = el.lon ?? el.center?.lon;
+    if (el.type === 'relation' || lat === undefined || lon === undefined) continue;
+    points.push({ type: el.type, id: el.id, lat, lon, tags: el.tags ?? {} });
+  }
+  return points;
+}
+
+async function main() {
+  const tagged = INPUT_FILE
+    ? await readTaggedPoints(INPUT_FILE, (tags) => stageStopType(tags) !== null)
+    : await fetchOverpass();
+
+  const stops: StageStop[] = [];
+  const counts = new Map<StageStopType, number>();
+  for (const p of tagged) {
+    const type = stageStopType(p.tags);
+    // Places are nodes; a place area's centre is often nowhere near the houses.
+    if (!type || (p.type !== 'node' && ['town', 'village', 'hamlet'].includes(type))) continue;
+    stops.push({
+      type,
+      osm_id: `${p.type}/${p.id}`,
+      name: p.tags.name,
+      lat: Math.round(p.lat * 1e6) / 1e6,
+      lon: Math.round(p.lon * 1e6) / 1e6,
+    });
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  }
+
+  fs.mkdirSync(path.dirname(STAGE_STOPS_FILE), { recursive: true });
+  fs.writeFileSync(STAGE_STOPS_FILE, JSON.stringify(stops), 'utf8');
+
+  console.log('--------------------------------------------');
+  console.log(`Towns                : ${counts.get('town') ?? 0}`);
+  console.log(`Villages             : ${counts.get('village') ?? 0}`);
+  console.log(`Hamlets              : ${counts.get('hamlet') ?? 0}`);
+  console.log(`Stations             : ${counts.get('station') ?? 0}`);
+  console.log(`Accommodation        : ${counts.get('accommodation') ?? 0}`);
+  console.log(`Output file          : ${STAGE_STOPS_FILE}`);
+  console.log('--------------------------------------------');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,145 @@
+// scripts/scrape-theme-features.ts
+//
+// Fetches the OSM features used for theming – coastline, lakes, waterfalls,
+// ridges / arêtes and peaks – from Overpass (or from a local extract via
+// OSM_INPUT_FILE) into data/raw/theme-features.json. Water smaller than
+// MIN_WATER_AREA_KM2 is dropped here to keep the file manageable.
+//
+// Run before hikes:themes.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LonLat } from './geo';
+import type { ThemeFeatureKind } from './hike-types';
+import { readTaggedFeatures, TaggedFeature } from './osm-extract';
+import {
+  MIN_WATER_AREA_KM2,
+  polygonAreaKm2,
+  THEME_FEATURES_FILE,
+  ThemeFeature,
+  themeFeatureKind,
+} from './theme-features';
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+
+const OVERPASS_QUERY = `
+[out:json][timeout:900];
+area["ISO3166-1"="GB"][admin_level=2]->.uk;
+(
+  way["natural"="coastline"](area.uk);
+  way["natural"="water"](area.uk);
+  relation["natural"="water"]["type"="multipolygon"](area.uk);
+  node["waterway"="waterfall"](area.uk);
+  way["waterway"="waterfall"](area.uk);
+  way["natural"~"^(ridge|arete)$"](area.uk);
+  node["natural"="peak"](area.uk);
+);
+out geom qt;
+`;
+
+const INPUT_FILE = process.env.OSM_INPUT_FILE
+  ? path.resolve(process.env.OSM_INPUT_FILE)
+  : undefined;
+
+type OverpassLatLon = { lat: number; lon: number };
+
+type OverpassFeature = {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  geometry?: OverpassLatLon[];
+  members?: { type: string; role: string; geometry?: OverpassLatLon[] }[];
+  tags?: Record<string, string>;
+};
+
+const toLine = (points: OverpassLatLon[]): [number, number][] =>
+  points.map((p) => [p.lon, p.lat]);
+
+async function fetchOverpass(): Promise<TaggedFeature[]> {
+  console.log('Calling Overpass API…');
+  const res = await fetch(OVERPASS_URL, {
+    method: 'POST',
+    body: OVERPASS_QUERY,
+    headers: {
+      'Content-Type': 'text/plain',
+    },
+  });
+
+  if (!res.ok) {
+    const txt = await res.text();
+    throw new Error(`Overpass error ${res.status}: ${txt}`);
+  }
+
+  const json = (await res.json()) as { elements: OverpassFeature[] };
+  const features: TaggedFeature[] = [];
+  for (const el of json.elements) {
+    let lines: [number, number][][] = [];
+    if (el.type === 'node' && el.lat !== undefined && el.lon !== undefined) {
+      lines = [[[el.lon, el.lat]]];
+    } else if (el.type === 'way' && el.geometry) {
+      lines = [toLine(el.geometry)];
+    } else if (el.type === 'relation') {
+      lines = (el.members ?? [])
+        .filter((m) => m.type === 'way' && m.role !== 'inner' && m.geometry)
+        .map((m) => toLine(m.geometry!));
+    }
+    if (lines.length > 0) features.push({ type: el.type, id: el.id, tags: el.tags ?? {}, lines });
+  }
+  return features;
+}
+
+const round = (c: LonLat): LonLat => [Math.round(c[0] * 1e5) / 1e5, Math.round(c[1] * 1e5) / 1e5];
+
+async function main() {
+  const tagged = INPUT_FILE
+    ? await readTaggedFeatures(INPUT_FILE, (tags) => themeFeatureKind(tags) !== null, {
+        relations: true,
+      })
+    : await fetchOverpass();
+
+  const features: ThemeFeature[] = [];
+  const byKind: Record<ThemeFeatureKind, number> = {
+    coastline: 0,
+    water: 0,
+    waterfall: 0,
+    ridge: 0,
+    arete: 0,
+    peak: 0,
+  };
+  let smallWater = 0;
+
+  for (const f of tagged) {
+    const kind = themeFeatureKind(f.tags);
+    if (!kind) continue;
+    if (kind === 'water' && polygonAreaKm2(f.lines) < MIN_WATER_AREA_KM2) {
+      smallWater++;
+      continue;
+    }
+    features.push({
+      kind,
+      osm_id: `${f.type}/${f.id}`,
+      name: f.tags.name,
+      lines: f.lines.map((line) => line.map(round)),
+    });
+    byKind[kind]++;
+  }
+
+  fs.mkdirSync(path.dirname(THEME_FEATURES_FILE), { recursive: true });
+  fs.writeFileSync(THEME_FEATURES_FILE, JSON.stringify(features), 'utf8');
+
+  console.log('--------------------------------------------');
+  console.log(`Coastline ways       : ${byKind.coastline}`);
+  console.log(`Lakes                : ${byKind.water}`);
+  console.log(`  skipped (too small): ${smallWater}`);
+  console.log(`Waterfalls           : ${byKind.waterfall}`);
+  console.log(`Ridges / arêtes      : ${byKind.ridge + byKind.arete}`);
+  console.log(`Peaks                : ${byKind.peak}`);
+  console.log(`Output file          : ${THEME_FEATURES_FILE}`);
+  console.log('--------------------------------------------');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+// scripts/simplify-line.ts
+//
+// Douglas–Peucker line simplification. Points are compared in metres on a
+// local equirectangular projection, which is accurate to well under a metre
+// over the length of any UK route.
+
+import type { LonLat } from './geo';
+
+const METRES_PER_DEGREE = 111_320;
+
+/**
+ * The line with every point dropped that is within `toleranceM` metres of
+ * the simplified line through its neighbours. The ends are always kept.
+ */
+export function simplifyLine(coords: LonLat[], toleranceM: number): LonLat[] {
+  if (coords.length <= 2) return coords;
+
+  const midLat = coords.reduce((sum, c) => sum + c[1], 0) / coords.length;
+  const xScale = METRES_PER_DEGREE * Math.cos((midLat * Math.PI) / 180);
+  const xy = coords.map(([lon, lat]) => [lon * xScale, lat * METRES_PER_DEGREE]);
+
+  const offset = (p: number[], a: number[], b: number[]) => {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const len2 = dx * dx + dy * dy;
+    const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2));
+    return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+  };
+
+  const keep = new Uint8Array(coords.length);
+  keep[0] = 1;
+  keep[coords.length - 1] = 1;
+
+  // An explicit stack: routes can have tens of thousands of points.
+  const stack: [number, number][] = [[0, coords.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let worst = 0;
+    let at = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = offset(xy[i], xy[first], xy[last]);
+      if (d > worst) {
+        worst = d;
+        at = i;
+      }
+    }
+    if (at >= 0 && worst > toleranceM) {
+      keep[at] = 1;
+      stack.push([first, at], [at, last]);
+    }
+  }
+
+  return coords.filter((_, i) => keep[i] === 1);
+}
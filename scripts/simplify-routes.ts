@@ -0,0 +1,105 @@
+// scripts/simplify-routes.ts
+//
+// Writes simplified copies of every scraped route for the map, one per
+// zoom band (see LEVELS), as encoded polylines in
+// public/routes/<slug>/z<min_zoom>.txt, and lists them in the matching
+// data/hikes/<slug>.json as `route_levels`. TrailMap loads the coarsest
+// level first and fetches finer ones only when the map is zoomed in, so
+// long routes draw quickly on phones instead of parsing the full GPX.
+//
+// Run after hikes:routes.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { encodePolyline } from '../lib/polyline';
+import { readHike, writeHike } from './hike-store';
+import { Hike, RawOsmHike, RouteLevel } from './hike-types';
+import { rawHikeSegments } from './osm-geometry';
+import { simplifyLine } from './simplify-line';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+const ROUTES_DIR = path.join(ROOT, 'public', 'routes');
+
+// Each tolerance is under a pixel across its zoom band at UK latitudes
+// (a pixel is ~90 m at zoom 10, ~11 m at zoom 13, ~1.4 m at zoom 16).
+const LEVELS: { min_zoom: number; tolerance_m: number }[] = [
+  { min_zoom: 0, tolerance_m: 50 },
+  { min_zoom: 11, tolerance_m: 8 },
+  { min_zoom: 14, tolerance_m: 1 },
+];
+
+// A finer level that adds fewer points than this is left out; the coarser
+// one is used at those zooms too.
+const MIN_GAIN = 1.25;
+
+function main() {
+  if (!fs.existsSync(RAW_DIR)) {
+    console.error(`Raw OSM dir missing: ${RAW_DIR}`);
+    process.exit(1);
+  }
+
+  const files = fs.readdirSync(RAW_DIR).filter((f) => f.endsWith('.json'));
+
+  let written = 0;
+  let updatedHikes = 0;
+  let skippedNoCoords = 0;
+  let fullPoints = 0;
+  let coarsePoints = 0;
+  let levelFiles = 0;
+
+  for (const file of files) {
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const segments = rawHikeSegments(raw).filter((s) => s.length >= 2);
+    if (segments.length === 0) {
+      skippedNoCoords++;
+      continue;
+    }
+
+    const dir = path.join(ROUTES_DIR, raw.slug);
+    if (fs.existsSync(dir)) fs.rmSync(dir, { recursive: true });
+    fs.mkdirSync(dir, { recursive: true });
+
+    const levels: RouteLevel[] = [];
+    for (const { min_zoom, tolerance_m } of LEVELS) {
+      const simplified = segments.map((s) => simplifyLine(s, tolerance_m));
+      const points = simplified.reduce((sum, s) => sum + s.length, 0);
+      const previous = levels[levels.length - 1];
+      if (previous && points < previous.points * MIN_GAIN) continue;
+
+      fs.writeFileSync(
+        path.join(dir, `z${min_zoom}.txt`),
+        simplified.map((s) => encodePolyline(s)).join('\n'),
+        'utf8'
+      );
+      levels.push({ min_zoom, tolerance_m, points, file: `/routes/${raw.slug}/z${min_zoom}.txt` });
+      levelFiles++;
+    }
+    written++;
+    fullPoints += segments.reduce((sum, s) => sum + s.length, 0);
+    coarsePoints += levels[0].points;
+
+    const hike = readHike(raw.slug);
+    if (hike) {
+      const updated: Hike = { ...hike, route_levels: levels };
+      writeHike(updated);
+      updatedHikes++;
+    }
+
+    if (written % 500 === 0) {
+      console.log(`Simplified ${written} routes...`);
+    }
+  }
+
+  console.log('--------------------------------------------');
+  console.log(`Routes simplified    : ${written}`);
+  console.log(`Level files          : ${levelFiles}`);
+  console.log(`Points (full)        : ${fullPoints}`);
+  console.log(`Points (coarsest)    : ${coarsePoints}`);
+  console.log(`Hike files updated   : ${updatedHikes}`);
+  console.log(`Skipped (no coords)  : ${skippedNoCoords}`);
+  console.log(`Routes directory     : ${ROUTES_DIR}`);
+  console.log('--------------------------------------------');
+}
+
+main();
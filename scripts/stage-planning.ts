@@ -0,0 +1,222 @@
+// scripts/stage-planning.ts
+//
+// Splits a long route into days. Stops (towns, villages, stations and
+// accommodation, see stage-stops.ts) within STOP_RADIUS_KM of the line are
+// candidate day ends; the plan is the cheapest sequence of ends, where a day
+// costs more the further it is from the target length and an end costs more
+// the worse a place it is to stop for the night (a town beats a hamlet, and
+// anywhere beats the middle of nowhere). Fallback ends every FALLBACK_STEP_KM
+// keep a plan possible where there are no stops at all.
+//
+// Distances are walked km along the route's segments; gaps between segments
+// aren't counted, as in compute-elevation.ts.
+
+import { haversineKm, LonLat } from './geo';
+import type { StageStopType } from './hike-types';
+import type { PointGrid } from './point-grid';
+import type { StageStop } from './stage-stops';
+
+// How far off the route a stop can be and still end a day.
+export const STOP_RADIUS_KM = 1.5;
+
+// Spacing of the points checked for nearby stops.
+const SAMPLE_KM = 0.2;
+
+const FALLBACK_STEP_KM = 1;
+
+// Shortest and longest day, as a share of the target.
+const MIN_DAY_SHARE = 0.6;
+const MAX_DAY_SHARE = 1.4;
+
+// A day this share off the target costs 1, the same as ending at a hamlet
+// rather than a town.
+const LENGTH_TOLERANCE = 0.2;
+
+const STOP_COST: Record<StageStopType | 'none', number> = {
+  town: 0,
+  village: 0.2,
+  station: 0.5,
+  accommodation: 0.5,
+  hamlet: 1,
+  none: 4,
+};
+
+// A stop on a route, at its closest approach on one pass.
+export type StopOnRoute = {
+  stop: StageStop;
+  alongKm: number;
+  offKm: number;
+};
+
+export type PlannedDay = {
+  startKm: number;
+  endKm: number;
+  end?: StopOnRoute; // unset on the last day and at fallback ends
+};
+
+type Position = { point: LonLat; alongKm: number };
+
+/** Points every SAMPLE_KM along the route, with their walked distance. */
+function samplePositions(segments: LonLat[][]): Position[] {
+  const out: Position[] = [];
+  let walked = 0;
+  for (const coords of segments) {
+    if (coords.length === 0) continue;
+    out.push({ point: coords[0], alongKm: walked });
+    let nextAt = walked + SAMPLE_KM;
+    for (let i = 1; i < coords.length; i++) {
+      const [a, b] = [coords[i - 1], coords[i]];
+      const len = haversineKm(a, b);
+      while (len > 0 && nextAt <= walked + len) {
+        const t = (nextAt - walked) / len;
+        out.push({ point: [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t], alongKm: nextAt });
+        nextAt += SAMPLE_KM;
+      }
+      walked += len;
+    }
+    out.push({ point: coords[coords.length - 1], alongKm: walked });
+  }
+  return out;
+}
+
+/**
+ * Stops within STOP_RADIUS_KM of the route, in route order. A stop passed
+ * twice (a loop, an out-and-back) is listed once per pass.
+ */
+export function stopsAlongRoute(segments: LonLat[][], grid: PointGrid<StageStop>): StopOnRoute[] {
+  const passes = new Map<string, (StopOnRoute & { lastKm: number })[]>();
+  for (const { point, alongKm } of samplePositions(segments)) {
+    for (const { item, distanceKm } of grid.within(point, STOP_RADIUS_KM)) {
+      const seen = passes.get(item.osm_id) ?? [];
+      const pass = seen[seen.length - 1];
+      if (pass && alongKm - pass.lastKm <= 2 * SAMPLE_KM) {
+        pass.lastKm = alongKm;
+        if (distanceKm < pass.offKm) Object.assign(pass, { alongKm, offKm: distanceKm });
+      } else {
+        seen.push({ stop: item, alongKm, offKm: distanceKm, lastKm: alongKm });
+        passes.set(item.osm_id, seen);
+      }
+    }
+  }
+  return [...passes.values()]
+    .flat()
+    .map(({ stop, alongKm, offKm }) => ({ stop, alongKm, offKm }))
+    .sort((a, b) => a.alongKm - b.alongKm);
+}
+
+/**
+ * The cheapest split of a route `lengthKm` long into days of about
+ * `targetKm`, ending at the given stops where possible.
+ */
+export function planDays(lengthKm: number, stops: StopOnRoute[], targetKm: number): PlannedDay[] {
+  const minKm = targetKm * MIN_DAY_SHARE;
+  const maxKm = targetKm * MAX_DAY_SHARE;
+
+  type End = { alongKm: number; cost: number; stop?: StopOnRoute };
+  const ends: End[] = [{ alongKm: 0, cost: 0 }];
+  for (let km = FALLBACK_STEP_KM; km < lengthKm; km += FALLBACK_STEP_KM) {
+    ends.push({ alongKm: km, cost: STOP_COST.none });
+  }
+  for (const stop of stops) {
+    if (stop.alongKm <= 0 || stop.alongKm >= lengthKm) continue;
+    ends.push({ alongKm: stop.alongKm, cost: STOP_COST[stop.stop.type] + stop.offKm / STOP_RADIUS_KM, stop });
+  }
+  ends.sort((a, b) => a.alongKm - b.alongKm);
+  ends.push({ alongKm: lengthKm, cost: 0 });
+
+  const dayCost = (km: number) => ((km - targetKm) / (targetKm * LENGTH_TOLERANCE)) ** 2;
+
+  // best[i]: cheapest plan reaching ends[i]; from[i]: the day before's end.
+  const best = new Array<number>(ends.length).fill(Infinity);
+  const from = new Array<number>(ends.length).fill(-1);
+  best[0] = 0;
+  for (let i = 1; i < ends.length; i++) {
+    const last = i === ends.length - 1;
+    for (let j = i - 1; j >= 0; j--) {
+      const km = ends[i].alongKm - ends[j].alongKm;
+      if (km > maxKm) break;
+      // The last day may be short rather than forcing an extra one.
+      if ((km < minKm && !last) || best[j] === Infinity) continue;
+      const cost = best[j] + dayCost(km) + ends[i].cost;
+      if (cost < best[i]) {
+        best[i] = cost;
+        from[i] = j;
+      }
+    }
+  }
+
+  const days: PlannedDay[] = [];
+  for (let i = ends.length - 1; i > 0 && from[i] >= 0; i = from[i]) {
+    days.unshift({ startKm: ends[from[i]].alongKm, endKm: ends[i].alongKm, end: ends[i].stop });
+  }
+  return days;
+}
+
+/**
+ * The part of the route between two walked distances, as segments (a gap
+ * inside the day stays a gap).
+ */
+export function cutSegments(segments: LonLat[][], fromKm: number, toKm: number): LonLat[][] {
+  const out: LonLat[][] = [];
+  let walked = 0;
+  for (const coords of segments) {
+    const part: LonLat[] = [];
+    for (let i = 1; i < coords.length; i++) {
+      const [a, b] = [coords[i - 1], coords[i]];
+      const len = haversineKm(a, b);
+      const at = (km: number): LonLat => {
+        const t = len > 0 ? (km - walked) / len : 0;
+        return [
+          Math.round((a[0] + (b[0] - a[0]) * t) * 1e6) / 1e6,
+          Math.round((a[1] + (b[1] - a[1]) * t) * 1e6) / 1e6,
+        ];
+      };
+      if (walked + len >= fromKm && walked <= toKm) {
+        if (part.length === 0) part.push(walked >= fromKm ? a : at(fromKm));
+        part.push(walked + len <= toKm ? b : at(toKm));
+      }
+      walked += len;
+    }
+    if (part.length >= 2) out.push(part);
+  }
+  return out;
+}
+
+/**
+ * Climb and drop between two distances of an elevation profile
+ * ([distance_km, elevation_m] pairs), counting changes of at least
+ * `thresholdM`.
+ */
+export function profileClimb(
+  profile: [number, number][],
+  fromKm: number,
+  toKm: number,
+  thresholdM: number
+): { ascent: number; descent: number } {
+  const heightAt = (km: number) => {
+    const i = profile.findIndex(([d]) => d >= km);
+    if (i < 0) return profile[profile.length - 1][1];
+    if (i === 0) return profile[0][1];
+    const [[d0, h0], [d1, h1]] = [profile[i - 1], profile[i]];
+    return d1 === d0 ? h1 : h0 + ((h1 - h0) * (km - d0)) / (d1 - d0);
+  };
+  const values = [
+    heightAt(fromKm),
+    ...profile.filter(([d]) => d > fromKm && d < toKm).map(([, h]) => h),
+    heightAt(toKm),
+  ];
+
+  let ascent = 0;
+  let descent = 0;
+  let ref = values[0];
+  for (const v of values) {
+    if (v - ref >= thresholdM) {
+      ascent += v - ref;
+      ref = v;
+    } else if (ref - v >= thresholdM) {
+      descent += ref - v;
+      ref = v;
+    }
+  }
+  return { ascent, descent };
+}
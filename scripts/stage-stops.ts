@@ -0,0 +1,61 @@
+// scripts/stage-stops.ts
+//
+// Towns, villages, stations and places to stay, written by
+// scrape-stage-stops.ts to data/raw/stage-stops.json. plan-stages.ts ends
+// the days of a long route at them.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LonLat } from './geo';
+import type { StageStopType } from './hike-types';
+import { buildPointGrid, PointGrid } from './point-grid';
+
+export const STAGE_STOPS_FILE = path.join(process.cwd(), 'data', 'raw', 'stage-stops.json');
+
+const PLACE_TYPES: Record<string, StageStopType> = {
+  city: 'town',
+  town: 'town',
+  village: 'village',
+  hamlet: 'hamlet',
+};
+
+const ACCOMMODATION = new Set([
+  'hotel',
+  'motel',
+  'guest_house',
+  'hostel',
+  'camp_site',
+  'alpine_hut',
+  'wilderness_hut',
+]);
+
+export type StageStop = {
+  type: StageStopType;
+  osm_id: string; // e.g. "node/123"
+  name: string;
+  lat: number;
+  lon: number;
+};
+
+/**
+ * What kind of overnight stop a feature is, or null. Stops need a name, as
+ * the hike page says where each day ends.
+ */
+export function stageStopType(tags: Record<string, string>): StageStopType | null {
+  if (!tags.name) return null;
+  if (tags.place && PLACE_TYPES[tags.place]) return PLACE_TYPES[tags.place];
+  if (tags.railway === 'station' || tags.railway === 'halt') return 'station';
+  if (tags.tourism && ACCOMMODATION.has(tags.tourism)) {
+    return tags.access === 'private' || tags.access === 'no' ? null : 'accommodation';
+  }
+  return null;
+}
+
+/**
+ * Grid over the saved stops, or null when none have been scraped.
+ */
+export function loadStageStopGrid(): PointGrid<StageStop> | null {
+  if (!fs.existsSync(STAGE_STOPS_FILE)) return null;
+  const stops = JSON.parse(fs.readFileSync(STAGE_STOPS_FILE, 'utf8')) as StageStop[];
+  return stops.length > 0 ? buildPointGrid(stops, (s): LonLat => [s.lon, s.lat]) : null;
+}
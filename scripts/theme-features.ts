@@ -0,0 +1,113 @@
+// scripts/theme-features.ts
+//
+// Coastline, lakes, waterfalls, ridges and peaks, written by
+// scrape-theme-features.ts to data/raw/theme-features.json. assign-themes.ts
+// checks routes against them to give hikes their themes.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LonLat } from './geo';
+import type { ThemeFeatureKind } from './hike-types';
+
+export const THEME_FEATURES_FILE = path.join(
+  process.cwd(),
+  'data',
+  'raw',
+  'theme-features.json'
+);
+
+// Water polygons smaller than this (ponds, tanks) don't make a "lakes" walk.
+export const MIN_WATER_AREA_KM2 = 0.02;
+
+// natural=water that is running water or man-made, not a lake.
+const NOT_LAKES = new Set([
+  'river',
+  'stream',
+  'canal',
+  'ditch',
+  'drain',
+  'oxbow',
+  'lock',
+  'moat',
+  'wastewater',
+  'basin',
+  'pond',
+]);
+
+export type ThemeFeature = {
+  kind: ThemeFeatureKind;
+  osm_id: string; // e.g. "way/123"
+  name?: string;
+  lines: LonLat[][]; // a point feature is one single-point line
+};
+
+export function themeFeatureKind(tags: Record<string, string>): ThemeFeatureKind | null {
+  if (tags.natural === 'coastline') return 'coastline';
+  if (tags.natural === 'water') return NOT_LAKES.has(tags.water ?? '') ? null : 'water';
+  if (tags.waterway === 'waterfall') return 'waterfall';
+  if (tags.natural === 'ridge') return 'ridge';
+  if (tags.natural === 'arete') return 'arete';
+  if (tags.natural === 'peak') return 'peak';
+  return null;
+}
+
+/**
+ * Join open lines end to end into rings (multipolygon outer ways are split
+ * into many pieces). Lines that never close are returned as they are.
+ */
+function joinRings(lines: LonLat[][]): LonLat[][] {
+  const same = (a: LonLat, b: LonLat) => a[0] === b[0] && a[1] === b[1];
+  const open = lines.filter((l) => l.length > 1).map((l) => [...l]);
+  const rings: LonLat[][] = [];
+
+  while (open.length > 0) {
+    const ring = open.shift()!;
+    let joined = true;
+    while (joined && !same(ring[0], ring[ring.length - 1])) {
+      joined = false;
+      for (let i = 0; i < open.length; i++) {
+        const line = open[i];
+        const end = ring[ring.length - 1];
+        if (same(line[0], end)) ring.push(...line.slice(1));
+        else if (same(line[line.length - 1], end)) ring.push(...line.reverse().slice(1));
+        else continue;
+        open.splice(i, 1);
+        joined = true;
+        break;
+      }
+    }
+    rings.push(ring);
+  }
+  return rings;
+}
+
+/**
+ * Area (km²) enclosed by the closed rings among `lines`, using an
+ * equirectangular projection – plenty for telling ponds from lakes.
+ */
+export function polygonAreaKm2(lines: LonLat[][]): number {
+  let total = 0;
+  for (const ring of joinRings(lines)) {
+    const n = ring.length;
+    if (n < 4 || ring[0][0] !== ring[n - 1][0] || ring[0][1] !== ring[n - 1][1]) continue;
+
+    const kmPerDegLon = 111.32 * Math.cos((ring[0][1] * Math.PI) / 180);
+    const kmPerDegLat = 110.57;
+    let twice = 0;
+    for (let i = 1; i < n; i++) {
+      const [x1, y1] = ring[i - 1];
+      const [x2, y2] = ring[i];
+      twice += (x1 * y2 - x2 * y1) * kmPerDegLon * kmPerDegLat;
+    }
+    total += Math.abs(twice) / 2;
+  }
+  return total;
+}
+
+/**
+ * The saved features, or an empty list when none have been scraped.
+ */
+export function loadThemeFeatures(): ThemeFeature[] {
+  if (!fs.existsSync(THEME_FEATURES_FILE)) return [];
+  return JSON.parse(fs.readFileSync(THEME_FEATURES_FILE, 'utf8')) as ThemeFeature[];
+}
@@ -0,0 +1,281 @@
+// scripts/validate-hikes.ts
+//
+// Data quality checks for data/hikes/*.json:
+//   - schema        every file matches lib/hike-schema.ts
+//   - slug          the slug matches the filename
+//   - duplicate-id  no two files share an id
+//   - coordinates   start/end inside the UK and not 0,0
+//   - distance      distance is set, and agrees with the OSM `distance` tag
+//   - test-data     templates and test files don't belong in the dataset
+//
+// Writes hikes-validation.json and hikes-validation.html to
+// HIKES_REPORT_DIR (default data/reports) and exits non-zero when any check
+// reports an error. Warnings are listed but don't fail the run.
+//
+// Templates for hand-written hikes live in data/templates/.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { validateHike } from '../lib/hike-schema';
+import { HIKES_DIR } from './hike-store';
+import { Hike, RawOsmHike, RoutePoint } from './hike-types';
+import { parseDistanceTag } from './osm-geometry';
+
+const ROOT = process.cwd();
+const RAW_DIR = path.join(ROOT, 'data', 'raw', 'osm');
+const REPORT_DIR = path.resolve(
+  process.env.HIKES_REPORT_DIR ?? path.join(ROOT, 'data', 'reports')
+);
+
+// Great Britain, Northern Ireland and the islands (Scilly to Shetland).
+const UK_BOUNDS = { minLat: 49.8, maxLat: 60.9, minLon: -8.7, maxLon: 1.8 };
+
+// How far the measured distance may stray from the OSM `distance` tag. Tags
+// are often rounded or cover a slightly different route, so small
+// differences are only warnings; a route twice (or half) as long as its tag
+// is usually missing members or picked up extra ones.
+const DISTANCE_WARN_RATIO = 1.25;
+const DISTANCE_ERROR_RATIO = 2;
+const DISTANCE_MIN_DIFF_KM = 1;
+
+// How many issues are printed to the console; the report has them all.
+const CONSOLE_ISSUES = 20;
+
+type Severity = 'error' | 'warning';
+type Check = 'schema' | 'slug' | 'duplicate-id' | 'coordinates' | 'distance' | 'test-data';
+
+type Issue = {
+  file: string;
+  check: Check;
+  severity: Severity;
+  message: string;
+};
+
+type ValidationReport = {
+  generated_at: string;
+  hikes_dir: string;
+  files: number;
+  valid: number; // files with no errors (warnings allowed)
+  errors: number;
+  warnings: number;
+  by_check: Record<Check, { errors: number; warnings: number }>;
+  issues: Issue[];
+};
+
+const CHECKS: Check[] = ['schema', 'slug', 'duplicate-id', 'coordinates', 'distance', 'test-data'];
+
+// OSM relation id → km from its `distance` tag.
+function readDistanceTags(): Map<number, number> {
+  const tags = new Map<number, number>();
+  if (!fs.existsSync(RAW_DIR)) return tags;
+
+  for (const file of fs.readdirSync(RAW_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const raw = JSON.parse(fs.readFileSync(path.join(RAW_DIR, file), 'utf8')) as RawOsmHike;
+    const km = parseDistanceTag(raw.tags?.distance);
+    if (km !== null) tags.set(raw.id, km);
+  }
+  return tags;
+}
+
+function checkPoint(label: string, point: RoutePoint): string | null {
+  if (point.lat === 0 && point.lon === 0) return `${label} is at 0,0`;
+  const { minLat, maxLat, minLon, maxLon } = UK_BOUNDS;
+  if (point.lat < minLat || point.lat > maxLat || point.lon < minLon || point.lon > maxLon) {
+    return `${label} ${point.lat}, ${point.lon} is outside the UK`;
+  }
+  return null;
+}
+
+function checkDistance(hike: Hike, tagged: number | undefined): { severity: Severity; message: string } | null {
+  if (hike.distance_km <= 0) return { severity: 'error', message: 'distance_km is 0' };
+  if (tagged === undefined) return null;
+
+  const ratio = Math.max(hike.distance_km / tagged, tagged / hike.distance_km);
+  if (Math.abs(hike.distance_km - tagged) < DISTANCE_MIN_DIFF_KM || ratio < DISTANCE_WARN_RATIO) {
+    return null;
+  }
+  return {
+    severity: ratio >= DISTANCE_ERROR_RATIO ? 'error' : 'warning',
+    message: `distance_km ${hike.distance_km} vs OSM distance tag ${tagged.toFixed(1)} km`,
+  };
+}
+
+// Leftovers from copying the template, or sample data.
+function looksLikeTestData(file: string, hike: Hike | null): boolean {
+  if (/^(TEMPLATE|example)/i.test(file)) return true;
+  return hike?.region === 'Test Region' || hike?.slug === 'url-slug-for-route';
+}
+
+function validate(distanceTags: Map<number, number>): ValidationReport {
+  const files = fs.readdirSync(HIKES_DIR).filter((f) => f.endsWith('.json'));
+  const issues: Issue[] = [];
+  const filesById = new Map<string, string[]>();
+
+  for (const file of files) {
+    const add = (check: Check, severity: Severity, message: string) =>
+      issues.push({ file, check, severity, message });
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(path.join(HIKES_DIR, file), 'utf8'));
+    } catch (err) {
+      add('schema', 'error', `not valid JSON: ${(err as Error).message}`);
+      continue;
+    }
+
+    const result = validateHike(data);
+    const hike = result.ok ? result.hike : null;
+    if (!result.ok) {
+      for (const issue of result.issues) add('schema', 'error', issue);
+    }
+
+    if (looksLikeTestData(file, hike)) {
+      add('test-data', 'error', 'template or test file – move it to data/templates/');
+    }
+
+    // The remaining checks need the fields to be there.
+    if (!hike) continue;
+
+    if (`${hike.slug}.json` !== file) {
+      add('slug', 'error', `slug "${hike.slug}" doesn't match the filename`);
+    }
+
+    filesById.set(hike.id, [...(filesById.get(hike.id) ?? []), file]);
+
+    for (const [label, point] of [
+      ['start', hike.start],
+      ['end', hike.end],
+    ] as const) {
+      const problem = point ? checkPoint(label, point) : null;
+      if (problem) add('coordinates', 'error', problem);
+    }
+
+    const tagged = hike.source.type === 'osm' ? distanceTags.get(hike.source.osm_id) : undefined;
+    const distance = checkDistance(hike, tagged);
+    if (distance) add('distance', distance.severity, distance.message);
+  }
+
+  for (const [id, shared] of filesById) {
+    if (shared.length < 2) continue;
+    for (const file of shared) {
+      const others = shared.filter((f) => f !== file).join(', ');
+      issues.push({ file, check: 'duplicate-id', severity: 'error', message: `id "${id}" also used by ${others}` });
+    }
+  }
+
+  const byCheck = Object.fromEntries(
+    CHECKS.map((check) => [check, { errors: 0, warnings: 0 }])
+  ) as ValidationReport['by_check'];
+  for (const issue of issues) {
+    byCheck[issue.check][issue.severity === 'error' ? 'errors' : 'warnings']++;
+  }
+
+  const filesWithErrors = new Set(issues.filter((i) => i.severity === 'error').map((i) => i.file));
+  issues.sort((a, b) => a.severity.localeCompare(b.severity) || a.file.localeCompare(b.file));
+
+  return {
+    generated_at: new Date().toISOString(),
+    hikes_dir: path.relative(ROOT, HIKES_DIR),
+    files: files.length,
+    valid: files.length - filesWithErrors.size,
+    errors: issues.filter((i) => i.severity === 'error').length,
+    warnings: issues.filter((i) => i.severity === 'warning').length,
+    by_check: byCheck,
+    issues,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderHtml(report: ValidationReport): string {
+  const summaryRows = CHECKS.map(
+    (check) =>
+      `<tr><td>${check}</td><td>${report.by_check[check].errors}</td><td>${report.by_check[check].warnings}</td></tr>`
+  ).join('\n');
+  const issueRows = report.issues
+    .map(
+      (i) =>
+        `<tr class="${i.severity}"><td>${i.severity}</td><td>${i.check}</td>` +
+        `<td>${escapeHtml(i.file)}</td><td>${escapeHtml(i.message)}</td></tr>`
+    )
+    .join('\n');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Hike data validation</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1e293b; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  th, td { border: 1px solid #cbd5e1; padding: 0.25rem 0.5rem; text-align: left; font-size: 0.875rem; }
+  th { background: #f1f5f9; }
+  tr.error td:first-child { color: #be123c; font-weight: 600; }
+  tr.warning td:first-child { color: #b45309; }
+</style>
+</head>
+<body>
+<h1>Hike data validation</h1>
+<p>Generated ${escapeHtml(report.generated_at)} from <code>${escapeHtml(report.hikes_dir)}</code>:
+${report.files} files, ${report.valid} without errors, ${report.errors} errors, ${report.warnings} warnings.</p>
+<table>
+<tr><th>Check</th><th>Errors</th><th>Warnings</th></tr>
+${summaryRows}
+</table>
+<table>
+<tr><th>Severity</th><th>Check</th><th>File</th><th>Problem</th></tr>
+${issueRows}
+</table>
+</body>
+</html>
+`;
+}
+
+function main() {
+  if (!fs.existsSync(HIKES_DIR)) {
+    console.error(`Hikes dir missing: ${HIKES_DIR}`);
+    process.exit(1);
+  }
+
+  const distanceTags = readDistanceTags();
+  const report = validate(distanceTags);
+
+  fs.mkdirSync(REPORT_DIR, { recursive: true });
+  const jsonFile = path.join(REPORT_DIR, 'hikes-validation.json');
+  const htmlFile = path.join(REPORT_DIR, 'hikes-validation.html');
+  fs.writeFileSync(jsonFile, JSON.stringify(report, null, 2), 'utf8');
+  fs.writeFileSync(htmlFile, renderHtml(report), 'utf8');
+
+  console.log('--------------------------------------------');
+  console.log(`Hike files           : ${report.files}`);
+  console.log(`Without errors       : ${report.valid}`);
+  console.log(`Errors               : ${report.errors}`);
+  console.log(`Warnings             : ${report.warnings}`);
+  for (const check of CHECKS) {
+    const { errors, warnings } = report.by_check[check];
+    console.log(`  ${check.padEnd(19)}: ${errors} errors, ${warnings} warnings`);
+  }
+  console.log(`OSM distance tags    : ${distanceTags.size}`);
+  console.log(`Report               : ${jsonFile}`);
+  console.log(`                       ${htmlFile}`);
+  console.log('--------------------------------------------');
+
+  const errors = report.issues.filter((i) => i.severity === 'error');
+  for (const issue of errors.slice(0, CONSOLE_ISSUES)) {
+    console.log(`  [${issue.check}] ${issue.file}: ${issue.message}`);
+  }
+  if (errors.length > CONSOLE_ISSUES) {
+    console.log(`  … and ${errors.length - CONSOLE_ISSUES} more in the report`);
+  }
+
+  if (errors.length > 0) process.exit(1);
+}
+
+main();
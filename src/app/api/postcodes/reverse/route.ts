@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { nearestPostcodes, REVERSE_MAX_KM } from '@/lib/postcodes'
+
+export const runtime = 'nodejs'
+
+const MAX_RESULTS = 50
+
+// GET /api/postcodes/reverse?lat=53.41&lon=-1.23[&k=5][&distance=20]
+// The nearest in-use postcodes to a point, closest first.
+export async function GET(req: NextRequest) {
+  const searchParams = new URL(req.url).searchParams
+
+  const lat = Number(searchParams.get('lat'))
+  const lon = Number(searchParams.get('lon'))
+  const k = Number(searchParams.get('k') ?? '1')
+  const maxDistanceKm = Number(searchParams.get('distance') ?? REVERSE_MAX_KM)
+
+  if (
+    !searchParams.get('lat') ||
+    !searchParams.get('lon') ||
+    !Number.isFinite(lat) ||
+    !Number.isFinite(lon) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lon) > 180
+  ) {
+    return NextResponse.json(
+      { error: 'lat and lon must be valid coordinates' },
+      { status: 400 }
+    )
+  }
+
+  if (!Number.isInteger(k) || k <= 0 || k > MAX_RESULTS) {
+    return NextResponse.json(
+      { error: `k must be a whole number from 1 to ${MAX_RESULTS}` },
+      { status: 400 }
+    )
+  }
+
+  if (!Number.isFinite(maxDistanceKm) || maxDistanceKm <= 0 || maxDistanceKm > REVERSE_MAX_KM) {
+    return NextResponse.json(
+      { error: `distance must be a positive number up to ${REVERSE_MAX_KM} (km)` },
+      { status: 400 }
+    )
+  }
+
+  const results = await nearestPostcodes(lat, lon, k, maxDistanceKm)
+
+  return NextResponse.json({
+    lat,
+    lon,
+    maxDistanceKm,
+    resultCount: results.length,
+    results: results.map((r) => ({ ...r, distanceKm: Number(r.distanceKm.toFixed(2)) })),
+  })
+}
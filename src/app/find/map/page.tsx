@@ -1,37 +1,13 @@
 import { getAllHikes } from '@/lib/hikes';
+import { toHikeSummary } from '@/lib/hike-schema';
 import { FilteredHikeMapExplorer } from '@/components/FilteredHikeMapExplorer';
 import { SiteHeader } from '@/components/SiteHeader';
 
 export default async function FindMapPage() {
   const hikes = await getAllHikes();
 
-  // Only keep hikes that have valid coordinates
-  const hikesWithCoords = hikes.filter(
-    (h) =>
-      h.start &&
-      typeof h.start.lat === 'number' &&
-      typeof h.start.lon === 'number'
-  );
-
-  // Shape data for the map component
-  const hikesForMap = hikesWithCoords.map((h) => ({
-  slug: h.slug,
-  name: h.name,
-  region: h.region,
-  difficulty: h.difficulty,
-  distance_km: h.distance_km,
-  start: {
-    lat: h.start.lat,
-    lon: h.start.lon,
-    nearest_postcode: h.start.nearest_postcode,
-  },
-  transport: {
-    access_tags: h.transport?.access_tags ?? [],
-  },
-  features: h.features ?? [],
-  terrain: h.terrain ?? [],
-  theme_tags: (h as any).theme_tags ?? [],
-}));
+  // Only the fields the map needs are sent to the browser.
+  const hikesForMap = hikes.map(toHikeSummary);
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -12,8 +12,8 @@ const mockHikes = [
     slug: 'stanage-edge-ridge-walk',
     name: 'Stanage Edge Ridge Walk',
     region: 'Peak District, England',
-    distanceKm: 9.6,
-    ascentM: 380,
+    distance_km: 9.6,
+    ascent_m: 380,
     difficulty: 'moderate' as const,
     themeTags: ['ridges'],
     transportTags: ['train-accessible', 'car-free-possible'],
@@ -24,8 +24,8 @@ const mockHikes = [
     slug: 'buttermere-lakeside-circuit',
     name: 'Buttermere Lakeside Circuit',
     region: 'Lake District, England',
-    distanceKm: 7.8,
-    ascentM: 220,
+    distance_km: 7.8,
+    ascent_m: 220,
     difficulty: 'easy' as const,
     themeTags: ['lakes'],
     transportTags: ['bus-accessible'],
@@ -1,6 +1,6 @@
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
-import { getHikeBySlug, hikes, type Hike } from '@/data/hikes';
+import { getHikeBySlug, hikes, type Difficulty } from '@/data/hikes';
 
 type PageProps = {
   params: { slug: string };
@@ -12,7 +12,7 @@ export function generateStaticParams() {
 }
 
 const difficultyConfig: Record<
-  Hike['difficulty'],
+  Difficulty,
   { label: string; badgeClass: string }
 > = {
   easy: {
@@ -25,8 +25,8 @@ const difficultyConfig: Record<
     badgeClass:
       'bg-amber-50 text-amber-700 border border-amber-100',
   },
-  challenging: {
-    label: 'Challenging',
+  hard: {
+    label: 'Hard',
     badgeClass:
       'bg-rose-50 text-rose-700 border border-rose-100',
   },
@@ -79,7 +79,7 @@ export default function HikeDetailPage({ params }: PageProps) {
               Distance
             </div>
             <div className="mt-1 text-xl font-semibold">
-              {hike.distanceKm.toFixed(1)} km
+              {hike.distance_km.toFixed(1)} km
             </div>
           </div>
 
@@ -89,7 +89,7 @@ export default function HikeDetailPage({ params }: PageProps) {
               Ascent
             </div>
             <div className="mt-1 text-xl font-semibold">
-              {hike.ascentM} m
+              {typeof hike.ascent_m === 'number' ? `${hike.ascent_m} m` : '–'}
             </div>
           </div>
 
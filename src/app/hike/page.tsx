@@ -1,7 +1,52 @@
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { TrailMap } from '@/components/TrailMap';
+import { WaymarkBadge } from '@/components/WaymarkBadge';
 import { getHikeBySlug, getNearbyHikes } from '@/lib/hikes';
+import {
+  DayStage,
+  StageStopType,
+  VARIANT_RELATIONS,
+  VariantRelation,
+  variantParents,
+} from '@/lib/hike-schema';
+import { nearestPostcodes } from '@/lib/postcodes';
+
+// How a variant's page introduces its parent(s), and the headings for
+// variants on the parent's page.
+const VARIANT_OF_TEXT: Record<VariantRelation, string> = {
+  variant_of: 'An alternative route for',
+  shortcut_for: 'A short cut for',
+  extension_of: 'An extension of',
+  link_between: 'A link path to',
+};
+const VARIANT_HEADINGS: Record<VariantRelation, string> = {
+  variant_of: 'Alternative routes',
+  shortcut_for: 'Short cuts',
+  extension_of: 'Extensions',
+  link_between: 'Link paths',
+};
+
+const STAGE_STOP_LABELS: Record<StageStopType, string> = {
+  town: 'town',
+  village: 'village',
+  hamlet: 'hamlet',
+  station: 'railway station',
+  accommodation: 'place to stay',
+};
+
+// Where a day ends: its stop, the route's finish, or failing that a
+// distance along the route.
+function dayEndName(stage: DayStage, last: boolean, finish: string | undefined): string {
+  if (last) return finish ?? 'Finish';
+  return stage.stop?.name ?? `${stage.end_km.toFixed(1)} km`;
+}
+
+// "en:Downs Link" → https://en.wikipedia.org/wiki/Downs_Link
+function wikipediaUrl(tag: string): string {
+  const [lang, ...title] = tag.includes(':') ? tag.split(':') : ['en', tag];
+  return `https://${lang}.wikipedia.org/wiki/${encodeURIComponent(title.join(':').replace(/ /g, '_'))}`;
+}
 
 type PageProps = {
   params: Promise<{ slug?: string }>;
@@ -64,23 +109,53 @@ export default async function HikePage({ params, searchParams }: PageProps) {
   }
 
   const nearby = await getNearbyHikes(slug, 30, 4);
+  const canonical = hike.duplicate_of ? await getHikeBySlug(hike.duplicate_of) : null;
+  const variantOf = await Promise.all(
+    variantParents(hike).map(async (parent) => ({
+      slug: parent,
+      name: (await getHikeBySlug(parent))?.name ?? parent,
+    }))
+  );
+  const variantRelation = VARIANT_RELATIONS.find((relation) => hike[relation]);
+
+  // Remote starts, and hikes normalised without postcode data, have no
+  // nearest_postcode; look one up so there's still something for a satnav.
+  // For a remote start it's shown as part of the remote note, with how far
+  // away it is.
+  const startPostcode = hike.start.nearest_postcode
+    ? { postcode: hike.start.nearest_postcode, distanceKm: hike.start.nearest_postcode_km }
+    : (await nearestPostcodes(hike.start.lat, hike.start.lon))[0];
 
   const {
     name,
     region,
     county,
     difficulty,
+    grade,
     distance_km,
     ascent_m,
+    descent_m,
     time_hours,
-    summary,
-    terrain,
-    terrain_summary,
-    safety_notes,
+    route_shape,
     start,
+    end,
+    remote,
+    transport,
+    part_of,
+    stages,
+    day_stages,
     gpx_file,
+    duplicate_of,
+    variants,
+    osm,
   } = hike;
 
+  // Hand-written text wins over the AI-generated version.
+  const summary = hike.summary ?? hike.ai?.summary;
+  const terrain =
+    hike.terrain_summary ?? hike.ai?.terrain_summary ?? hike.terrain?.join(', ');
+  const safetyNotes = hike.ai?.safety_notes;
+
   const badgeText = difficulty?.toUpperCase() || 'ROUTE';
 
   return (
@@ -90,10 +165,70 @@ export default async function HikePage({ params, searchParams }: PageProps) {
         <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
           HIKING ROUTE
         </p>
-        <h1 className="text-3xl font-semibold">{name}</h1>
+        <div className="flex items-center gap-3">
+          <WaymarkBadge symbol={osm?.osmc_symbol} size={32} />
+          <h1 className="text-3xl font-semibold">{name}</h1>
+        </div>
         <p className="text-sm text-slate-600">
           {[region, county].filter(Boolean).join(', ')}
         </p>
+        {osm?.from && osm?.to && (
+          <p className="text-sm text-slate-600">
+            From <span className="font-medium">{osm.from}</span> to{' '}
+            <span className="font-medium">{osm.to}</span>
+          </p>
+        )}
+        {part_of && part_of.length > 0 && (
+          <p className="text-sm text-slate-600">
+            Part of{' '}
+            {part_of.map((parent, idx) => (
+              <span key={parent.osm_id}>
+                {idx > 0 && ', '}
+                {parent.slug ? (
+                  <a
+                    href={`/hike?slug=${parent.slug}`}
+                    className="font-medium text-blue-600 hover:text-blue-700 underline"
+                  >
+                    {parent.name || `OSM route ${parent.osm_id}`}
+                  </a>
+                ) : (
+                  <span className="font-medium">
+                    {parent.name || `OSM route ${parent.osm_id}`}
+                  </span>
+                )}
+              </span>
+            ))}
+          </p>
+        )}
+        {duplicate_of && (
+          <p className="text-sm text-slate-600">
+            This route is also listed as{' '}
+            <a
+              href={`/hike?slug=${duplicate_of}`}
+              className="font-medium text-blue-600 hover:text-blue-700 underline"
+            >
+              {canonical?.name ?? duplicate_of}
+            </a>
+            .
+          </p>
+        )}
+        {variantRelation && variantOf.length > 0 && (
+          <p className="text-sm text-slate-600">
+            {VARIANT_OF_TEXT[variantRelation]}{' '}
+            {variantOf.map((parent, idx) => (
+              <span key={parent.slug}>
+                {idx > 0 && ' and '}
+                <a
+                  href={`/hike?slug=${parent.slug}`}
+                  className="font-medium text-blue-600 hover:text-blue-700 underline"
+                >
+                  {parent.name}
+                </a>
+              </span>
+            ))}
+            .
+          </p>
+        )}
 
         <div className="flex flex-wrap gap-3 text-sm text-slate-800 mt-2">
           <span className="inline-flex items-center rounded-full bg-slate-900 text-white px-3 py-1 text-xs font-semibold">
@@ -109,17 +244,46 @@ export default async function HikePage({ params, searchParams }: PageProps) {
               <strong>Ascent:</strong> {ascent_m} m
             </span>
           )}
+          {typeof descent_m === 'number' && (
+            <span>
+              <strong>Descent:</strong> {descent_m} m
+            </span>
+          )}
+          {route_shape && (
+            <span>
+              <strong>Route:</strong>{' '}
+              {route_shape === 'out-and-back'
+                ? 'Out and back'
+                : route_shape.charAt(0).toUpperCase() + route_shape.slice(1)}
+            </span>
+          )}
           {typeof time_hours === 'number' && (
             <span>
               <strong>Time:</strong> {time_hours} hours
             </span>
           )}
-          {start?.nearest_postcode && (
+          {startPostcode && !remote && (
             <span>
-              <strong>Nearest postcode:</strong> {start.nearest_postcode}
+              <strong>Nearest postcode:</strong> {startPostcode.postcode}
             </span>
           )}
         </div>
+
+        {grade && grade.factors.length > 0 && (
+          <div className="text-sm text-slate-700">
+            <p className="font-semibold text-slate-800">
+              Why it&apos;s graded {difficulty || 'this way'}{' '}
+              <span className="font-normal text-slate-500">
+                (score {grade.score})
+              </span>
+            </p>
+            <ul className="list-disc list-inside space-y-0.5">
+              {grade.factors.map((f) => (
+                <li key={f.factor}>{f.reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
       </header>
 
       {/* Map */}
@@ -128,10 +292,13 @@ export default async function HikePage({ params, searchParams }: PageProps) {
         <p className="text-sm text-slate-600">
           Pan and zoom to explore the route. The blue line shows the GPX track
           and the marker shows the starting point.
+          {osm?.osmc_symbol && ' The badges along it show the waymark to follow.'}
         </p>
         <TrailMap
           center={{ lat: start.lat, lon: start.lon }}
           gpxUrl={gpx_file}
+          routeLevels={hike.route_levels}
+          waymark={osm?.osmc_symbol}
           height="480px"
         />
       </section>
@@ -152,10 +319,8 @@ export default async function HikePage({ params, searchParams }: PageProps) {
 
         <div className="space-y-3">
           <h3 className="text-lg font-semibold">Terrain</h3>
-          {terrain_summary || terrain ? (
-            <p className="text-slate-700">
-              {terrain_summary || terrain}
-            </p>
+          {terrain ? (
+            <p className="text-slate-700">{terrain}</p>
           ) : (
             <p className="text-slate-700">
               Terrain details can go here (e.g. moorland tracks, rocky edges,
@@ -163,21 +328,73 @@ export default async function HikePage({ params, searchParams }: PageProps) {
             </p>
           )}
 
-          {safety_notes && safety_notes.length > 0 && (
+          {safetyNotes && (
             <div className="space-y-1">
               <h4 className="text-sm font-semibold text-slate-800">
                 Safety notes
               </h4>
-              <ul className="list-disc list-inside text-sm text-slate-700 space-y-1">
-                {safety_notes.map((note, idx) => (
-                  <li key={idx}>{note}</li>
-                ))}
-              </ul>
+              <p className="text-sm text-slate-700">{safetyNotes}</p>
             </div>
           )}
         </div>
       </section>
 
+      {/* Route information from OSM */}
+      {osm && (osm.via || osm.operator || osm.website || osm.wikipedia || osm.wikidata) && (
+        <section className="space-y-2">
+          <h2 className="text-xl font-semibold">About this route</h2>
+          {osm.via && (
+            <p className="text-sm text-slate-700">
+              <strong>Passes through:</strong> {osm.via.join(', ')}
+            </p>
+          )}
+          {osm.operator && (
+            <p className="text-sm text-slate-700">
+              <strong>Managed by:</strong> {osm.operator}
+            </p>
+          )}
+          {osm.website && (
+            <p className="text-sm text-slate-700">
+              <strong>Official website:</strong>{' '}
+              <a
+                href={osm.website}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-blue-600 hover:text-blue-700 underline break-all"
+              >
+                {osm.website.replace(/^https?:\/\//, '')}
+              </a>
+            </p>
+          )}
+          {(osm.wikipedia || osm.wikidata) && (
+            <p className="text-sm text-slate-700">
+              <strong>Read more:</strong>{' '}
+              {osm.wikipedia && (
+                <a
+                  href={wikipediaUrl(osm.wikipedia)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 hover:text-blue-700 underline"
+                >
+                  Wikipedia
+                </a>
+              )}
+              {osm.wikipedia && osm.wikidata && ' · '}
+              {osm.wikidata && (
+                <a
+                  href={`https://www.wikidata.org/wiki/${osm.wikidata}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 hover:text-blue-700 underline"
+                >
+                  Wikidata
+                </a>
+              )}
+            </p>
+          )}
+        </section>
+      )}
+
       {/* Start location */}
       <section className="space-y-2">
         <h2 className="text-xl font-semibold">Start location</h2>
@@ -187,9 +404,26 @@ export default async function HikePage({ params, searchParams }: PageProps) {
             {start.lat.toFixed(5)}, {start.lon.toFixed(5)}
           </span>
         </p>
-        {start.nearest_postcode && (
+        {startPostcode && !remote && (
           <p className="text-sm text-slate-700">
-            <strong>Nearest postcode:</strong> {start.nearest_postcode}
+            <strong>Nearest postcode:</strong> {startPostcode.postcode}
+            {typeof startPostcode.distanceKm === 'number' && (
+              <> ({startPostcode.distanceKm.toFixed(1)} km away)</>
+            )}
+          </p>
+        )}
+        {remote && (
+          <p className="text-sm text-slate-700">
+            <strong>Remote start:</strong> there is no postcode close to the
+            start
+            {startPostcode && typeof startPostcode.distanceKm === 'number' && (
+              <>
+                {' '}
+                (the nearest, {startPostcode.postcode}, is{' '}
+                {startPostcode.distanceKm.toFixed(1)} km away)
+              </>
+            )}
+            , so use the coordinates above for navigation.
           </p>
         )}
         {start.car_park_name && (
@@ -197,6 +431,20 @@ export default async function HikePage({ params, searchParams }: PageProps) {
             <strong>Car park:</strong> {start.car_park_name}
           </p>
         )}
+        {start.station_name && (
+          <p className="text-sm text-slate-700">
+            <strong>Station:</strong> {start.station_name}
+          </p>
+        )}
+        {end && (
+          <p className="text-sm text-slate-700">
+            <strong>Finish:</strong>{' '}
+            <span className="font-mono">
+              {end.lat.toFixed(5)}, {end.lon.toFixed(5)}
+            </span>
+            {end.nearest_postcode && <> (near {end.nearest_postcode})</>}
+          </p>
+        )}
         <p className="text-xs text-slate-500">
           Coordinates and details are provided as a planning aid only. Always
           check local conditions and use appropriate navigation tools on the
@@ -204,6 +452,45 @@ export default async function HikePage({ params, searchParams }: PageProps) {
         </p>
       </section>
 
+      {/* Public transport */}
+      {transport &&
+        ((transport.nearest_train_stations?.length ?? 0) > 0 ||
+          (transport.nearest_bus_stops?.length ?? 0) > 0 ||
+          transport.access_summary) && (
+          <section className="space-y-2">
+            <h2 className="text-xl font-semibold">Getting there by public transport</h2>
+            {transport.access_summary && (
+              <p className="text-sm text-slate-700">{transport.access_summary}</p>
+            )}
+            {[
+              { label: 'Stations', stops: transport.nearest_train_stations },
+              { label: 'Bus stops', stops: transport.nearest_bus_stops },
+            ].map(
+              ({ label, stops }) =>
+                stops &&
+                stops.length > 0 && (
+                  <div key={label} className="text-sm text-slate-700">
+                    <p className="font-semibold text-slate-800">{label}</p>
+                    <ul className="list-disc list-inside space-y-0.5">
+                      {stops.map((stop) => (
+                        <li key={`${stop.near}-${stop.atco_code ?? stop.name}`}>
+                          {stop.name}
+                          {stop.station_code && <> ({stop.station_code})</>}
+                          {' – '}
+                          {stop.distance_km.toFixed(1)} km
+                          {typeof stop.walk_minutes === 'number' && (
+                            <>, about {stop.walk_minutes} min walk</>
+                          )}
+                          {stop.near === 'end' && <> from the finish</>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+            )}
+          </section>
+        )}
+
       {/* GPX download */}
       {gpx_file && (
         <section className="space-y-2">
@@ -222,6 +509,135 @@ export default async function HikePage({ params, searchParams }: PageProps) {
         </section>
       )}
 
+      {/* Day stages */}
+      {day_stages && day_stages.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Day stages</h2>
+          <p className="text-sm text-slate-600">
+            A suggested split into {day_stages.length} days, ending each day
+            at a town, village, station or place to stay where there is one
+            near the route. Check accommodation before you go.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-slate-700">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-1 pr-3 font-medium">Day</th>
+                  <th className="py-1 pr-3 font-medium">From – to</th>
+                  <th className="py-1 pr-3 font-medium">Distance</th>
+                  <th className="py-1 pr-3 font-medium">Ascent</th>
+                  <th className="py-1 font-medium">GPX</th>
+                </tr>
+              </thead>
+              <tbody>
+                {day_stages.map((stage, idx) => {
+                  const previous = day_stages[idx - 1];
+                  const from = previous
+                    ? dayEndName(previous, false, undefined)
+                    : (osm?.from ?? 'Start');
+                  const last = idx === day_stages.length - 1;
+                  return (
+                    <tr key={stage.day} className="border-b border-slate-100 align-top">
+                      <td className="py-1 pr-3">{stage.day}</td>
+                      <td className="py-1 pr-3">
+                        {from} – {dayEndName(stage, last, osm?.to)}
+                        {!last && stage.stop && (
+                          <span className="text-xs text-slate-500">
+                            {' '}
+                            ({STAGE_STOP_LABELS[stage.stop.type]}
+                            {stage.stop.distance_km >= 0.5 &&
+                              `, ${stage.stop.distance_km.toFixed(1)} km off the route`}
+                            )
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-3 whitespace-nowrap">
+                        {stage.distance_km.toFixed(1)} km
+                      </td>
+                      <td className="py-1 pr-3 whitespace-nowrap">
+                        {typeof stage.ascent_m === 'number' ? `${stage.ascent_m} m` : '–'}
+                      </td>
+                      <td className="py-1">
+                        {stage.gpx_file && (
+                          <a
+                            href={stage.gpx_file}
+                            download
+                            className="font-medium text-blue-600 hover:text-blue-700 underline"
+                          >
+                            Day {stage.day}
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {/* Stages */}
+      {stages && stages.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Stages</h2>
+          <p className="text-sm text-slate-600">
+            This route is made up of the following sections, in order.
+          </p>
+          <ol className="list-decimal list-inside text-sm text-slate-700 space-y-1">
+            {stages.map((stage) => (
+              <li key={stage.osm_id}>
+                {stage.slug ? (
+                  <a
+                    href={`/hike?slug=${stage.slug}`}
+                    className="font-medium text-blue-600 hover:text-blue-700 underline"
+                  >
+                    {stage.name || `OSM route ${stage.osm_id}`}
+                  </a>
+                ) : (
+                  <span>{stage.name || `OSM route ${stage.osm_id}`}</span>
+                )}
+                {stage.role && (
+                  <span className="text-xs text-slate-500"> ({stage.role})</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {/* Variants */}
+      {variants && variants.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Variants and link paths</h2>
+          <p className="text-sm text-slate-600">
+            Other ways of walking this route, and paths joining it.
+          </p>
+          {VARIANT_RELATIONS.map((relation) => {
+            const group = variants.filter((v) => v.relation === relation);
+            if (group.length === 0) return null;
+            return (
+              <div key={relation} className="text-sm text-slate-700">
+                <p className="font-semibold text-slate-800">{VARIANT_HEADINGS[relation]}</p>
+                <ul className="list-disc list-inside space-y-0.5">
+                  {group.map((v) => (
+                    <li key={v.slug}>
+                      <a
+                        href={`/hike?slug=${v.slug}`}
+                        className="font-medium text-blue-600 hover:text-blue-700 underline"
+                      >
+                        {v.name}
+                      </a>
+                      <span className="text-xs text-slate-500"> ({v.distance_km.toFixed(1)} km)</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </section>
+      )}
+
       {/* Nearby hikes */}
       {nearby.length > 0 && (
         <section className="space-y-3 pt-4 border-t border-slate-200">
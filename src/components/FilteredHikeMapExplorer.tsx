@@ -7,11 +7,14 @@ import {
   TileLayer,
   Marker,
   Popup,
+  CircleMarker,
+  Tooltip,
   useMapEvent,
 } from 'react-leaflet';
 import L from 'leaflet';
 
-import { hikes, type Hike } from '@/data/hikes';
+import { hikes as sampleHikes, type HikeSummary } from '@/data/hikes';
+import type { NearbyPostcode } from '@/lib/postcodes';
 
 // If you had a fixLeaflet() helper before, you can re-add it like this:
 // import { fixLeaflet } from '@/lib/leaflet-ssr';
@@ -43,7 +46,7 @@ const defaultThemeFilter: ThemeFilterState = {
   ridges: false,
 };
 
-function matchesCarFreeFilters(hike: Hike, options: TransportFilterState) {
+function matchesCarFreeFilters(hike: HikeSummary, options: TransportFilterState) {
   const tags = hike.transport?.access_tags ?? [];
 
   if (options.trainOnly && !tags.includes('train-accessible')) return false;
@@ -53,10 +56,10 @@ function matchesCarFreeFilters(hike: Hike, options: TransportFilterState) {
   return true;
 }
 
-function matchesThemeFilters(hike: Hike, themes: ThemeFilterState) {
+function matchesThemeFilters(hike: HikeSummary, themes: ThemeFilterState) {
   const activeThemes = Object.entries(themes)
     .filter(([, value]) => value)
-    .map(([key]) => key) as Hike['themes'][number][];
+    .map(([key]) => key) as HikeSummary['themes'][number][];
 
   if (activeThemes.length === 0) return true;
 
@@ -64,13 +67,13 @@ function matchesThemeFilters(hike: Hike, themes: ThemeFilterState) {
   return hike.themes.some((t) => activeThemes.includes(t));
 }
 
-function matchesSearch(hike: Hike, query: string) {
+function matchesSearch(hike: HikeSummary, query: string) {
   if (!query.trim()) return true;
   const q = query.toLowerCase();
   return (
     hike.name.toLowerCase().includes(q) ||
     hike.region.toLowerCase().includes(q) ||
-    hike.summary.toLowerCase().includes(q)
+    (hike.summary ?? '').toLowerCase().includes(q)
   );
 }
 
@@ -101,28 +104,67 @@ const selectedIcon = L.icon({
   shadowSize: [49, 49],
 });
 
+// A point the user picked – their location or a map click – and the
+// postcode nearest it.
+type PinnedPoint = {
+  lat: number;
+  lon: number;
+  source: 'location' | 'map';
+  postcode?: NearbyPostcode | null; // undefined while loading
+};
+
+async function fetchNearestPostcode(lat: number, lon: number): Promise<NearbyPostcode | null> {
+  try {
+    const res = await fetch(`/api/postcodes/reverse?lat=${lat}&lon=${lon}&k=1`);
+    if (!res.ok) return null;
+    const body = (await res.json()) as { results: NearbyPostcode[] };
+    return body.results[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function pinLabel(pin: PinnedPoint): string {
+  const where = pin.source === 'location' ? 'You are' : 'This point is';
+  if (pin.postcode === undefined) return 'Finding the nearest postcode…';
+  if (pin.postcode === null) return 'No postcode nearby';
+  return `${where} near ${pin.postcode.postcode} (${pin.postcode.distanceKm.toFixed(1)} km)`;
+}
+
 type MapSyncProps = {
-  selectedHike?: Hike | null;
+  selectedHike?: HikeSummary | null;
+  pin?: PinnedPoint | null;
+  onMapClick: (lat: number, lon: number) => void;
 };
 
-function MapSync({ selectedHike }: MapSyncProps) {
-  const map = useMapEvent('click', () => {
-    // no-op, just to get map instance
+function MapSync({ selectedHike, pin, onMapClick }: MapSyncProps) {
+  const map = useMapEvent('click', (e: { latlng: { lat: number; lng: number } }) => {
+    onMapClick(e.latlng.lat, e.latlng.lng);
   });
 
   useEffect(() => {
     if (!selectedHike) return;
     map.flyTo(
-      [selectedHike.location.lat, selectedHike.location.lon],
+      [selectedHike.start.lat, selectedHike.start.lon],
       11,
       { duration: 0.7 },
     );
   }, [selectedHike, map]);
 
+  // Only the user's location moves the map; a click is already in view.
+  useEffect(() => {
+    if (pin?.source !== 'location') return;
+    map.flyTo([pin.lat, pin.lon], 11, { duration: 0.7 });
+  }, [pin?.source, pin?.lat, pin?.lon, map]);
+
   return null;
 }
 
-export function FilteredHikeMapExplorer() {
+type FilteredHikeMapExplorerProps = {
+  hikes?: HikeSummary[];
+};
+
+export function FilteredHikeMapExplorer({ hikes = sampleHikes }: FilteredHikeMapExplorerProps) {
   const [transportFilter, setTransportFilter] = useState<TransportFilterState>(
     defaultTransportFilter,
   );
@@ -131,6 +173,8 @@ export function FilteredHikeMapExplorer() {
   );
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedHikeId, setSelectedHikeId] = useState<string | null>(null);
+  const [pin, setPin] = useState<PinnedPoint | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
 
   // For scrolling the selected card into view
   const listRef = useRef<HTMLDivElement | null>(null);
@@ -142,7 +186,7 @@ export function FilteredHikeMapExplorer() {
         matchesThemeFilters(hike, themeFilter) &&
         matchesSearch(hike, searchQuery),
     );
-  }, [transportFilter, themeFilter, searchQuery]);
+  }, [hikes, transportFilter, themeFilter, searchQuery]);
 
   const selectedHike =
     filteredHikes.find((h) => h.id === selectedHikeId) ?? null;
@@ -173,10 +217,10 @@ export function FilteredHikeMapExplorer() {
   const mapCenter = useMemo(() => {
     if (!hikes.length) return [54.5, -3.0] as [number, number];
 
-    const latSum = hikes.reduce((sum, h) => sum + h.location.lat, 0);
-    const lonSum = hikes.reduce((sum, h) => sum + h.location.lon, 0);
+    const latSum = hikes.reduce((sum, h) => sum + h.start.lat, 0);
+    const lonSum = hikes.reduce((sum, h) => sum + h.start.lon, 0);
     return [latSum / hikes.length, lonSum / hikes.length] as [number, number];
-  }, []);
+  }, [hikes]);
 
   const handleTransportToggle = (key: keyof TransportFilterState) => {
     setTransportFilter((prev) => ({
@@ -192,10 +236,33 @@ export function FilteredHikeMapExplorer() {
     }));
   };
 
-  const handleCardClick = (hike: Hike) => {
+  const handleCardClick = (hike: HikeSummary) => {
     setSelectedHikeId(hike.id);
   };
 
+  const pinPoint = (lat: number, lon: number, source: PinnedPoint['source']) => {
+    setPin({ lat, lon, source });
+    fetchNearestPostcode(lat, lon).then((postcode) => {
+      // Ignore the answer if another point has been picked since.
+      setPin((current) =>
+        current && current.lat === lat && current.lon === lon ? { ...current, postcode } : current,
+      );
+    });
+  };
+
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError('Your browser cannot share its location.');
+      return;
+    }
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => pinPoint(position.coords.latitude, position.coords.longitude, 'location'),
+      () => setLocationError('Could not get your location.'),
+      { timeout: 10000 },
+    );
+  };
+
   return (
     <div className="flex h-[calc(100vh-6rem)] flex-col gap-4 lg:flex-row">
       {/* Left: Filters + list */}
@@ -217,6 +284,22 @@ export function FilteredHikeMapExplorer() {
               />
             </div>
 
+            {/* Location */}
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={handleUseLocation}
+                className="rounded-full border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Use my location
+              </button>
+              {locationError ? (
+                <span className="text-xs text-red-600">{locationError}</span>
+              ) : (
+                pin && <span className="text-xs text-gray-600">{pinLabel(pin)}</span>
+              )}
+            </div>
+
             {/* Themes */}
             <div>
               <div className="mb-1 text-xs font-semibold uppercase text-gray-500">
@@ -333,8 +416,8 @@ export function FilteredHikeMapExplorer() {
                         </p>
                       </div>
                       <div className="text-right text-xs text-gray-600">
-                        <div>{hike.distanceKm.toFixed(1)} km</div>
-                        <div>{hike.ascentM} m ascent</div>
+                        <div>{hike.distance_km.toFixed(1)} km</div>
+                        {typeof hike.ascent_m === 'number' && <div>{hike.ascent_m} m ascent</div>}
                       </div>
                     </div>
 
@@ -390,14 +473,30 @@ export function FilteredHikeMapExplorer() {
             attribution='&copy; OpenStreetMap contributors'
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           />
-          <MapSync selectedHike={selectedHike ?? undefined} />
+          <MapSync
+            selectedHike={selectedHike ?? undefined}
+            pin={pin}
+            onMapClick={(lat, lon) => pinPoint(lat, lon, 'map')}
+          />
+
+          {pin && (
+            <CircleMarker
+              center={[pin.lat, pin.lon]}
+              radius={7}
+              pathOptions={{ color: '#2563eb', fillColor: '#3b82f6', fillOpacity: 0.8 }}
+            >
+              <Tooltip direction="top" offset={[0, -8]} permanent>
+                {pinLabel(pin)}
+              </Tooltip>
+            </CircleMarker>
+          )}
 
           {filteredHikes.map((hike) => {
             const isSelected = hike.id === selectedHikeId;
             return (
               <Marker
                 key={hike.id}
-                position={[hike.location.lat, hike.location.lon]}
+                position={[hike.start.lat, hike.start.lon]}
                 icon={isSelected ? selectedIcon : defaultIcon}
                 eventHandlers={{
                   click: () => setSelectedHikeId(hike.id),
@@ -408,7 +507,8 @@ export function FilteredHikeMapExplorer() {
                     <div className="font-semibold">{hike.name}</div>
                     <div className="text-gray-500">{hike.region}</div>
                     <div>
-                      {hike.distanceKm.toFixed(1)} km · {hike.ascentM} m
+                      {hike.distance_km.toFixed(1)} km
+                      {typeof hike.ascent_m === 'number' && <> · {hike.ascent_m} m</>}
                     </div>
                     <Link
                       href={`/hike/${hike.slug}`}
@@ -1,16 +1,13 @@
 import Link from 'next/link';
+import type { HikeSummary } from '@/lib/hike-schema';
+import { WaymarkBadge } from '@/components/WaymarkBadge';
 
-export type HikeListCardProps = {
-  slug: string;
-  name: string;
-  region?: string;
-  distanceKm?: number;
-  ascentM?: number;
-  difficulty?: 'easy' | 'moderate' | 'hard';
-  themeTags?: string[]; // e.g. ['coastal', 'waterfalls', 'ridges']
-  transportTags?: string[]; // e.g. ['train-accessible', 'bus-accessible', 'car-free-possible'];
-  thumbnailUrl?: string;
-};
+export type HikeListCardProps = Pick<HikeSummary, 'slug' | 'name'> &
+  Partial<Pick<HikeSummary, 'region' | 'distance_km' | 'ascent_m' | 'difficulty' | 'osmc_symbol'>> & {
+    themeTags?: string[]; // e.g. ['coastal', 'waterfalls', 'ridges']
+    transportTags?: string[]; // e.g. ['train-accessible', 'bus-accessible', 'car-free-possible'];
+    thumbnailUrl?: string;
+  };
 
 const difficultyColours: Record<string, string> = {
   easy: 'bg-emerald-100 text-emerald-800',
@@ -22,9 +19,10 @@ export function HikeListCard({
   slug,
   name,
   region,
-  distanceKm,
-  ascentM,
+  distance_km,
+  ascent_m,
   difficulty,
+  osmc_symbol,
   themeTags = [],
   transportTags = [],
   thumbnailUrl,
@@ -51,12 +49,15 @@ export function HikeListCard({
       <div className="flex flex-1 flex-col gap-1.5">
         <div className="flex items-start justify-between gap-2">
           <div>
-            <Link
-              href={`/hike/${slug}`}
-              className="text-sm font-semibold text-slate-900 hover:underline sm:text-base"
-            >
-              {name}
-            </Link>
+            <div className="flex items-center gap-1.5">
+              <WaymarkBadge symbol={osmc_symbol} size={18} />
+              <Link
+                href={`/hike/${slug}`}
+                className="text-sm font-semibold text-slate-900 hover:underline sm:text-base"
+              >
+                {name}
+              </Link>
+            </div>
             {region && (
               <p className="text-xs text-slate-500 sm:text-sm">{region}</p>
             )}
@@ -75,10 +76,10 @@ export function HikeListCard({
 
         {/* Stats row */}
         <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-600 sm:text-sm">
-          {typeof distanceKm === 'number' && (
-            <span>{distanceKm.toFixed(1)} km</span>
+          {typeof distance_km === 'number' && (
+            <span>{distance_km.toFixed(1)} km</span>
           )}
-          {typeof ascentM === 'number' && <span>{ascentM} m ascent</span>}
+          {typeof ascent_m === 'number' && <span>{ascent_m} m ascent</span>}
         </div>
 
         {/* Tags row */}
@@ -0,0 +1,26 @@
+import { describeOsmcSymbol, osmcSymbolSvg } from '@/lib/osmc-symbol';
+
+type WaymarkBadgeProps = {
+  symbol?: string; // osmc:symbol tag
+  size?: number; // px
+  className?: string;
+};
+
+// The waymark to follow on the ground, drawn from the route's osmc:symbol.
+export function WaymarkBadge({ symbol, size = 20, className = '' }: WaymarkBadgeProps) {
+  const svg = osmcSymbolSvg(symbol, size);
+  if (!svg) return null;
+  const description = describeOsmcSymbol(symbol);
+
+  return (
+    <span
+      role="img"
+      aria-label={`Waymark: ${description}`}
+      title={`Waymark: ${description}`}
+      className={`inline-flex flex-shrink-0 ${className}`}
+      style={{ width: size, height: size }}
+      // Generated by osmcSymbolSvg, which escapes the tag's text.
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
@@ -1,36 +1,13 @@
-// Central place for all your hike data & types
+// Sample hikes for the map explorer. Types come from the shared schema in
+// lib/hike-schema.ts.
 
-export type TransportAccessTag =
-  | 'train-accessible'
-  | 'bus-accessible'
-  | 'car-free-possible';
+import type { HikeSummary } from '@/lib/hike-schema';
 
-export type HikeTheme = 'coastal' | 'waterfalls' | 'lakes' | 'ridges';
-
-export type Difficulty = 'easy' | 'moderate' | 'challenging';
-
-export type Hike = {
-  id: string;
-  slug: string;
-  name: string;
-  region: string;
-  summary: string;
-  distanceKm: number;
-  ascentM: number;
-  difficulty: Difficulty;
-  themes: HikeTheme[];
-  location: {
-    lat: number;
-    lon: number;
-  };
-  transport?: {
-    access_tags?: TransportAccessTag[];
-  };
-};
+export type { Difficulty, HikeSummary, ThemeTag, TransportTag } from '@/lib/hike-schema';
 
 // 🟢 Replace these 4 hikes with your *real* ones later.
 // For now they give you a working structure.
-export const hikes: Hike[] = [
+export const hikes: HikeSummary[] = [
   {
     id: 'stanage-edge-ridge-walk',
     slug: 'stanage-edge-ridge-walk',
@@ -38,11 +15,11 @@ export const hikes: Hike[] = [
     region: 'Peak District',
     summary:
       'A classic gritstone ridge walk along Stanage Edge with huge views over the Hope Valley.',
-    distanceKm: 9.5,
-    ascentM: 430,
+    distance_km: 9.5,
+    ascent_m: 430,
     difficulty: 'moderate',
     themes: ['ridges'],
-    location: {
+    start: {
       lat: 53.3506,
       lon: -1.6306,
     },
@@ -57,11 +34,11 @@ export const hikes: Hike[] = [
     region: 'Cornwall',
     summary:
       'Undulating stretch of coastal path with cliffs, coves, and sea views.',
-    distanceKm: 7.2,
-    ascentM: 320,
+    distance_km: 7.2,
+    ascent_m: 320,
     difficulty: 'moderate',
     themes: ['coastal'],
-    location: {
+    start: {
       lat: 50.2001,
       lon: -5.4801,
     },
@@ -76,11 +53,11 @@ export const hikes: Hike[] = [
     region: 'Brecon Beacons',
     summary:
       'A woodland gorge walk visiting several scenic waterfalls and pools.',
-    distanceKm: 8.4,
-    ascentM: 380,
+    distance_km: 8.4,
+    ascent_m: 380,
     difficulty: 'moderate',
     themes: ['waterfalls'],
-    location: {
+    start: {
       lat: 51.8001,
       lon: -3.5501,
     },
@@ -95,11 +72,11 @@ export const hikes: Hike[] = [
     region: 'Lake District',
     summary:
       'Gentle lakeshore circuit with constant water views and low-level terrain.',
-    distanceKm: 5.6,
-    ascentM: 150,
+    distance_km: 5.6,
+    ascent_m: 150,
     difficulty: 'easy',
     themes: ['lakes'],
-    location: {
+    start: {
       lat: 54.5501,
       lon: -3.1501,
     },
@@ -110,6 +87,6 @@ export const hikes: Hike[] = [
 ];
 
 // Helper to look up a hike by slug
-export function getHikeBySlug(slug: string): Hike | undefined {
+export function getHikeBySlug(slug: string): HikeSummary | undefined {
   return hikes.find((hike) => hike.slug === slug);
 }